@@ -1,101 +1,267 @@
-import React, { useState } from 'react';
-import { analyzeProductPage, proxyFetchHtml, imageToBase64 } from './services/geminiService.ts';
-import { AnalysisResult } from './types.ts';
-import ReportView from './components/ReportView.tsx';
-import { Search, Loader2, RefreshCcw, ShieldAlert, Zap, Globe, Cpu } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { auditPage } from './services/auditPipeline.ts';
+import { auditSite } from './services/siteCrawler.ts';
+import { auditUpload } from './services/imageUpload.ts';
+import { auditCompetitors, parseCompetitorUrls } from './services/competitorBenchmark.ts';
+import { DEFAULT_PROFILE_ID, getProfile, listProfiles, parseAuditProfile, registerProfile } from './services/auditProfiles.ts';
+import { emptyBrandGuide, hasBrandRules, parseBrandGuide } from './services/brandGuide.ts';
+import { createHistoryEntry, createIndexedDbHistoryStore, parseImportedAudit } from './services/historyStore.ts';
+import { getProvider, listProviders } from './services/visionProvider.ts';
+import { BatchQueue, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, createBatchQueue, parseBatchInput } from './services/batchAudit.ts';
+import { AuditProgress, EMPTY_PROGRESS, applyProgressEvent } from './services/auditProgress.ts';
+import { MAX_IMAGE_EDGE } from './services/geminiService.ts';
+import { UsageBudget, getSessionUsage, setBudget, subscribeUsage, totalUsage } from './services/usageAccounting.ts';
+import { AnalysisResult, AuditDiff, AuditHistoryEntry, AuditProgressEvent, BatchItem, BatchState, BrandGuide, SiteAuditReport, ValidationIssue } from './types.ts';
+import ReportView, { StreamingAssets } from './components/ReportView.tsx';
+import SiteReportView from './components/SiteReportView.tsx';
+import HistorySidebar from './components/HistorySidebar.tsx';
+import AuditDiffView from './components/AuditDiffView.tsx';
+import UploadDropzone from './components/UploadDropzone.tsx';
+import BrandGuidePanel from './components/BrandGuidePanel.tsx';
+import BatchView from './components/BatchView.tsx';
+import AuditProgressPanel from './components/AuditProgressPanel.tsx';
+import UsagePanel from './components/UsagePanel.tsx';
+import { diffAudits, withPerceptualHashes } from './services/auditDiff.ts';
+import { AnalysisValidationError } from './services/analysisValidation.ts';
+import { Search, Loader2, RefreshCcw, ShieldAlert, Zap, Globe, Cpu, History, FileJson, FileSpreadsheet } from 'lucide-react';
+
+const historyStore = createIndexedDbHistoryStore();
+
+const BRAND_GUIDE_KEY = 'visualsense.brandGuide';
+const BUDGET_KEY = 'visualsense.budget';
+const MAX_EDGE_OPTIONS = [1024, 1536, MAX_IMAGE_EDGE, 3072];
+
+function loadStoredBrandGuide(): BrandGuide {
+  try {
+    const stored = localStorage.getItem(BRAND_GUIDE_KEY);
+    return stored ? parseBrandGuide(JSON.parse(stored)) : emptyBrandGuide();
+  } catch {
+    return emptyBrandGuide();
+  }
+}
+
+function loadStoredBudget(): UsageBudget | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_KEY) || 'null');
+    return typeof stored?.limitUsd === 'number' ? { limitUsd: stored.limitUsd, onExceeded: stored.onExceeded === 'downsize' ? 'downsize' : 'refuse' } : null;
+  } catch {
+    return null;
+  }
+}
 
 const App: React.FC = () => {
   const [url, setUrl] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorIssues, setErrorIssues] = useState<ValidationIssue[]>([]);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [statusText, setStatusText] = useState('');
+  const [progress, setProgress] = useState<AuditProgress>(EMPTY_PROGRESS);
+  const abortRef = useRef<AbortController | null>(null);
+  const [providerId, setProviderId] = useState(() => getProvider().id);
+  const [mode, setMode] = useState<'page' | 'site' | 'upload' | 'batch'>('page');
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
+  const [productName, setProductName] = useState('');
+  const [category, setCategory] = useState('');
+  const [competitorText, setCompetitorText] = useState('');
+  const [captureLayout, setCaptureLayout] = useState(false);
+  const [compareDevices, setCompareDevices] = useState(false);
+  const [fresh, setFresh] = useState(false);
+  const [maxEdge, setMaxEdge] = useState(MAX_IMAGE_EDGE);
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [profiles, setProfiles] = useState(listProfiles);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+  const [brandGuide, setBrandGuide] = useState(loadStoredBrandGuide);
+  const [brandGuideEnabled, setBrandGuideEnabled] = useState(() => hasBrandRules(brandGuide));
+  const [crawlDepth, setCrawlDepth] = useState(1);
+  const [crawlPages, setCrawlPages] = useState(5);
+  const [siteReport, setSiteReport] = useState<SiteAuditReport | null>(null);
+  const [batchText, setBatchText] = useState('');
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [batch, setBatch] = useState<{ queue: BatchQueue; items: BatchItem[]; state: BatchState } | null>(null);
+  const batchInputRef = useRef<HTMLInputElement>(null);
+  const [history, setHistory] = useState<AuditHistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [comparison, setComparison] = useState<{ diff: AuditDiff; before: AnalysisResult; after: AnalysisResult } | null>(null);
+  const [sessionUsage, setSessionUsage] = useState(getSessionUsage);
+  const [budget, setBudgetState] = useState(loadStoredBudget);
+
+  const refreshHistory = () => historyStore.list().then(setHistory).catch(() => setHistory([]));
+
+  useEffect(() => {
+    refreshHistory();
+    return subscribeUsage(setSessionUsage);
+  }, []);
+
+  useEffect(() => {
+    setBudget(budget);
+    try {
+      if (budget) localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+      else localStorage.removeItem(BUDGET_KEY);
+    } catch {}
+  }, [budget]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(BRAND_GUIDE_KEY, JSON.stringify(brandGuide));
+    } catch {
+      // Example images can exceed the storage quota; the guide still applies for this session.
+    }
+  }, [brandGuide]);
+
+  const saveToHistory = async (results: AnalysisResult[]) => {
+    try {
+      for (const r of results) await historyStore.save(createHistoryEntry(r));
+      await refreshHistory();
+    } catch {
+      // History is a convenience; a full or unavailable IndexedDB must not fail the audit.
+    }
+  };
+
+  /** Clears the batch view; queued audits of a batch that is still running are dropped. */
+  const closeBatch = () => {
+    batch?.queue.cancel();
+    setBatch(null);
+  };
+
+  const openFromHistory = (entry: AuditHistoryEntry) => {
+    if (!entry.result.upload) setUrl(entry.url);
+    closeBatch();
+    setError(null);
+    setSiteReport(null);
+    setComparison(null);
+    setResult(entry.result);
+    setHistoryOpen(false);
+  };
+
+  const compareFromHistory = async (before: AuditHistoryEntry, after: AuditHistoryEntry) => {
+    const [b, a] = await Promise.all([withPerceptualHashes(before.result), withPerceptualHashes(after.result)]);
+    setResult(null);
+    setSiteReport(null);
+    closeBatch();
+    setComparison({ diff: diffAudits(b, a, { before: before.savedAt, after: after.savedAt }), before: b, after: a });
+    setHistoryOpen(false);
+  };
+
+  const deleteFromHistory = async (id: string) => {
+    await historyStore.delete(id);
+    await refreshHistory();
+  };
+
+  const importAudits = async (files: File[]) => {
+    try {
+      const imported = await Promise.all(files.map(async (file) => createHistoryEntry(parseImportedAudit(await file.text()))));
+      for (const entry of imported) await historyStore.save(entry);
+      await refreshHistory();
+      if (imported.length === 1) openFromHistory(imported[0]);
+    } catch (err: any) {
+      setError(err.message);
+      setErrorIssues(err instanceof AnalysisValidationError ? err.issues : []);
+      setHistoryOpen(false);
+    }
+  };
+
+  const loadProfileFile = async (file: File) => {
+    try {
+      const profile = parseAuditProfile(JSON.parse(await file.text()));
+      registerProfile(profile);
+      setProfiles(listProfiles());
+      setProfileId(profile.id);
+    } catch (err: any) {
+      setError(err instanceof SyntaxError ? `Profile ${file.name} is not valid JSON.` : err.message);
+      setErrorIssues([]);
+    }
+  };
+
+  const batchInput = parseBatchInput(batchText);
+
+  const startBatch = () => {
+    const { urls } = batchInput;
+    if (urls.length === 0) {
+      setError('No page URLs found. Paste one URL per line or load a CSV with a "url" column.');
+      setErrorIssues([]);
+      return;
+    }
+    const profile = getProfile(profileId);
+    const guide = brandGuideEnabled && hasBrandRules(brandGuide) ? brandGuide : undefined;
+    const queue = createBatchQueue(urls, (u, signal) => auditPage(u, { providerId, profile, brandGuide: guide, captureLayout, compareDevices, fresh, preprocess: { maxEdge }, signal }), {
+      concurrency: batchConcurrency,
+      onChange: (items, state) => setBatch((current) => (current?.queue === queue ? { queue, items, state } : current)),
+      onResult: (r) => saveToHistory([r])
+    });
+    setBatch({ queue, items: queue.items(), state: queue.state() });
+    setError(null);
+    queue.start();
+  };
 
   const handleAnalyze = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!url) return;
+    closeBatch();
+    setResult(null);
+    setSiteReport(null);
+    setComparison(null);
+    if (mode === 'batch') return startBatch();
+    if (mode === 'upload' ? uploadFiles.length === 0 : !url) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    abortRef.current = controller;
+    const onProgress = (event: AuditProgressEvent) => {
+      if (!signal.aborted) setProgress((current) => applyProgressEvent(current, event));
+    };
 
     setLoading(true);
     setError(null);
-    setResult(null);
-    setStatusText('Initiating secure proxy tunnel...');
+    setProgress(EMPTY_PROGRESS);
+    setStatusText(mode === 'upload' ? 'Reading uploaded files...' : 'Initiating secure proxy tunnel...');
 
     try {
-      const html = await proxyFetchHtml(url);
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-      
-      setStatusText('Scanning for high-res hero assets...');
-      
-      const potentialImages: string[] = [];
-      const ogImg = doc.querySelector('meta[property="og:image"]')?.getAttribute('content');
-      if (ogImg) potentialImages.push(ogImg);
-
-      const imgElements = Array.from(doc.querySelectorAll('img'));
-      imgElements.forEach(img => {
-        const src = img.getAttribute('src') || '';
-        const srcset = img.getAttribute('srcset') || '';
-        const dataSrc = img.getAttribute('data-src') || img.getAttribute('data-zoom-src') || '';
-        
-        let targetUrl = dataSrc || src;
-        if (srcset) {
-          const sets = srcset.split(',').map(s => s.trim().split(' ')[0]);
-          targetUrl = sets[sets.length - 1] || targetUrl;
-        }
-
-        if (targetUrl) {
-          if (targetUrl.startsWith('//')) targetUrl = 'https:' + targetUrl;
-          if (targetUrl.startsWith('/') && !targetUrl.startsWith('//')) {
-            try { targetUrl = new URL(url).origin + targetUrl; } catch {}
-          }
-          const isImg = targetUrl.match(/\.(jpg|jpeg|png|webp|avif)/i);
-          const isNotIcon = !targetUrl.toLowerCase().includes('icon') && !targetUrl.toLowerCase().includes('logo') && !targetUrl.toLowerCase().includes('svg');
-          if (targetUrl.startsWith('http') && isImg && isNotIcon) {
-            potentialImages.push(targetUrl);
-          }
-        }
-      });
-
-      const uniqueImages = Array.from(new Set(potentialImages)).slice(0, 5);
-      if (uniqueImages.length === 0) throw new Error("Target site is aggressively blocking standard crawlers.");
-
-      setStatusText(`Decoding ${uniqueImages.length} assets for AI context...`);
-      const base64Images = await Promise.all(
-        uniqueImages.map(async (u) => {
-          try {
-            const result = await imageToBase64(u);
-            return { url: u, base64: result.base64, mimeType: result.mimeType };
-          } catch (e) {
-            return null;
-          }
-        })
-      );
-
-      const validImages = base64Images.filter((i): i is { url: string; base64: string; mimeType: string } => i !== null);
-      if (validImages.length === 0) throw new Error("CORS Barrier or SVG Only detected: Site security settings prevent high-res image extraction for audit.");
-
-      setStatusText('Gemini AI is generating audit...');
-      const analysisResult = await analyzeProductPage(url, validImages);
-      
-      const finalResult: AnalysisResult = {
-        ...analysisResult,
-        images: analysisResult.images.map((img, idx) => ({
-          ...img,
-          url: validImages[idx]?.url || img.url,
-          base64: validImages[idx]?.base64,
-          mimeType: validImages[idx]?.mimeType
-        }))
-      };
-
-      setResult(finalResult);
+      const profile = getProfile(profileId);
+      const guide = brandGuideEnabled && hasBrandRules(brandGuide) ? brandGuide : undefined;
+      if (mode === 'site') {
+        const report = await auditSite(
+          url,
+          { maxDepth: crawlDepth, maxPages: crawlPages, fresh, onStatus: setStatusText, onProgress, signal },
+          { providerId, profile, brandGuide: guide, captureLayout, compareDevices, fresh, preprocess: { maxEdge }, onProgress, signal }
+        );
+        setSiteReport(report);
+        saveToHistory(report.pages);
+      } else {
+        const audit = mode === 'upload'
+          ? await auditUpload(uploadFiles, { providerId, profile, brandGuide: guide, productName, category, fresh, preprocess: { maxEdge }, onStatus: setStatusText, onProgress, signal })
+          : await auditPage(url, { providerId, profile, brandGuide: guide, captureLayout, compareDevices, fresh, preprocess: { maxEdge }, onStatus: setStatusText, onProgress, signal });
+        const competitorUrls = parseCompetitorUrls(competitorText);
+        const benchmarks = competitorUrls.length ? await auditCompetitors(competitorUrls, { providerId, profile, fresh, preprocess: { maxEdge }, onStatus: setStatusText, signal }) : undefined;
+        const withBenchmarks = benchmarks ? { ...audit, benchmarks } : audit;
+        setResult(withBenchmarks);
+        saveToHistory([withBenchmarks]);
+      }
     } catch (err: any) {
-      setError(err.message);
+      // A cancelled audit is not an error; the form is simply ready again.
+      if (!signal.aborted) {
+        setError(err.message);
+        setErrorIssues(err instanceof AnalysisValidationError ? err.issues : []);
+      }
     } finally {
-      setLoading(false);
-      setStatusText('');
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setStatusText('');
+        setProgress(EMPTY_PROGRESS);
+      }
     }
   };
 
+  /** Aborts the running audit's page, asset and model requests. */
+  const cancelAudit = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+    setStatusText('');
+    setProgress(EMPTY_PROGRESS);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-20 selection:bg-indigo-100 selection:text-indigo-900">
       <header className="bg-white/80 backdrop-blur-md border-b sticky top-0 z-50 shadow-sm">
@@ -107,6 +273,22 @@ const App: React.FC = () => {
             <h1 className="font-black text-lg sm:text-xl tracking-tighter text-black">VISUAL<span className="text-indigo-600 underline decoration-indigo-200 underline-offset-4">SENSE</span></h1>
           </div>
           <div className="flex items-center gap-2 sm:gap-3">
+            <select
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value)}
+              disabled={loading}
+              className="text-[10px] font-black uppercase tracking-widest text-slate-600 bg-white border border-slate-200 rounded-full px-3 py-1.5 outline-none focus:border-indigo-600"
+            >
+              {listProviders().map((p) => (
+                <option key={p.id} value={p.id}>{p.label} · {p.model}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center gap-1.5 text-slate-600 font-bold text-[10px] uppercase tracking-widest bg-white px-3 py-1.5 rounded-full border border-slate-200 hover:border-indigo-600 hover:text-indigo-600 transition-colors"
+            >
+              <History className="w-3 h-3" /> History{history.length > 0 && ` · ${history.length}`}
+            </button>
             <div className="hidden md:flex items-center gap-1.5 text-slate-400 font-bold text-[10px] uppercase tracking-widest bg-slate-100 px-3 py-1.5 rounded-full border border-slate-200">
               <Cpu className="w-3 h-3" /> System Live
             </div>
@@ -129,38 +311,206 @@ const App: React.FC = () => {
 
         <div className="max-w-4xl mx-auto mb-16 sm:mb-20">
           <form onSubmit={handleAnalyze} className="relative group px-2 sm:px-0">
-            <div className="relative flex flex-col sm:block">
-              <div className="absolute inset-y-0 left-0 pl-6 hidden sm:flex items-center pointer-events-none">
-                <Search className="h-6 w-6 text-slate-300 group-focus-within:text-indigo-600 transition-colors" />
+            {mode === 'upload' ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <input
+                    placeholder="Product name (optional)"
+                    className="block w-full px-6 py-4 bg-white border-2 border-slate-100 rounded-2xl shadow-xl shadow-indigo-200/20 focus:border-indigo-600 text-base text-black outline-none font-bold placeholder:text-slate-300"
+                    value={productName}
+                    onChange={(e) => setProductName(e.target.value)}
+                  />
+                  <input
+                    placeholder="Category, e.g. Footwear (optional)"
+                    className="block w-full px-6 py-4 bg-white border-2 border-slate-100 rounded-2xl shadow-xl shadow-indigo-200/20 focus:border-indigo-600 text-base text-black outline-none font-bold placeholder:text-slate-300"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                  />
+                </div>
+                <UploadDropzone files={uploadFiles} onChange={setUploadFiles} disabled={loading} />
+                <button
+                  type="submit"
+                  disabled={loading || uploadFiles.length === 0}
+                  className="w-full px-10 py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-black rounded-2xl transition-all active:scale-95 flex items-center justify-center gap-2 shadow-xl shadow-indigo-600/30"
+                >
+                  {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Audit Uploads'}
+                </button>
+              </div>
+            ) : mode === 'batch' ? (
+              <div className="space-y-4">
+                <textarea
+                  rows={6}
+                  placeholder={'One product page URL per line, or load a CSV with a "url" column'}
+                  className="block w-full px-6 py-4 bg-white border-2 border-slate-100 rounded-2xl shadow-xl shadow-indigo-200/20 focus:border-indigo-600 text-sm text-black outline-none font-bold placeholder:text-slate-300 resize-y"
+                  value={batchText}
+                  onChange={(e) => setBatchText(e.target.value)}
+                />
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    type="button"
+                    onClick={() => batchInputRef.current?.click()}
+                    className="flex items-center justify-center gap-2 px-6 py-4 bg-white border-2 border-slate-100 rounded-2xl text-sm font-black text-slate-600 hover:border-indigo-600 hover:text-indigo-600"
+                  >
+                    <FileSpreadsheet className="w-4 h-4" /> Load CSV
+                  </button>
+                  <input
+                    ref={batchInputRef}
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) file.text().then(setBatchText);
+                      e.target.value = '';
+                    }}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!batchText.trim()}
+                    className="flex-1 px-10 py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-black rounded-2xl transition-all active:scale-95 flex items-center justify-center gap-2 shadow-xl shadow-indigo-600/30"
+                  >
+                    Audit {batchInput.urls.length || ''} Pages
+                  </button>
+                </div>
+                {batchInput.skipped > 0 && (
+                  <p className="text-xs font-bold text-amber-600 text-center">{batchInput.skipped} entries are not page URLs and will be skipped.</p>
+                )}
+              </div>
+            ) : (
+              <div className="relative flex flex-col sm:block">
+                <div className="absolute inset-y-0 left-0 pl-6 hidden sm:flex items-center pointer-events-none">
+                  <Search className="h-6 w-6 text-slate-300 group-focus-within:text-indigo-600 transition-colors" />
+                </div>
+                <input
+                  type="url"
+                  required
+                  placeholder="https://nike.com/product-url"
+                  className="block w-full sm:pl-16 sm:pr-44 py-4 sm:py-6 bg-white border-2 border-slate-100 rounded-2xl sm:rounded-[2.5rem] shadow-xl sm:shadow-2xl shadow-indigo-200/20 focus:ring-8 sm:focus:ring-12 focus:ring-indigo-600/5 focus:border-indigo-600 text-lg sm:text-xl text-black transition-all outline-none font-bold placeholder:text-slate-300 text-center sm:text-left"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="mt-4 sm:mt-0 sm:absolute sm:right-3 sm:top-3 sm:bottom-3 px-8 sm:px-10 py-4 sm:py-0 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-black rounded-xl sm:rounded-3xl transition-all active:scale-95 flex items-center justify-center gap-2 shadow-xl shadow-indigo-600/30"
+                >
+                  {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : mode === 'site' ? 'Crawl Store' : 'Optimize Store'}
+                </button>
+              </div>
+            )}
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <div className="flex bg-white border border-slate-100 rounded-full p-1 shadow-sm">
+                {(['page', 'site', 'batch', 'upload'] as const).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => setMode(m)}
+                    className={`px-4 py-1.5 rounded-full transition-all ${mode === m ? 'bg-indigo-600 text-white' : 'hover:text-indigo-600'}`}
+                  >
+                    {m === 'page' ? 'Single Page' : m === 'site' ? 'Site Crawl' : m === 'batch' ? 'Batch' : 'Upload'}
+                  </button>
+                ))}
               </div>
+              <label className="flex items-center gap-2">Profile
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  disabled={loading}
+                  title={profiles.find((p) => p.id === profileId)?.description}
+                  className="px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600 normal-case tracking-normal font-bold"
+                >
+                  {profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <button type="button" onClick={() => profileInputRef.current?.click()} title="Load a profile JSON file" className="p-1.5 bg-white border border-slate-100 rounded-xl hover:text-indigo-600 hover:border-indigo-600">
+                  <FileJson className="w-3.5 h-3.5" />
+                </button>
+                <input
+                  ref={profileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadProfileFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {mode !== 'upload' && (
+                <label className="flex items-center gap-2" title="Render the page in a headless browser and review layout and typography from desktop and mobile screenshots">
+                  <input type="checkbox" checked={captureLayout} onChange={(e) => setCaptureLayout(e.target.checked)} disabled={loading} className="accent-indigo-600" />
+                  Screenshots
+                </label>
+              )}
+              {mode !== 'upload' && (
+                <label className="flex items-center gap-2" title="Fetch the page as a phone and as a desktop browser, audit both image sets and compare their crops">
+                  <input type="checkbox" checked={compareDevices} onChange={(e) => setCompareDevices(e.target.checked)} disabled={loading} className="accent-indigo-600" />
+                  Mobile + Desktop
+                </label>
+              )}
+              <label className="flex items-center gap-2" title="Refetch pages and images and request a new model reply instead of reusing cached ones">
+                <input type="checkbox" checked={fresh} onChange={(e) => setFresh(e.target.checked)} disabled={loading} className="accent-indigo-600" />
+                Fresh
+              </label>
+              <label className="flex items-center gap-2" title="Longest edge sent to the model; larger images are downscaled first">Max Edge
+                <select
+                  value={maxEdge}
+                  onChange={(e) => setMaxEdge(Number(e.target.value))}
+                  disabled={loading}
+                  className="px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600 normal-case tracking-normal font-bold"
+                >
+                  {MAX_EDGE_OPTIONS.map((edge) => <option key={edge} value={edge}>{edge}px</option>)}
+                </select>
+              </label>
+              {mode === 'batch' && (
+                <label className="flex items-center gap-2" title="Audits running at the same time; lower it if the provider rate-limits you">Parallel
+                  <input type="number" min={1} max={MAX_BATCH_CONCURRENCY} value={batchConcurrency} onChange={(e) => setBatchConcurrency(Number(e.target.value))} className="w-14 px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600" />
+                </label>
+              )}
+              {mode === 'site' && (
+                <>
+                  <label className="flex items-center gap-2">Depth
+                    <input type="number" min={0} max={3} value={crawlDepth} onChange={(e) => setCrawlDepth(Number(e.target.value))} className="w-14 px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600" />
+                  </label>
+                  <label className="flex items-center gap-2">Max Pages
+                    <input type="number" min={1} max={50} value={crawlPages} onChange={(e) => setCrawlPages(Number(e.target.value))} className="w-16 px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600" />
+                  </label>
+                  <span className="normal-case tracking-normal font-bold">Start URL or sitemap.xml</span>
+                </>
+              )}
+            </div>
+            {(mode === 'page' || mode === 'upload') && (
               <input
-                type="url"
-                required
-                placeholder="https://nike.com/product-url"
-                className="block w-full sm:pl-16 sm:pr-44 py-4 sm:py-6 bg-white border-2 border-slate-100 rounded-2xl sm:rounded-[2.5rem] shadow-xl sm:shadow-2xl shadow-indigo-200/20 focus:ring-8 sm:focus:ring-12 focus:ring-indigo-600/5 focus:border-indigo-600 text-lg sm:text-xl text-black transition-all outline-none font-bold placeholder:text-slate-300 text-center sm:text-left"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
+                placeholder="Competitor URLs to benchmark, comma separated (optional)"
+                className="mt-4 block w-full px-6 py-3 bg-white border border-slate-100 rounded-2xl shadow-sm focus:border-indigo-600 text-sm text-black outline-none font-bold placeholder:text-slate-300 text-center"
+                value={competitorText}
+                onChange={(e) => setCompetitorText(e.target.value)}
               />
-              <button
-                type="submit"
-                disabled={loading}
-                className="mt-4 sm:mt-0 sm:absolute sm:right-3 sm:top-3 sm:bottom-3 px-8 sm:px-10 py-4 sm:py-0 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-black rounded-xl sm:rounded-3xl transition-all active:scale-95 flex items-center justify-center gap-2 shadow-xl shadow-indigo-600/30"
-              >
-                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Optimize Store'}
-              </button>
-            </div>
+            )}
+            <BrandGuidePanel
+              guide={brandGuide}
+              onChange={(next) => {
+                if (!hasBrandRules(brandGuide) && hasBrandRules(next)) setBrandGuideEnabled(true);
+                setBrandGuide(next);
+              }}
+              enabled={brandGuideEnabled}
+              onToggle={setBrandGuideEnabled}
+              onError={(message) => {
+                setError(message);
+                setErrorIssues([]);
+              }}
+              disabled={loading}
+            />
+            <UsagePanel
+              session={sessionUsage}
+              history={totalUsage(history.map((entry) => entry.result.usage))}
+              budget={budget}
+              onBudgetChange={setBudgetState}
+              disabled={loading}
+            />
           </form>
 
-          {loading && (
-            <div className="mt-8 sm:mt-12 p-8 sm:p-16 bg-white rounded-2xl sm:rounded-[3rem] border-2 border-dashed border-indigo-100 flex flex-col items-center justify-center text-center">
-              <div className="relative mb-6">
-                <div className="absolute inset-0 bg-indigo-500 rounded-full animate-ping opacity-20"></div>
-                <Loader2 className="w-12 h-12 sm:w-16 sm:h-16 text-indigo-600 animate-spin relative z-10" />
-              </div>
-              <h3 className="text-2xl sm:text-3xl font-black text-slate-900 tracking-tight px-4">{statusText}</h3>
-              <p className="text-slate-400 mt-2 font-medium max-w-sm px-4">Generating REAL DATA analysis. This takes about 10 seconds...</p>
-            </div>
-          )}
+          {loading && <AuditProgressPanel status={statusText} progress={progress} onCancel={cancelAudit} />}
 
           {error && (
             <div className="mt-8 p-6 sm:p-10 bg-rose-50 border border-rose-100 rounded-2xl sm:rounded-[2.5rem] flex flex-col sm:flex-row gap-6 sm:gap-8 text-rose-700 items-center sm:items-start shadow-xl shadow-rose-200/10 animate-in fade-in slide-in-from-top-4 duration-500">
@@ -170,6 +520,13 @@ const App: React.FC = () => {
               <div className="flex-1 text-center sm:text-left">
                 <p className="font-black text-2xl mb-1 tracking-tighter uppercase">Audit Blocked</p>
                 <p className="text-base sm:text-lg leading-relaxed opacity-90 font-medium">{error}</p>
+                {errorIssues.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-xs font-bold bg-white/60 rounded-2xl p-4 border border-rose-100 text-left">
+                    {errorIssues.filter((i) => i.severity === 'error').map((issue, idx) => (
+                      <li key={idx}><code className="text-rose-900">{issue.path}</code> {issue.message}</li>
+                    ))}
+                  </ul>
+                )}
                 <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 mt-6 sm:mt-8">
                    <button 
                     onClick={(e) => handleAnalyze(e as any)}
@@ -189,8 +546,34 @@ const App: React.FC = () => {
           )}
         </div>
 
+        {loading && progress.images.length > 0 && (
+          <StreamingAssets images={progress.images} expected={progress.assets.filter((a) => !a.rejected).length} profile={getProfile(profileId)} />
+        )}
         {result && <ReportView result={result} />}
+        {siteReport && <SiteReportView report={siteReport} />}
+        {batch && (
+          <BatchView
+            {...batch}
+            concurrency={batchConcurrency}
+            onConcurrencyChange={(next) => {
+              setBatchConcurrency(next);
+              batch.queue.setConcurrency(next);
+            }}
+          />
+        )}
+        {comparison && <AuditDiffView {...comparison} onClose={() => setComparison(null)} />}
       </main>
+
+      {historyOpen && (
+        <HistorySidebar
+          entries={history}
+          onOpen={openFromHistory}
+          onDelete={deleteFromHistory}
+          onImport={importAudits}
+          onCompare={compareFromHistory}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 };
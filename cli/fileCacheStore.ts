@@ -0,0 +1,29 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import path from 'node:path';
+import { CacheStore } from '../services/auditCache.ts';
+
+export const DEFAULT_CACHE_DIR = process.env.VISUALSENSE_CACHE_DIR || path.join(homedir(), '.visualsense', 'cache');
+
+/** One JSON file per cache entry, named by the SHA-256 of its key. */
+export function createFileCacheStore(dir = DEFAULT_CACHE_DIR): CacheStore {
+  const fileFor = (key: string) => path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8'));
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, record) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(record));
+    },
+    async clear() {
+      await rm(dir, { recursive: true, force: true });
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import path from 'node:path';
+import { AuditHistoryEntry } from '../types.ts';
+import { HistoryStore, sortHistory } from '../services/historyStore.ts';
+
+export const DEFAULT_HISTORY_DIR = process.env.VISUALSENSE_HISTORY_DIR || path.join(homedir(), '.visualsense', 'history');
+
+/** One JSON file per audit, named by entry id. */
+export function createFileHistoryStore(dir = DEFAULT_HISTORY_DIR): HistoryStore {
+  const fileFor = (id: string) => path.join(dir, `${id.replace(/[^\w-]/g, '')}.json`);
+
+  return {
+    async list() {
+      let files: string[];
+      try {
+        files = (await readdir(dir)).filter((f) => f.endsWith('.json'));
+      } catch {
+        return [];
+      }
+      // One unreadable file must not hide every other audit.
+      const entries = await Promise.all(
+        files.map(async (f) => {
+          try {
+            return JSON.parse(await readFile(path.join(dir, f), 'utf8')) as AuditHistoryEntry;
+          } catch (error: any) {
+            process.stderr.write(`Skipping unreadable history entry ${path.join(dir, f)}: ${error.message}\n`);
+            return undefined;
+          }
+        })
+      );
+      return sortHistory(entries.filter((entry): entry is AuditHistoryEntry => entry !== undefined));
+    },
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(fileFor(id), 'utf8'));
+      } catch {
+        return undefined;
+      }
+    },
+    async save(entry) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(entry.id), JSON.stringify(entry, null, 2));
+    },
+    async delete(id) {
+      await rm(fileFor(id), { force: true });
+    }
+  };
+}
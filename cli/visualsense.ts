@@ -0,0 +1,300 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { AuditPageOptions, auditPage } from '../services/auditPipeline.ts';
+import { setProxyBase } from '../services/geminiService.ts';
+import { setCacheStore } from '../services/auditCache.ts';
+import { formatUsd, getSessionUsage, parseModelPrices, setBudget, setModelPrice, summarizeUsage, totalUsage } from '../services/usageAccounting.ts';
+import { formatBytes } from '../services/imageMetrics.ts';
+import { ExportFormat, renderExport, renderSiteExport } from '../services/reportExport.ts';
+import { auditSite } from '../services/siteCrawler.ts';
+import { createHistoryEntry, parseImportedAudit, searchHistory } from '../services/historyStore.ts';
+import { diffAudits, parseHex } from '../services/auditDiff.ts';
+import { auditCompetitors, parseCompetitorUrls } from '../services/competitorBenchmark.ts';
+import { getProfile, listProfiles, parseAuditProfile, registerProfile } from '../services/auditProfiles.ts';
+import { parseBrandGuide } from '../services/brandGuide.ts';
+import { setPageCapturer } from '../services/screenshotCapture.ts';
+import { capturePage } from '../server/pageCapture.ts';
+import { proxyOptionsFromEnv } from '../server/fetchProxy.ts';
+import { AnalysisResult, AuditProfile, AuditProgressEvent, BrandGuide, PdfBranding } from '../types.ts';
+import { DEFAULT_HISTORY_DIR, createFileHistoryStore } from './fileHistoryStore.ts';
+import { DEFAULT_CACHE_DIR, createFileCacheStore } from './fileCacheStore.ts';
+
+const USAGE = `Usage:
+  visualsense audit <url> [options]
+  visualsense crawl <start-url | sitemap.xml> [options]
+  visualsense history [search]
+  visualsense usage                    (token and cost totals of the saved audits)
+  visualsense profiles
+  visualsense diff <before> <after>    (history ids or exported audit JSON files)
+
+Options:
+  -o, --out <file>        Write the report to a file (default: stdout; pdf and html go to
+                          visualsense-<hostname>-<date>.<ext>)
+  -f, --format <format>   json | md | html | csv | pdf (default: json; crawl supports json | md | csv)
+  -p, --provider <id>     Vision provider: gemini | openai | mock
+  -P, --profile <id|file> Audit profile id or path to a profile JSON file (default: default)
+      --max-images <n>    Number of assets to audit per page (default: 5)
+      --include <pattern> Only audit image URLs containing this text (repeatable)
+      --exclude <pattern> Skip image URLs containing this text (repeatable)
+      --competitor <url>  Audit: also audit this competitor page for benchmarking (repeatable)
+      --brand-guide <file> Score every image against a brand guide JSON file
+      --keep-duplicates   Audit byte-identical images found at several URLs separately
+      --screenshots       Capture desktop and mobile screenshots for a layout and typography review
+                          (needs Chromium: PROXY_CHROMIUM_PATH or "npx playwright install chromium")
+      --devices           Fetch the page with mobile and desktop user agents and compare the image sets
+      --pdf-company <name> PDF: company name for the cover and footers
+      --pdf-logo <file>   PDF: logo for the cover (JPEG, PNG or WebP)
+      --pdf-color <hex>   PDF: primary colour, e.g. #0f766e
+      --pdf-accent <hex>  PDF: accent colour for rules and table headers (default: primary)
+      --depth <n>         Crawl: link hops from the start page (default: 1)
+      --max-pages <n>     Crawl: maximum pages to audit (default: 10)
+      --history-dir <dir> Where audits are saved (default: ${DEFAULT_HISTORY_DIR})
+      --no-save           Do not save audits to history
+      --budget <usd>      Stop spending on model requests after this many US dollars in this run
+      --budget-mode <m>   refuse | downsize: refuse requests over budget, or first send fewer and
+                          smaller images (default: refuse)
+      --prices <file>     Price table JSON: { "<model>": { "inputPerMillion": n, "outputPerMillion": n } }
+      --fresh             Refetch pages and images and request new model replies instead of
+                          using the cache (${DEFAULT_CACHE_DIR})
+  -h, --help              Show this help
+`;
+
+function log(message: string) {
+  process.stderr.write(`${message}\n`);
+}
+
+/** Per-asset and per-image progress; candidates and rejections have their own callbacks. */
+function logProgress(event: AuditProgressEvent) {
+  switch (event.type) {
+    case 'cache': return log(`  cache ${event.hit ? 'hit' : 'miss'}: ${event.kind}${event.url ? ` ${event.url}` : ''}`);
+    case 'asset-downloaded': return log(`  fetched ${event.url} (${formatBytes(event.bytes)}, ${event.mimeType})`);
+    case 'model-started': return log(`  ${event.model}: ${event.attempt > 1 ? `repair request ${event.attempt - 1}` : 'request'} with ${event.imageCount} images`);
+    case 'image-analyzed': return log(`  analysed ${event.image.id} (${event.image.qualityScore}%) ${event.image.url}`);
+  }
+}
+
+async function writeOutput(out: string | undefined, body: string) {
+  if (out) {
+    await writeFile(out, body);
+    log(`Wrote ${out}`);
+  } else {
+    process.stdout.write(`${body}\n`);
+  }
+}
+
+/** A built-in profile id, or a JSON file that is validated and registered. */
+async function loadProfile(ref: string): Promise<AuditProfile> {
+  if (!ref.endsWith('.json')) return getProfile(ref);
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(ref, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`Could not read profile ${ref}: ${e.message}`);
+  }
+  const profile = parseAuditProfile(data);
+  registerProfile(profile);
+  return profile;
+}
+
+const EXAMPLE_TYPES: Record<string, string> = { '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp' };
+
+/**
+ * A brand guide JSON file. Do/don't examples may be given as `{ "path": ... }`
+ * instead of inline base64; paths are relative to the guide file.
+ */
+async function loadBrandGuide(file: string): Promise<BrandGuide> {
+  let data: any;
+  try {
+    data = JSON.parse(await readFile(file, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`Could not read brand guide ${file}: ${e.message}`);
+  }
+  for (const key of ['doExamples', 'dontExamples']) {
+    if (!Array.isArray(data?.[key])) continue;
+    data[key] = await Promise.all(data[key].map(async (example: any) => {
+      if (typeof example?.path !== 'string') return example;
+      const mimeType = EXAMPLE_TYPES[extname(example.path).toLowerCase()];
+      if (!mimeType) throw new Error(`Brand guide example ${example.path} must be JPEG, PNG or WebP`);
+      const bytes = await readFile(resolve(dirname(file), example.path));
+      return { name: example.name || example.path, base64: bytes.toString('base64'), mimeType };
+    }));
+  }
+  return parseBrandGuide(data);
+}
+
+/** White-label options for the PDF from the --pdf-* flags. */
+async function loadPdfBranding(values: { 'pdf-company'?: string; 'pdf-logo'?: string; 'pdf-color'?: string; 'pdf-accent'?: string }): Promise<PdfBranding> {
+  for (const flag of ['pdf-color', 'pdf-accent'] as const) {
+    if (values[flag] && !parseHex(values[flag])) throw new Error(`--${flag} must be a hex colour like #0f766e`);
+  }
+  let logo: PdfBranding['logo'];
+  if (values['pdf-logo']) {
+    const mimeType = EXAMPLE_TYPES[extname(values['pdf-logo']).toLowerCase()];
+    if (!mimeType) throw new Error(`PDF logo ${values['pdf-logo']} must be JPEG, PNG or WebP`);
+    logo = { base64: (await readFile(values['pdf-logo'])).toString('base64'), mimeType };
+  }
+  return {
+    companyName: values['pdf-company'],
+    logo,
+    primaryColor: values['pdf-color'],
+    accentColor: values['pdf-accent']
+  };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      provider: { type: 'string', short: 'p' },
+      profile: { type: 'string', short: 'P' },
+      'max-images': { type: 'string', default: '5' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      competitor: { type: 'string', multiple: true },
+      'brand-guide': { type: 'string' },
+      'keep-duplicates': { type: 'boolean' },
+      screenshots: { type: 'boolean' },
+      devices: { type: 'boolean' },
+      'pdf-company': { type: 'string' },
+      'pdf-logo': { type: 'string' },
+      'pdf-color': { type: 'string' },
+      'pdf-accent': { type: 'string' },
+      depth: { type: 'string', default: '1' },
+      'max-pages': { type: 'string', default: '10' },
+      'history-dir': { type: 'string' },
+      'no-save': { type: 'boolean' },
+      fresh: { type: 'boolean' },
+      budget: { type: 'string' },
+      'budget-mode': { type: 'string', default: 'refuse' },
+      prices: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [command, url] = positionals;
+  const history = createFileHistoryStore(values['history-dir']);
+  const save = async (results: AnalysisResult[]) => {
+    if (values['no-save']) return;
+    for (const r of results) await history.save(createHistoryEntry(r));
+  };
+
+  if (command === 'history') {
+    searchHistory(await history.list(), url || '').forEach((entry) => {
+      process.stdout.write(`${entry.savedAt}  ${entry.id}  ${entry.model || '-'}  ${entry.result.summary?.brandConsistency ?? '-'}%  ${entry.url}\n`);
+    });
+    return;
+  }
+
+  if (command === 'usage') {
+    const totals = totalUsage((await history.list()).map((entry) => entry.result.usage));
+    process.stdout.write(`${totals.audits} audits · ${totals.images} images · ${totals.requests} requests (${totals.cachedRequests} cached) · ${totals.inputTokens} in / ${totals.outputTokens} out tokens · ${formatUsd(totals.costUsd)}${totals.unpriced ? ` (+ ${totals.unpriced} unpriced)` : ''}\n`);
+    return;
+  }
+
+  if (command === 'profiles') {
+    listProfiles().forEach((p) => {
+      process.stdout.write(`${p.id.padEnd(24)}${p.name}${p.description ? ` - ${p.description}` : ''}\n`);
+    });
+    return;
+  }
+
+  if (command === 'diff' && positionals.length === 3) {
+    const load = async (ref: string) => {
+      const entry = await history.get(ref);
+      if (entry) return { result: entry.result, savedAt: entry.savedAt };
+      return { result: parseImportedAudit(await readFile(ref, 'utf8')), savedAt: undefined };
+    };
+    const pair = await Promise.all([load(positionals[1]), load(positionals[2])]);
+    // History entries are put in chronological order; files keep argument order.
+    const [before, after] = pair[0].savedAt && pair[1].savedAt && pair[0].savedAt > pair[1].savedAt ? [pair[1], pair[0]] : pair;
+    const diff = diffAudits(before.result, after.result, { before: before.savedAt, after: after.savedAt });
+    await writeOutput(values.out, JSON.stringify(diff, null, 2));
+    return;
+  }
+
+  if (values.help || !['audit', 'crawl'].includes(command) || !url) {
+    process.stdout.write(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const format = values.format as ExportFormat;
+  const formats = command === 'crawl' ? ['json', 'md', 'csv'] : ['json', 'md', 'html', 'csv', 'pdf'];
+  if (!formats.includes(format)) throw new Error(`Unknown format for ${command}: ${format}`);
+  const branding = format === 'pdf' ? await loadPdfBranding(values) : undefined;
+  if (values.prices) {
+    Object.entries(parseModelPrices(JSON.parse(await readFile(values.prices, 'utf8')))).forEach(([model, price]) => setModelPrice(model, price));
+  }
+  if (values.budget) {
+    const limitUsd = Number(values.budget);
+    if (!Number.isFinite(limitUsd) || limitUsd < 0) throw new Error('--budget must be an amount in US dollars, e.g. 2.50');
+    if (!['refuse', 'downsize'].includes(values['budget-mode']!)) throw new Error('--budget-mode must be refuse or downsize');
+    setBudget({ limitUsd, onExceeded: values['budget-mode'] as 'refuse' | 'downsize' });
+  }
+
+  // No browser, no CORS: fetch the target directly.
+  setProxyBase(null);
+  setCacheStore(createFileCacheStore());
+  setPageCapturer((target) => capturePage(target, { ...proxyOptionsFromEnv(), allowPrivateNetwork: true }));
+
+  const auditOptions: AuditPageOptions = {
+    providerId: values.provider,
+    profile: values.profile ? await loadProfile(values.profile) : undefined,
+    brandGuide: values['brand-guide'] ? await loadBrandGuide(values['brand-guide']) : undefined,
+    captureLayout: values.screenshots,
+    compareDevices: values.devices,
+    fresh: values.fresh,
+    preprocess: { keepDuplicates: values['keep-duplicates'] },
+    extract: {
+      maxCandidates: Number(values['max-images']) || 5,
+      include: values.include,
+      ...(values.exclude && { exclude: values.exclude })
+    },
+    onStatus: log,
+    onCandidates: (candidates) => candidates.forEach((c, idx) => log(`  #${idx + 1} ${c.url} (${c.reasons.join('; ')})`)),
+    onAssetRejected: (u, reason) => log(`  skipped ${u}: ${reason}`),
+    onProgress: logProgress
+  };
+
+  if (command === 'crawl') {
+    const report = await auditSite(url, {
+      maxDepth: Number(values.depth),
+      maxPages: Number(values['max-pages']) || 10,
+      fresh: values.fresh,
+      onStatus: log
+    }, auditOptions);
+    report.failures.forEach((f) => log(`  failed ${f.url}: ${f.error}`));
+    const session = getSessionUsage();
+    log(`Usage: ${session.requests} requests · ${session.inputTokens} in / ${session.outputTokens} out tokens · ${formatUsd(session.costUsd)}`);
+    await save(report.pages);
+    await writeOutput(values.out, renderSiteExport(report, format as 'json' | 'md' | 'csv').body as string);
+    return;
+  }
+
+  const audit = await auditPage(url, auditOptions);
+  const competitorUrls = parseCompetitorUrls((values.competitor || []).join(' '));
+  const benchmarks = competitorUrls.length ? await auditCompetitors(competitorUrls, { ...auditOptions, brandGuide: undefined, captureLayout: false, compareDevices: false, onCandidates: undefined, onProgress: undefined }) : undefined;
+  benchmarks?.filter((b) => b.error).forEach((b) => log(`  competitor ${b.url} failed: ${b.error}`));
+  if (audit.layoutError) log(`  screenshots skipped: ${audit.layoutError}`);
+  if (audit.usage) log(`Usage: ${summarizeUsage(audit.usage)}`);
+  const result = benchmarks ? { ...audit, benchmarks } : audit;
+  await save([result]);
+
+  const file = renderExport(result, format, { branding });
+  if (typeof file.body === 'string' && (format !== 'html' || values.out)) {
+    await writeOutput(values.out, file.body);
+    return;
+  }
+  // Binary and single-file HTML reports are not useful on a terminal.
+  const out = values.out || file.filename;
+  await writeFile(out, typeof file.body === 'string' ? file.body : Buffer.from(file.body));
+  log(`Wrote ${out}`);
+}
+
+main().catch((error: any) => {
+  log(`Audit failed: ${error.message}`);
+  process.exitCode = 1;
+});
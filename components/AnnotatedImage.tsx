@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import RegionOverlay, { OverlayRegion } from './RegionOverlay.tsx';
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  regions: OverlayRegion[];
+  showRegions: boolean;
+  active: number | null;
+  onActivate: (number: number | null) => void;
+  /** Badges drawn over the frame's corner. */
+  children?: React.ReactNode;
+}
+
+/**
+ * 16:9 frame that crops the image to fill it, or letterboxes it when regions
+ * are shown so the boxes line up with the whole image.
+ */
+const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ src, alt, regions, showRegions, active, onActivate, children }) => {
+  const [ratio, setRatio] = useState<number | null>(null);
+  const fitted = showRegions && ratio !== null && regions.length > 0;
+
+  return (
+    <div className="relative aspect-video overflow-hidden bg-slate-200 flex items-center justify-center">
+      <div className={fitted ? `relative ${ratio! >= 16 / 9 ? 'w-full' : 'h-full'}` : 'absolute inset-0'} style={fitted ? { aspectRatio: ratio! } : undefined}>
+        <img
+          src={src}
+          onLoad={(e) => setRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight || null)}
+          className={`w-full h-full ${fitted ? '' : 'object-cover transition-transform group-hover:scale-105'}`}
+          alt={alt}
+        />
+        {fitted && <RegionOverlay regions={regions} active={active} onActivate={onActivate} />}
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export default AnnotatedImage;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { AnalysisResult, AuditDiff, ImageAnalysis, ScoreDelta } from '../types.ts';
+import { Download, GitCompare, ArrowRight, CheckCircle2, Repeat, Sparkles, X } from 'lucide-react';
+
+interface AuditDiffViewProps {
+  diff: AuditDiff;
+  before: AnalysisResult;
+  after: AnalysisResult;
+  onClose: () => void;
+}
+
+const DeltaBadge: React.FC<{ value: number }> = ({ value }) => (
+  <span className={`text-xs font-black px-2 py-1 rounded-lg ${value > 0 ? 'bg-emerald-100 text-emerald-700' : value < 0 ? 'bg-rose-100 text-rose-700' : 'bg-slate-100 text-slate-500'}`}>
+    {value > 0 ? '+' : ''}{value}
+  </span>
+);
+
+const ScoreCard: React.FC<{ label: string; score: ScoreDelta }> = ({ label, score }) => (
+  <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">{label}</span>
+    <div className="flex items-center gap-3">
+      <span className="text-xl font-black text-slate-400">{score.before}%</span>
+      <ArrowRight className="w-4 h-4 text-slate-300" />
+      <span className="text-2xl font-black text-slate-900">{score.after}%</span>
+      <DeltaBadge value={score.delta} />
+    </div>
+  </div>
+);
+
+const Swatches: React.FC<{ colors: string[] }> = ({ colors }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {colors.map((c, idx) => <span key={idx} title={c} className="w-6 h-6 rounded-lg border border-slate-200" style={{ backgroundColor: c }} />)}
+  </div>
+);
+
+function thumbnail(images: ImageAnalysis[], url?: string) {
+  const img = url ? images.find((i) => i.url === url) : undefined;
+  if (!img) return null;
+  return <img src={img.base64 ? `data:${img.mimeType || 'image/jpeg'};base64,${img.base64}` : img.url} className="w-full aspect-video object-cover rounded-2xl bg-slate-200" alt="Audit asset" />;
+}
+
+const AuditDiffView: React.FC<AuditDiffViewProps> = ({ diff, before, after, onClose }) => {
+  const downloadDiff = () => {
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(diff, null, 2));
+    const link = document.createElement('a');
+    link.setAttribute("href", dataStr);
+    link.setAttribute("download", "audit_diff.json");
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const roadmapColumns = [
+    { title: 'Resolved', items: diff.roadmap.resolved, icon: CheckCircle2, tone: 'text-emerald-600 bg-emerald-50 border-emerald-100' },
+    { title: 'Persisting', items: diff.roadmap.persisted, icon: Repeat, tone: 'text-amber-600 bg-amber-50 border-amber-100' },
+    { title: 'New', items: diff.roadmap.introduced, icon: Sparkles, tone: 'text-indigo-600 bg-indigo-50 border-indigo-100' }
+  ];
+
+  return (
+    <div className="space-y-12 animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row gap-4 items-center justify-between bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-indigo-600 rounded-2xl"><GitCompare className="text-white w-6 h-6" /></div>
+          <div>
+            <h3 className="text-xl font-black text-slate-900 leading-tight">Audit Comparison</h3>
+            <p className="text-sm text-slate-400 font-medium">
+              {new URL(diff.url).hostname} · {diff.before.savedAt ? new Date(diff.before.savedAt).toLocaleDateString() : 'before'} → {diff.after.savedAt ? new Date(diff.after.savedAt).toLocaleDateString() : 'after'}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2 w-full md:w-auto">
+          <button onClick={downloadDiff} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200">
+            <Download className="w-4 h-4" /> JSON Diff
+          </button>
+          <button onClick={onClose} className="flex items-center justify-center px-4 py-3 bg-slate-100 text-slate-700 rounded-2xl hover:bg-slate-200"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <ScoreCard label="Brand Consistency" score={diff.brandConsistency} />
+        <ScoreCard label="Avg Quality" score={diff.averageQuality} />
+        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Palette Shift</span>
+          {diff.palette.added.length > 0 && <div className="flex items-center gap-2"><span className="text-[10px] font-black text-emerald-600 w-14">Added</span><Swatches colors={diff.palette.added} /></div>}
+          {diff.palette.removed.length > 0 && <div className="flex items-center gap-2"><span className="text-[10px] font-black text-rose-600 w-14">Dropped</span><Swatches colors={diff.palette.removed} /></div>}
+          {diff.palette.kept.length > 0 && <div className="flex items-center gap-2"><span className="text-[10px] font-black text-slate-400 w-14">Kept</span><Swatches colors={diff.palette.kept} /></div>}
+        </div>
+      </div>
+
+      <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+        <h3 className="text-3xl font-black text-slate-900 tracking-tight mb-8">Roadmap Progress</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {roadmapColumns.map(({ title, items, icon: Icon, tone }) => (
+            <div key={title} className="space-y-3">
+              <p className={`inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-xl border ${tone}`}><Icon className="w-3 h-3" /> {title} · {items.length}</p>
+              {items.map((item, idx) => (
+                <p key={idx} className="text-xs font-bold text-slate-700 leading-snug bg-slate-50 p-4 rounded-2xl border border-slate-100">{item}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-3xl font-black text-slate-900 tracking-tight mb-8 px-4">Asset Changes</h3>
+        <div className="space-y-6">
+          {diff.images.map((img, idx) => (
+            <div key={idx} className="bg-white rounded-[2rem] p-6 shadow-xl border border-slate-100 grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-6 items-center">
+              <div>{thumbnail(before.images, img.beforeUrl) || <p className="text-xs font-black text-slate-300 uppercase text-center">Not in earlier audit</p>}</div>
+              <div className="flex flex-col items-center gap-2 min-w-[8rem]">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{img.status === 'matched' ? `Matched by ${img.matchedBy}` : img.status}</span>
+                {img.quality && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-black text-slate-400">{img.quality.before}%</span>
+                    <ArrowRight className="w-3 h-3 text-slate-300" />
+                    <span className="text-sm font-black text-indigo-600">{img.quality.after}%</span>
+                    <DeltaBadge value={img.quality.delta} />
+                  </div>
+                )}
+                {img.status === 'matched' && img.colorsAdded.length > 0 && <Swatches colors={img.colorsAdded} />}
+              </div>
+              <div>{thumbnail(after.images, img.afterUrl) || <p className="text-xs font-black text-slate-300 uppercase text-center">Removed in latest audit</p>}</div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default AuditDiffView;
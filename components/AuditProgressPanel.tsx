@@ -0,0 +1,76 @@
+import React from 'react';
+import { AuditProgress } from '../services/auditProgress.ts';
+import { formatBytes } from '../services/imageMetrics.ts';
+import { Check, Loader2, Square, X } from 'lucide-react';
+
+interface AuditProgressPanelProps {
+  status: string;
+  progress: AuditProgress;
+  onCancel: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: string; title?: string }> = ({ label, value, title }) => (
+  <div className="px-4 py-3 bg-slate-50 rounded-2xl border border-slate-100" title={title}>
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+    <p className="text-sm font-black text-slate-800">{value}</p>
+  </div>
+);
+
+/** Live stage figures, the per-asset download log and a cancel button while an audit runs. */
+const AuditProgressPanel: React.FC<AuditProgressPanelProps> = ({ status, progress, onCancel }) => {
+  const downloaded = progress.assets.filter((a) => !a.rejected).length;
+  const rejected = progress.assets.length - downloaded;
+  const cacheKinds = Object.entries(progress.cache);
+  const cacheHits = cacheKinds.reduce((sum, [, c]) => sum + c.hits, 0);
+  const cacheMisses = cacheKinds.reduce((sum, [, c]) => sum + c.misses, 0);
+
+  return (
+    <div className="mt-8 sm:mt-12 p-8 sm:p-16 bg-white rounded-2xl sm:rounded-[3rem] border-2 border-dashed border-indigo-100 flex flex-col items-center justify-center text-center">
+      <div className="relative mb-6">
+        <div className="absolute inset-0 bg-indigo-500 rounded-full animate-ping opacity-20"></div>
+        <Loader2 className="w-12 h-12 sm:w-16 sm:h-16 text-indigo-600 animate-spin relative z-10" />
+      </div>
+      <h3 className="text-2xl sm:text-3xl font-black text-slate-900 tracking-tight px-4">{status}</h3>
+      <p className="text-slate-400 mt-2 font-medium max-w-sm px-4">Generating REAL DATA analysis. Findings appear below as the model writes them.</p>
+
+      <div className="mt-8 grid grid-cols-2 sm:grid-cols-5 gap-3 w-full max-w-3xl text-left">
+        <Stat label="Pages" value={String(progress.pagesFetched)} />
+        <Stat label="Candidates" value={String(progress.candidates)} />
+        <Stat label="Assets" value={`${downloaded} in · ${rejected} out`} />
+        <Stat
+          label={progress.attempt > 1 ? `Model · repair ${progress.attempt - 1}` : 'Model'}
+          value={progress.model ? `${(progress.characters / 1000).toFixed(1)}k chars` : '–'}
+        />
+        <Stat
+          label="Cache"
+          value={cacheHits + cacheMisses > 0 ? `${cacheHits} hit · ${cacheMisses} miss` : '–'}
+          title={cacheKinds.map(([kind, c]) => `${kind}: ${c.hits} hit, ${c.misses} miss`).join('\n')}
+        />
+      </div>
+
+      {progress.assets.length > 0 && (
+        <ul className="mt-4 w-full max-w-3xl max-h-48 overflow-y-auto space-y-1 text-left">
+          {progress.assets.map((asset, idx) => (
+            <li key={idx} className="flex items-center gap-2 text-xs font-bold text-slate-600" title={asset.rejected || asset.url}>
+              {asset.rejected ? <X className="w-3.5 h-3.5 text-rose-500 flex-shrink-0" /> : <Check className="w-3.5 h-3.5 text-emerald-500 flex-shrink-0" />}
+              <span className="truncate flex-1">{asset.url}</span>
+              <span className={`flex-shrink-0 ${asset.rejected ? 'text-rose-600 truncate max-w-[50%]' : 'text-slate-400'}`}>
+                {asset.rejected || formatBytes(asset.bytes ?? 0)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="mt-8 flex items-center gap-2 px-8 py-3 bg-slate-100 text-rose-600 rounded-2xl text-sm font-black hover:bg-rose-50 transition-all active:scale-95"
+      >
+        <Square className="w-4 h-4" /> Cancel Audit
+      </button>
+    </div>
+  );
+};
+
+export default AuditProgressPanel;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchItemStatus, BatchState } from '../types.ts';
+import { BatchQueue, MAX_BATCH_CONCURRENCY } from '../services/batchAudit.ts';
+import { benchmarkScores } from '../services/competitorBenchmark.ts';
+import { downloadExport, renderBatchExport } from '../services/reportExport.ts';
+import ReportView from './ReportView.tsx';
+import { ArrowLeft, ArrowDown, ArrowUp, ChevronRight, Download, ListChecks, Loader2, Pause, Play, RotateCcw, Square } from 'lucide-react';
+
+interface BatchViewProps {
+  items: BatchItem[];
+  state: BatchState;
+  queue: BatchQueue;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+type SortKey = 'order' | 'url' | 'status' | 'brandConsistency' | 'averageQuality' | 'imageCount';
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500',
+  running: 'bg-indigo-100 text-indigo-700',
+  done: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+  cancelled: 'bg-slate-100 text-slate-400'
+};
+
+const STATUS_ORDER: BatchItemStatus[] = ['running', 'queued', 'done', 'failed', 'cancelled'];
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'order', label: '#' },
+  { key: 'url', label: 'Page' },
+  { key: 'status', label: 'Status' },
+  { key: 'brandConsistency', label: 'Brand Sync' },
+  { key: 'averageQuality', label: 'Avg Quality' },
+  { key: 'imageCount', label: 'Assets' }
+];
+
+/** Batch progress, queue controls and a combined results table sortable by score. */
+const BatchView: React.FC<BatchViewProps> = ({ items, state, queue, concurrency, onConcurrencyChange }) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'order', descending: false });
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const rows = items.map((item, idx) => ({ item, order: idx + 1, scores: item.result && benchmarkScores(item.result) }));
+  const value = (row: (typeof rows)[number]): string | number => {
+    switch (sort.key) {
+      case 'url': return row.item.url;
+      case 'status': return STATUS_ORDER.indexOf(row.item.status);
+      case 'order': return row.order;
+      // Unscored rows sink to the bottom whichever way the column is sorted.
+      default: return row.scores ? row.scores[sort.key] : sort.descending ? -1 : Infinity;
+    }
+  };
+  const sorted = [...rows].sort((a, b) => {
+    const [va, vb] = [value(a), value(b)];
+    const order = typeof va === 'string' ? va.localeCompare(String(vb)) : va - (vb as number);
+    return sort.descending ? -order : order;
+  });
+
+  const count = (status: BatchItemStatus) => items.filter((i) => i.status === status).length;
+  const finished = count('done') + count('failed') + count('cancelled');
+  const results = items.filter((i) => i.result).map((i) => i.result!);
+
+  const selectedItem = items.find((i) => i.url === selected);
+  if (selectedItem?.result) {
+    return (
+      <div className="space-y-6">
+        <button onClick={() => setSelected(null)} className="flex items-center gap-2 px-5 py-3 bg-white border border-slate-100 rounded-2xl text-xs font-black text-slate-600 hover:bg-slate-50 shadow-sm">
+          <ArrowLeft className="w-4 h-4" /> Batch Results
+          <span className="text-slate-300 font-bold">/ {new URL(selectedItem.url).pathname}</span>
+        </button>
+        <ReportView result={selectedItem.result} />
+      </div>
+    );
+  }
+
+  const control = 'flex items-center justify-center gap-2 px-5 py-3 rounded-2xl text-xs font-bold disabled:opacity-40';
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row gap-4 items-center justify-between bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-indigo-600 rounded-2xl">
+            <ListChecks className="text-white w-6 h-6" />
+          </div>
+          <div>
+            <h3 className="text-xl font-black text-slate-900 leading-tight">Batch Audit</h3>
+            <p className="text-sm text-slate-400 font-medium">
+              {finished} of {items.length} finished · {count('done')} audited · {count('failed')} failed
+              {state === 'paused' && ' · paused'}{state === 'cancelled' && ' · cancelled'}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 w-full md:w-auto">
+          <label className="flex items-center gap-2 px-4 text-[10px] font-black uppercase tracking-widest text-slate-400">Parallel
+            <input
+              type="number"
+              min={1}
+              max={MAX_BATCH_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="w-14 px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600"
+            />
+          </label>
+          {state === 'paused' ? (
+            <button onClick={() => queue.resume()} className={`${control} bg-indigo-600 text-white hover:bg-indigo-700`}><Play className="w-4 h-4" /> Resume</button>
+          ) : (
+            <button onClick={() => queue.pause()} disabled={state !== 'running'} className={`${control} bg-slate-100 text-slate-700 hover:bg-slate-200`}><Pause className="w-4 h-4" /> Pause</button>
+          )}
+          <button onClick={() => queue.cancel()} disabled={state !== 'running' && state !== 'paused'} className={`${control} bg-slate-100 text-rose-600 hover:bg-rose-50`}><Square className="w-4 h-4" /> Cancel</button>
+          <button onClick={() => downloadExport(renderBatchExport(results))} disabled={results.length === 0} className={`${control} bg-slate-100 text-slate-700 hover:bg-slate-200`}><Download className="w-4 h-4" /> CSV</button>
+        </div>
+      </div>
+
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-600 transition-all" style={{ width: `${(finished / Math.max(items.length, 1)) * 100}%` }} />
+      </div>
+
+      <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100 overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} className="pb-4 pr-4">
+                  <button
+                    type="button"
+                    onClick={() => setSort({ key, descending: sort.key === key ? !sort.descending : key !== 'order' && key !== 'url' && key !== 'status' })}
+                    className={`flex items-center gap-1 text-[10px] font-black uppercase tracking-widest ${sort.key === key ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                  >
+                    {label}
+                    {sort.key === key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="pb-4" />
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(({ item, order, scores }) => (
+              <tr key={item.url} className="border-t border-slate-100 text-xs font-bold text-slate-700">
+                <td className="py-3 pr-4 text-slate-400">{order}</td>
+                <td className="py-3 pr-4 max-w-md">
+                  <p className="truncate" title={item.url}>{item.url}</p>
+                  {item.error && <p className="text-[10px] text-rose-600 truncate" title={item.error}>{item.error}</p>}
+                </td>
+                <td className="py-3 pr-4">
+                  <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[item.status]}`}>
+                    {item.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {item.status}{item.attempts > 1 && ` · ${item.attempts}×`}
+                  </span>
+                </td>
+                <td className="py-3 pr-4">{scores ? `${scores.brandConsistency}%` : '–'}</td>
+                <td className="py-3 pr-4 text-indigo-600">{scores ? `${scores.averageQuality}%` : '–'}</td>
+                <td className="py-3 pr-4">{scores ? scores.imageCount : '–'}</td>
+                <td className="py-3 text-right">
+                  {item.result && (
+                    <button onClick={() => setSelected(item.url)} className="p-2 rounded-xl hover:bg-indigo-50 text-slate-400 hover:text-indigo-600" title="Open report">
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <button onClick={() => queue.retry(item.url)} className="p-2 rounded-xl hover:bg-indigo-50 text-slate-400 hover:text-indigo-600" title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default BatchView;
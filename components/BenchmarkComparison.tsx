@@ -0,0 +1,84 @@
+import React from 'react';
+import { AnalysisResult, BenchmarkScores } from '../types.ts';
+import { benchmarkScores } from '../services/competitorBenchmark.ts';
+import { AlertTriangle, Crown } from 'lucide-react';
+
+interface BenchmarkComparisonProps {
+  result: AnalysisResult;
+}
+
+interface Row {
+  label: string;
+  value: (s: BenchmarkScores) => number | undefined;
+  format: (value: number) => string;
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const ROWS: Row[] = [
+  { label: 'Brand Sync', value: (s) => s.brandConsistency, format: (v) => `${v}%` },
+  { label: 'Avg Quality', value: (s) => s.averageQuality, format: (v) => `${v}%` },
+  { label: 'Median Long Edge', value: (s) => s.medianLongEdge, format: (v) => `${v}px` },
+  { label: 'Sharp Assets', value: (s) => s.sharpShare, format: pct },
+  { label: 'White Background', value: (s) => s.whiteBackgroundShare, format: pct }
+];
+
+/** Measured side-by-side of the audited page and every competitor page the user supplied. */
+const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({ result }) => {
+  const audited = (result.benchmarks || []).filter((b) => b.audit);
+  const failed = (result.benchmarks || []).filter((b) => !b.audit);
+  const columns = [
+    { scores: benchmarkScores(result, result.upload ? result.upload.productName || 'Your upload' : undefined), audit: result, own: true },
+    ...audited.map((b) => ({ scores: benchmarkScores(b.audit!), audit: b.audit!, own: false }))
+  ];
+  const best = (row: Row) => Math.max(...columns.map((c) => row.value(c.scores) ?? -Infinity));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 overflow-x-auto pb-2" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(14rem, 1fr))` }}>
+        {columns.map(({ scores, audit, own }) => (
+          <div key={scores.url} className={`p-6 rounded-[2rem] border flex flex-col gap-5 ${own ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}>
+            <div>
+              <p className={`text-[10px] font-black uppercase tracking-widest ${own ? 'text-indigo-500' : 'text-slate-400'}`}>{own ? 'Your Page' : 'Audited Competitor'}</p>
+              <h4 className="text-lg font-black text-slate-900 tracking-tight truncate" title={scores.url}>{scores.label}</h4>
+            </div>
+            <div className="space-y-3">
+              {ROWS.map((row) => {
+                const value = row.value(scores);
+                const leads = value !== undefined && columns.length > 1 && value === best(row);
+                return (
+                  <div key={row.label} className="flex items-center justify-between gap-2">
+                    <span className="text-[10px] font-black text-slate-400 uppercase">{row.label}</span>
+                    <span className={`text-sm font-black flex items-center gap-1 ${leads ? 'text-emerald-600' : 'text-slate-800'}`}>
+                      {leads && <Crown className="w-3 h-3" />}
+                      {value === undefined ? '–' : row.format(value)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex h-4 rounded-full overflow-hidden border border-white">
+              {scores.palette.map((color) => <div key={color} className="flex-1" style={{ backgroundColor: color }} title={color} />)}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {audit.images.slice(0, 6).map((img, idx) => (
+                <div key={idx} className="aspect-square rounded-xl overflow-hidden bg-slate-200">
+                  <img src={img.base64 ? `data:${img.mimeType || 'image/jpeg'};base64,${img.base64}` : img.url} className="w-full h-full object-cover" alt={`${scores.label} asset ${idx + 1}`} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      {failed.map((b) => (
+        <div key={b.url} className="flex items-center gap-3 p-4 bg-rose-50 rounded-2xl border border-rose-100 text-rose-700">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span className="text-xs font-bold truncate">{b.url}</span>
+          <span className="text-xs font-medium opacity-80 truncate">{b.error}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BenchmarkComparison;
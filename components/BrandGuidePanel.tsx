@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import { BrandExampleImage, BrandGuide } from '../types.ts';
+import { brandRules, parseAspectRatio, parseBrandGuide } from '../services/brandGuide.ts';
+import { normalizeHexColor } from '../services/analysisValidation.ts';
+import { downscaleImage } from '../services/geminiService.ts';
+import { ChevronDown, Download, FileJson, ImagePlus, Palette, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+
+interface BrandGuidePanelProps {
+  guide: BrandGuide;
+  onChange: (guide: BrandGuide) => void;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+/** Example images only need enough detail to convey a style. */
+const EXAMPLE_EDGE = 512;
+
+const inputClass = 'block w-full px-4 py-2.5 bg-white border border-slate-100 rounded-xl text-sm text-black outline-none font-bold placeholder:text-slate-300 focus:border-indigo-600';
+
+interface ListInputProps {
+  label: string;
+  placeholder: string;
+  values: string[];
+  /** Turns one entry into its stored form, or null to drop it. */
+  normalize?: (value: string) => string | null;
+  onChange: (values: string[]) => void;
+  disabled?: boolean;
+}
+
+/** Comma-separated list, committed on blur so half-typed entries are not dropped. */
+const ListInput: React.FC<ListInputProps> = ({ label, placeholder, values, normalize = (v) => v, onChange, disabled }) => {
+  const [text, setText] = useState(values.join(', '));
+  return (
+    <label className="block space-y-1.5">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+      <input
+        className={inputClass}
+        placeholder={placeholder}
+        value={text}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          const next = text.split(',').map((v) => v.trim()).filter(Boolean).map(normalize).filter((v): v is string => v !== null);
+          setText(next.join(', '));
+          onChange([...new Set(next)]);
+        }}
+      />
+    </label>
+  );
+};
+
+interface ExampleListProps {
+  label: string;
+  icon: React.ReactNode;
+  examples: BrandExampleImage[];
+  onChange: (examples: BrandExampleImage[]) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+const ExampleList: React.FC<ExampleListProps> = ({ label, icon, examples, onChange, onError, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const addFiles = async (files: File[]) => {
+    try {
+      const added = await Promise.all(files.map(async (file) => ({ name: file.name, ...(await downscaleImage(file, EXAMPLE_EDGE)) })));
+      onChange([...examples, ...added]);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5">{icon} {label}</span>
+      <div className="flex flex-wrap gap-2">
+        {examples.map((example, idx) => (
+          <div key={`${example.name}-${idx}`} className="relative w-16 h-16 rounded-xl overflow-hidden bg-slate-100 group/example">
+            <img src={`data:${example.mimeType};base64,${example.base64}`} alt={example.name} title={example.name} className="w-full h-full object-cover" />
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(examples.filter((_, i) => i !== idx))}
+              className="absolute top-1 right-1 p-0.5 bg-white/90 rounded-full opacity-0 group-hover/example:opacity-100 text-slate-600 hover:text-rose-600"
+              title={`Remove ${example.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => inputRef.current?.click()}
+          className="w-16 h-16 rounded-xl border-2 border-dashed border-slate-200 flex items-center justify-center text-slate-300 hover:border-indigo-600 hover:text-indigo-600 disabled:opacity-50"
+          title={`Add ${label.toLowerCase()}`}
+        >
+          <ImagePlus className="w-5 h-5" />
+        </button>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files || []));
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+/** Collapsible brand guide editor with JSON import and export. */
+const BrandGuidePanel: React.FC<BrandGuidePanelProps> = ({ guide, onChange, enabled, onToggle, onError, disabled }) => {
+  const [open, setOpen] = useState(false);
+  // Bumped on import so the list inputs pick up the new values.
+  const [revision, setRevision] = useState(0);
+  const importRef = useRef<HTMLInputElement>(null);
+  const ruleCount = brandRules(guide).length;
+  const update = (patch: Partial<BrandGuide>) => onChange({ ...guide, ...patch });
+
+  const importGuide = async (file: File) => {
+    try {
+      onChange(parseBrandGuide(JSON.parse(await file.text())));
+      setRevision((r) => r + 1);
+      onToggle(true);
+    } catch (err: any) {
+      onError(err instanceof SyntaxError ? `Brand guide ${file.name} is not valid JSON.` : err.message);
+    }
+  };
+
+  const exportGuide = () => {
+    const blob = new Blob([JSON.stringify(guide, null, 2)], { type: 'application/json' });
+    const link = Object.assign(document.createElement('a'), { href: URL.createObjectURL(blob), download: 'brand-guide.json' });
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="mt-4 bg-white border border-slate-100 rounded-2xl shadow-sm">
+      <div className="flex items-center justify-between gap-3 px-5 py-3">
+        <button type="button" onClick={() => setOpen(!open)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+          <Palette className="w-3.5 h-3.5" /> Brand Guide
+          <span className="normal-case tracking-normal font-bold text-slate-400">{guide.name || (ruleCount ? `${ruleCount} rules` : 'not set')}</span>
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </button>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+          <input type="checkbox" checked={enabled && ruleCount > 0} disabled={disabled || ruleCount === 0} onChange={(e) => onToggle(e.target.checked)} className="accent-indigo-600" />
+          Score compliance
+        </label>
+      </div>
+      {open && (
+        <div key={revision} className="px-5 pb-5 space-y-4 text-left border-t border-slate-100 pt-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block space-y-1.5">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Name</span>
+              <input className={inputClass} placeholder="e.g. Spring 2026 look book" value={guide.name} disabled={disabled} onChange={(e) => update({ name: e.target.value })} />
+            </label>
+            <ListInput label="Palette (hex)" placeholder="#0F172A, #D6C7B0" values={guide.palette} normalize={normalizeHexColor} onChange={(palette) => update({ palette })} disabled={disabled} />
+            <ListInput label="Permitted backgrounds" placeholder="pure white, #F5F0E8, lifestyle interior" values={guide.backgrounds} onChange={(backgrounds) => update({ backgrounds })} disabled={disabled} />
+            <ListInput label="Aspect ratios" placeholder="1:1, 4:5" values={guide.aspectRatios} normalize={(v) => (parseAspectRatio(v) ? v.replace(/\s/g, '') : null)} onChange={(aspectRatios) => update({ aspectRatios })} disabled={disabled} />
+            <label className="block space-y-1.5">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Lighting style</span>
+              <input className={inputClass} placeholder="Soft diffused daylight, no hard shadows" value={guide.lighting} disabled={disabled} onChange={(e) => update({ lighting: e.target.value })} />
+            </label>
+            <ListInput label="Typography" placeholder="Helvetica Now, Canela" values={guide.typography} onChange={(typography) => update({ typography })} disabled={disabled} />
+          </div>
+          {guide.palette.length > 0 && (
+            <div className="flex h-3 rounded-full overflow-hidden border border-slate-100">
+              {guide.palette.map((color) => <div key={color} className="flex-1" style={{ backgroundColor: color }} title={color} />)}
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <ExampleList label="Do examples" icon={<ThumbsUp className="w-3 h-3 text-emerald-500" />} examples={guide.doExamples} onChange={(doExamples) => update({ doExamples })} onError={onError} disabled={disabled} />
+            <ExampleList label="Don't examples" icon={<ThumbsDown className="w-3 h-3 text-rose-500" />} examples={guide.dontExamples} onChange={(dontExamples) => update({ dontExamples })} onError={onError} disabled={disabled} />
+          </div>
+          <div className="flex flex-wrap gap-3 pt-2">
+            <button type="button" disabled={disabled} onClick={() => importRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-xl text-xs font-bold hover:bg-slate-200 disabled:opacity-50">
+              <FileJson className="w-3.5 h-3.5" /> Import JSON
+            </button>
+            <button type="button" disabled={ruleCount === 0} onClick={exportGuide} className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-xl text-xs font-bold hover:bg-slate-200 disabled:opacity-50">
+              <Download className="w-3.5 h-3.5" /> Export JSON
+            </button>
+            <input
+              ref={importRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importGuide(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandGuidePanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { AnalysisResult, CropComparison, DeviceKind, ImageAnalysis } from '../types.ts';
+import { DEVICE_PROFILES } from '../services/deviceVariants.ts';
+import { Monitor, Smartphone, AlertTriangle } from 'lucide-react';
+
+interface DeviceComparisonViewProps {
+  result: AnalysisResult;
+}
+
+export const DEVICE_ICONS: Record<DeviceKind, React.ReactNode> = {
+  desktop: <Monitor className="w-3.5 h-3.5" />,
+  mobile: <Smartphone className="w-3.5 h-3.5" />
+};
+
+const RELATION_LABELS: Record<CropComparison['relation'], { label: string; tone: string }> = {
+  'same-asset': { label: 'Same asset', tone: 'bg-slate-100 text-slate-600 border-slate-200' },
+  resized: { label: 'Resized', tone: 'bg-emerald-50 text-emerald-700 border-emerald-100' },
+  recropped: { label: 'Recropped', tone: 'bg-indigo-50 text-indigo-700 border-indigo-100' },
+  different: { label: 'Different image', tone: 'bg-amber-50 text-amber-700 border-amber-100' }
+};
+
+/** The audited asset behind a candidate URL, including assets folded into another as near-duplicates. */
+const findImage = (result: AnalysisResult, url: string): ImageAnalysis | undefined =>
+  result.images.find((img) => img.url === url || img.preprocessing?.duplicateUrls?.includes(url));
+
+const Thumb: React.FC<{ image?: ImageAnalysis; url: string; aspect?: number; device: DeviceKind }> = ({ image, url, aspect, device }) => (
+  <div className="space-y-2">
+    <div className="h-40 bg-slate-100 rounded-2xl border border-slate-100 flex items-center justify-center overflow-hidden">
+      <img
+        src={image?.base64 ? `data:${image.mimeType || 'image/jpeg'};base64,${image.base64}` : url}
+        className="max-h-full max-w-full object-contain"
+        alt={`${DEVICE_PROFILES[device].label} asset`}
+      />
+    </div>
+    <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400">
+      {DEVICE_ICONS[device]} {DEVICE_PROFILES[device].label} · {aspect !== undefined ? `${aspect}:1` : 'Unknown aspect'}
+    </p>
+  </div>
+);
+
+/** Per-device findings and the desktop/mobile assets at each rank side by side. */
+const DeviceComparisonView: React.FC<DeviceComparisonViewProps> = ({ result }) => {
+  const comparison = result.devices!;
+  return (
+    <div className="space-y-8">
+      {comparison.markupDiffers && (
+        <div className="flex items-center gap-3 p-4 bg-sky-50 rounded-2xl border border-sky-100 text-sky-700">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span className="text-xs font-bold">The store serves mobile browsers HTML with different images.</span>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {comparison.variants.map((variant) => (
+          <div key={variant.device} className="p-6 bg-slate-50 rounded-2xl border border-slate-100 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {DEVICE_ICONS[variant.device]} {DEVICE_PROFILES[variant.device].label} · {DEVICE_PROFILES[variant.device].viewport.width}px
+              </p>
+              <p className="text-2xl font-black text-slate-900 tracking-tight">{variant.averageQuality !== undefined ? `${variant.averageQuality}%` : '–'}</p>
+            </div>
+            <p className="text-[10px] font-bold text-slate-400">{variant.imageUrls.length} audited assets</p>
+            <ul className="space-y-2">
+              {variant.findings.map((finding, idx) => (
+                <li key={idx} className="text-xs font-bold text-slate-700 leading-relaxed bg-white px-3 py-2 rounded-xl border border-slate-100">{finding}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+      {comparison.crops.length > 0 && (
+        <div className="space-y-6">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Crop comparison by position</p>
+          {comparison.crops.map((crop) => (
+            <div key={crop.rank} className="grid grid-cols-1 md:grid-cols-3 gap-6 items-center p-6 bg-slate-50 rounded-2xl border border-slate-100">
+              <Thumb image={findImage(result, crop.desktopUrl)} url={crop.desktopUrl} aspect={crop.desktopAspect} device="desktop" />
+              <Thumb image={findImage(result, crop.mobileUrl)} url={crop.mobileUrl} aspect={crop.mobileAspect} device="mobile" />
+              <div className="space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{crop.rank === 1 ? 'Hero' : `Position ${crop.rank}`}</p>
+                <span className={`inline-block px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest ${RELATION_LABELS[crop.relation].tone}`}>
+                  {RELATION_LABELS[crop.relation].label}
+                </span>
+                <p className="text-xs font-bold text-slate-700 leading-relaxed">{crop.note}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceComparisonView;
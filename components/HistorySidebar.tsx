@@ -0,0 +1,117 @@
+import React, { useRef, useState } from 'react';
+import { AuditHistoryEntry } from '../types.ts';
+import { searchHistory } from '../services/historyStore.ts';
+import { History, Search, Trash2, Upload, X, ChevronRight, GitCompare } from 'lucide-react';
+
+interface HistorySidebarProps {
+  entries: AuditHistoryEntry[];
+  onOpen: (entry: AuditHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onImport: (files: File[]) => void;
+  /** Called with the older entry first. */
+  onCompare: (before: AuditHistoryEntry, after: AuditHistoryEntry) => void;
+  onClose: () => void;
+}
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ entries, onOpen, onDelete, onImport, onCompare, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const visible = searchHistory(entries, query);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id].slice(-2)));
+  };
+  const comparePair = selected
+    .map((id) => entries.find((e) => e.id === id))
+    .filter((e): e is AuditHistoryEntry => Boolean(e))
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+  const sameUrl = comparePair.length === 2 && comparePair[0].url === comparePair[1].url;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl border-l border-slate-100 flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-600 rounded-xl"><History className="text-white w-5 h-5" /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 leading-tight">Audit History</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{entries.length} saved audits</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-700"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-3 border-b border-slate-100">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-300" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by URL, model or style"
+              className="w-full pl-11 pr-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-slate-900 outline-none focus:border-indigo-600 placeholder:text-slate-300"
+            />
+          </div>
+          <button onClick={() => fileInputRef.current?.click()} className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200">
+            <Upload className="w-4 h-4" /> Import audit_data.json
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              onImport(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+          {selected.length > 0 && (
+            <button
+              onClick={() => onCompare(comparePair[0], comparePair[1])}
+              disabled={!sameUrl}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-600 text-white rounded-2xl text-xs font-bold hover:bg-indigo-700 disabled:bg-slate-300"
+            >
+              <GitCompare className="w-4 h-4" />
+              {selected.length < 2 ? 'Select one more audit to compare' : sameUrl ? 'Compare selected audits' : 'Pick two audits of the same URL'}
+            </button>
+          )}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-4 space-y-2">
+          {visible.length === 0 && (
+            <li className="p-6 text-center text-xs font-bold text-slate-400">{entries.length ? 'No audits match your search.' : 'Completed audits will appear here.'}</li>
+          )}
+          {visible.map((entry) => (
+            <li key={entry.id} className={`group flex items-center gap-2 p-4 rounded-2xl border hover:bg-indigo-50 transition-all ${selected.includes(entry.id) ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-100'}`}>
+              <input
+                type="checkbox"
+                checked={selected.includes(entry.id)}
+                onChange={() => toggleSelected(entry.id)}
+                title="Select for comparison"
+                className="w-4 h-4 accent-indigo-600 flex-shrink-0"
+              />
+              <button onClick={() => onOpen(entry)} className="flex-1 min-w-0 text-left">
+                {entry.result.upload ? (
+                  <p className="text-sm font-black text-slate-900 truncate">{entry.result.upload.productName || 'Untitled upload'}<span className="text-slate-400 font-bold"> · {entry.result.upload.fileCount} uploaded</span></p>
+                ) : (
+                  <p className="text-sm font-black text-slate-900 truncate">{new URL(entry.url).hostname}<span className="text-slate-400 font-bold">{new URL(entry.url).pathname}</span></p>
+                )}
+                <p className="text-[10px] font-bold text-slate-400 mt-1">
+                  {new Date(entry.savedAt).toLocaleString()} · {entry.model || 'unknown model'} · Sync {entry.result.summary?.brandConsistency ?? '–'}%
+                </p>
+              </button>
+              <button onClick={() => onDelete(entry.id)} className="p-2 rounded-xl text-slate-300 hover:text-rose-600 hover:bg-rose-50" title="Delete audit">
+                <Trash2 className="w-4 h-4" />
+              </button>
+              <ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-indigo-600" />
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { LayoutAudit, PageScreenshot } from '../types.ts';
+import RegionOverlay from './RegionOverlay.tsx';
+import { Monitor, Smartphone, Type, LayoutGrid, ListOrdered } from 'lucide-react';
+
+interface LayoutScreenshotsProps {
+  layout: LayoutAudit;
+}
+
+const NOTES: { key: 'typographyNotes' | 'layoutAnalysis' | 'hierarchyNotes'; label: string; icon: React.ReactNode }[] = [
+  { key: 'typographyNotes', label: 'Typography', icon: <Type className="w-3 h-3" /> },
+  { key: 'layoutAnalysis', label: 'Layout', icon: <LayoutGrid className="w-3 h-3" /> },
+  { key: 'hierarchyNotes', label: 'Hierarchy', icon: <ListOrdered className="w-3 h-3" /> }
+];
+
+/** Screenshot viewer with the model's annotated regions drawn over the page. */
+const LayoutScreenshots: React.FC<LayoutScreenshotsProps> = ({ layout }) => {
+  const [viewport, setViewport] = useState<PageScreenshot['viewport']>('desktop');
+  const [kind, setKind] = useState<PageScreenshot['kind']>('fold');
+  const [active, setActive] = useState<number | null>(null);
+
+  const screenshot = layout.screenshots.find((s) => s.viewport === viewport && s.kind === kind);
+  const annotations = layout.annotations
+    .map((annotation, idx) => ({ annotation, number: idx + 1 }))
+    .filter(({ annotation }) => annotation.screenshotId === screenshot?.id);
+  const toggle = 'px-4 py-1.5 rounded-full transition-all flex items-center gap-1.5';
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {NOTES.map(({ key, label, icon }) => (
+          <div key={key} className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 flex items-center gap-1.5">{icon} {label}</p>
+            <p className="text-sm font-bold text-slate-800 leading-relaxed">{layout[key]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <div className="flex bg-slate-50 border border-slate-100 rounded-full p-1">
+          <button type="button" onClick={() => setViewport('desktop')} className={`${toggle} ${viewport === 'desktop' ? 'bg-indigo-600 text-white' : 'hover:text-indigo-600'}`}><Monitor className="w-3 h-3" /> Desktop</button>
+          <button type="button" onClick={() => setViewport('mobile')} className={`${toggle} ${viewport === 'mobile' ? 'bg-indigo-600 text-white' : 'hover:text-indigo-600'}`}><Smartphone className="w-3 h-3" /> Mobile</button>
+        </div>
+        <div className="flex bg-slate-50 border border-slate-100 rounded-full p-1">
+          <button type="button" onClick={() => setKind('fold')} className={`${toggle} ${kind === 'fold' ? 'bg-indigo-600 text-white' : 'hover:text-indigo-600'}`}>Above the fold</button>
+          <button type="button" onClick={() => setKind('full')} className={`${toggle} ${kind === 'full' ? 'bg-indigo-600 text-white' : 'hover:text-indigo-600'}`}>Full page</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 max-h-[48rem] overflow-y-auto rounded-[2rem] border border-slate-100 bg-slate-100 p-4 flex justify-center">
+          {screenshot?.base64 ? (
+            <div className={`relative h-fit ${viewport === 'mobile' ? 'w-full max-w-sm' : 'w-full'}`}>
+              <img src={`data:${screenshot.mimeType};base64,${screenshot.base64}`} className="w-full rounded-xl shadow" alt={`${viewport} ${kind === 'fold' ? 'above the fold' : 'full page'} screenshot`} />
+              <RegionOverlay
+                regions={annotations.map(({ annotation, number }) => ({
+                  number,
+                  box: annotation.box,
+                  tone: annotation.kind === 'issue' ? 'rose' : 'emerald',
+                  title: `${annotation.label}: ${annotation.note}`
+                }))}
+                active={active}
+                onActivate={setActive}
+              />
+            </div>
+          ) : (
+            <p className="self-center text-xs font-bold text-slate-400 py-20">No {viewport} {kind === 'fold' ? 'above-the-fold' : 'full-page'} screenshot stored.</p>
+          )}
+        </div>
+        <ol className="space-y-3">
+          {annotations.length === 0 && <li className="text-xs font-bold text-slate-400">No annotations on this screenshot.</li>}
+          {annotations.map(({ annotation, number }) => (
+            <li
+              key={number}
+              onMouseEnter={() => setActive(number)}
+              onMouseLeave={() => setActive(null)}
+              className={`p-4 rounded-2xl border transition-all ${active === number ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}
+            >
+              <p className="text-[10px] font-black uppercase tracking-widest mb-1 flex items-center gap-2">
+                <span className={`w-5 h-5 rounded-full text-white flex items-center justify-center ${annotation.kind === 'issue' ? 'bg-rose-500' : 'bg-emerald-500'}`}>{number}</span>
+                <span className={annotation.kind === 'issue' ? 'text-rose-600' : 'text-emerald-600'}>{annotation.kind}</span>
+                <span className="text-slate-700 normal-case tracking-normal">{annotation.label}</span>
+              </p>
+              <p className="text-xs font-bold text-slate-600 leading-relaxed">{annotation.note}</p>
+            </li>
+          ))}
+        </ol>
+      </div>
+      {screenshot?.truncated && <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Full page capture was cut off at {screenshot.height}px</p>}
+    </div>
+  );
+};
+
+export default LayoutScreenshots;
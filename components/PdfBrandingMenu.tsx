@@ -0,0 +1,117 @@
+import React, { useRef, useState } from 'react';
+import { PdfBranding } from '../types.ts';
+import { downscaleImage } from '../services/geminiService.ts';
+import { ImagePlus, Settings2, X } from 'lucide-react';
+
+const PDF_BRANDING_KEY = 'visualsense.pdfBranding';
+
+/** Logos are drawn at most about 50mm wide on the cover. */
+const LOGO_EDGE = 600;
+
+export function loadStoredPdfBranding(): PdfBranding {
+  try {
+    const stored = localStorage.getItem(PDF_BRANDING_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function storePdfBranding(branding: PdfBranding) {
+  try {
+    localStorage.setItem(PDF_BRANDING_KEY, JSON.stringify(branding));
+  } catch {
+    // A logo can exceed the storage quota; the branding still applies this session.
+  }
+}
+
+interface PdfBrandingMenuProps {
+  branding: PdfBranding;
+  onChange: (branding: PdfBranding) => void;
+}
+
+/** White-label settings for the PDF export, remembered across sessions. */
+const PdfBrandingMenu: React.FC<PdfBrandingMenuProps> = ({ branding, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<PdfBranding>) => {
+    const next = { ...branding, ...patch };
+    storePdfBranding(next);
+    onChange(next);
+  };
+
+  const setLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update({ logo: await downscaleImage(file, LOGO_EDGE) });
+      setLogoError(null);
+    } catch (err: any) {
+      setLogoError(err.message);
+    }
+  };
+
+  const label = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        title="PDF branding"
+        className={`h-full flex items-center justify-center px-3 py-3 rounded-2xl text-xs font-bold ${open ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+      >
+        <Settings2 className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-20 bg-white rounded-[2rem] border border-slate-100 shadow-2xl p-6 space-y-4">
+          <p className="text-xs font-black text-slate-900">PDF Branding</p>
+          <label className="block space-y-1.5">
+            <span className={label}>Company name</span>
+            <input
+              className="block w-full px-4 py-2.5 bg-slate-50 border border-slate-100 rounded-xl text-sm text-black outline-none font-bold placeholder:text-slate-300 focus:border-indigo-600"
+              placeholder="VisualSense"
+              value={branding.companyName || ''}
+              onChange={(e) => update({ companyName: e.target.value || undefined })}
+            />
+          </label>
+          <div className="flex gap-4">
+            <label className="flex-1 space-y-1.5">
+              <span className={`${label} block`}>Primary</span>
+              <input type="color" className="w-full h-9 rounded-xl cursor-pointer" value={branding.primaryColor || '#4f46e5'} onChange={(e) => update({ primaryColor: e.target.value })} />
+            </label>
+            <label className="flex-1 space-y-1.5">
+              <span className={`${label} block`}>Accent</span>
+              <input type="color" className="w-full h-9 rounded-xl cursor-pointer" value={branding.accentColor || branding.primaryColor || '#4f46e5'} onChange={(e) => update({ accentColor: e.target.value })} />
+            </label>
+          </div>
+          <div className="space-y-1.5">
+            <span className={`${label} block`}>Logo</span>
+            {branding.logo ? (
+              <div className="relative w-fit p-2 bg-slate-50 rounded-xl border border-slate-100">
+                <img src={`data:${branding.logo.mimeType};base64,${branding.logo.base64}`} className="max-h-10 max-w-[12rem]" alt="PDF logo" />
+                <button type="button" onClick={() => update({ logo: undefined })} className="absolute -top-2 -right-2 p-0.5 bg-white rounded-full border border-slate-200 text-slate-500 hover:text-rose-600">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <button type="button" onClick={() => fileRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-slate-50 border border-dashed border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:border-indigo-600 hover:text-indigo-600">
+                <ImagePlus className="w-4 h-4" /> Upload logo
+              </button>
+            )}
+            <input ref={fileRef} type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={(e) => { setLogo(e.target.files?.[0]); e.target.value = ''; }} />
+            {logoError && <p className="text-[10px] font-bold text-rose-600">{logoError}</p>}
+          </div>
+          {(branding.companyName || branding.logo || branding.primaryColor || branding.accentColor) && (
+            <button type="button" onClick={() => update({ companyName: undefined, logo: undefined, primaryColor: undefined, accentColor: undefined })} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-rose-600">
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfBrandingMenu;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { RegionBox } from '../types.ts';
+
+export interface OverlayRegion {
+  number: number;
+  box: RegionBox;
+  /** Tailwind colour family for the outline and marker, e.g. `rose`. */
+  tone: 'rose' | 'amber' | 'sky' | 'emerald';
+  title: string;
+}
+
+// Spelled out so Tailwind's class scanner sees every variant.
+const TONES: Record<OverlayRegion['tone'], { border: string; marker: string }> = {
+  rose: { border: 'border-rose-500', marker: 'bg-rose-500' },
+  amber: { border: 'border-amber-500', marker: 'bg-amber-500' },
+  sky: { border: 'border-sky-500', marker: 'bg-sky-500' },
+  emerald: { border: 'border-emerald-500', marker: 'bg-emerald-500' }
+};
+
+interface RegionOverlayProps {
+  regions: OverlayRegion[];
+  active: number | null;
+  onActivate: (number: number | null) => void;
+}
+
+/**
+ * Numbered boxes positioned in percentages over an image. The parent must be
+ * `relative` and exactly the size of the rendered image.
+ */
+const RegionOverlay: React.FC<RegionOverlayProps> = ({ regions, active, onActivate }) => (
+  <>
+    {regions.map(({ number, box, tone, title }) => (
+      <div
+        key={number}
+        onMouseEnter={() => onActivate(number)}
+        onMouseLeave={() => onActivate(null)}
+        title={title}
+        className={`absolute border-2 rounded-lg transition-all ${TONES[tone].border} ${active === number ? 'bg-white/30 ring-4 ring-indigo-500/30' : 'bg-transparent'}`}
+        style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+      >
+        <span className={`absolute -top-3 -left-3 w-6 h-6 rounded-full text-[10px] font-black text-white flex items-center justify-center shadow ${TONES[tone].marker}`}>{number}</span>
+      </div>
+    ))}
+  </>
+);
+
+export default RegionOverlay;
@@ -1,49 +1,244 @@
-import React, { useRef, useState } from 'react';
-import { AnalysisResult } from '../types.ts';
+import React, { useState } from 'react';
+import { AnalysisResult, AuditProfile, PdfBranding, ImageAnalysis, ImageMetrics, RegionSeverity } from '../types.ts';
+import { formatBytes, summarizePreprocessing } from '../services/imageMetrics.ts';
+import { findBenchmarkFor } from '../services/competitorBenchmark.ts';
+import { BRAND_RULE_LABELS } from '../services/brandGuide.ts';
+import { EXPORT_FORMATS, ExportFormat, downloadExport, renderExport } from '../services/reportExport.ts';
+import { summarizeUsage } from '../services/usageAccounting.ts';
+import { DEVICE_PROFILES } from '../services/deviceVariants.ts';
+import BenchmarkComparison from './BenchmarkComparison.tsx';
+import LayoutScreenshots from './LayoutScreenshots.tsx';
+import DeviceComparisonView, { DEVICE_ICONS } from './DeviceComparisonView.tsx';
+import AnnotatedImage from './AnnotatedImage.tsx';
+import PdfBrandingMenu, { loadStoredPdfBranding } from './PdfBrandingMenu.tsx';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { Download, CheckCircle2, Eye, Camera, Lightbulb, FileText, Loader2, Trophy, Users, Zap, Target } from 'lucide-react';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
+import { Download, CheckCircle2, Eye, Camera, Lightbulb, FileText, Loader2, Trophy, Users, Zap, Target, Wrench, Ruler, AlertTriangle, ClipboardList, Palette, Check, X, MonitorSmartphone, EyeOff, ScanSearch, Smartphone } from 'lucide-react';
 
 interface ReportViewProps {
   result: AnalysisResult;
 }
 
+const SEVERITY_TONES: Record<RegionSeverity, { tone: 'rose' | 'amber' | 'sky'; text: string }> = {
+  high: { tone: 'rose', text: 'text-rose-600' },
+  medium: { tone: 'amber', text: 'text-amber-600' },
+  low: { tone: 'sky', text: 'text-sky-600' }
+};
+
+/** `missingShots` -> `Missing Shots`, for profile field labels. */
+const humanize = (name: string) => name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
+
+const MetricCell: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div>
+    <p className="text-[10px] font-black text-slate-400 uppercase block mb-1">{label}</p>
+    <p className={`text-xs font-black ${warn ? 'text-amber-600' : 'text-slate-800'}`}>{value}</p>
+  </div>
+);
+
+/** Locally measured values, shown next to the model's judgement of the same asset. */
+const MeasuredMetrics: React.FC<{ metrics: ImageMetrics; aiColors: string[] }> = ({ metrics, aiColors }) => {
+  const pct = (value: number) => `${Math.round(value * 1000) / 10}%`;
+  return (
+    <div className="p-6 bg-white rounded-2xl border border-slate-100 space-y-5">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><Ruler className="w-3 h-3" /> Measured</p>
+      <div className="grid grid-cols-3 gap-4">
+        <MetricCell
+          label="Resolution"
+          value={metrics.width && metrics.height ? `${metrics.width}×${metrics.height}` : 'Unknown'}
+          warn={metrics.width !== undefined && metrics.height !== undefined && Math.max(metrics.width, metrics.height) < 1000}
+        />
+        <MetricCell label="Aspect" value={metrics.aspectRatio !== undefined ? `${metrics.aspectRatio}:1` : '–'} />
+        <MetricCell
+          label="File Size"
+          value={`${formatBytes(metrics.fileSizeBytes)}${metrics.bitsPerPixel !== undefined ? ` · ${metrics.bitsPerPixel} bpp` : ''}`}
+          warn={metrics.bitsPerPixel !== undefined && metrics.bitsPerPixel < 0.5}
+        />
+        {metrics.sharpness !== undefined && (
+          <MetricCell label="Sharpness" value={`${metrics.sharpness}${metrics.blurry ? ' · Blurry' : ''}`} warn={metrics.blurry} />
+        )}
+        {metrics.shadowClipping !== undefined && metrics.highlightClipping !== undefined && (
+          <MetricCell
+            label="Clipping"
+            value={`${pct(metrics.shadowClipping)} / ${pct(metrics.highlightClipping)}`}
+            warn={metrics.shadowClipping > 0.05 || metrics.highlightClipping > 0.05}
+          />
+        )}
+        {metrics.backgroundWhiteness !== undefined && (
+          <MetricCell label="White Border" value={`${pct(metrics.backgroundWhiteness)}${metrics.whiteBackground ? ' · Compliant' : ''}`} />
+        )}
+      </div>
+      {metrics.palette && metrics.palette.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase w-16">Pixels</span>
+            <div className="flex-1 flex h-4 rounded-full overflow-hidden border border-slate-100">
+              {metrics.palette.map((p) => (
+                <div key={p.color} style={{ backgroundColor: p.color, width: `${p.share * 100}%` }} title={`${p.color} · ${Math.round(p.share * 100)}%`} />
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase w-16">AI</span>
+            <div className="flex-1 flex h-4 rounded-full overflow-hidden border border-slate-100">
+              {aiColors.map((color) => (
+                <div key={color} className="flex-1" style={{ backgroundColor: color }} title={color} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      {!metrics.palette && (
+        <p className="text-[10px] font-bold text-slate-400">Pixel metrics need an environment that can decode images.</p>
+      )}
+    </div>
+  );
+};
+
+interface AssetCardProps {
+  image: ImageAnalysis;
+  index: number;
+  profile?: AuditProfile;
+  showRegions: boolean;
+  /** Number of the highlighted region, if any. */
+  activeRegion: number | null;
+  onActivateRegion: (number: number | null) => void;
+}
+
+/** One audited image with its critique, located issues and measurements. */
+const AssetCard: React.FC<AssetCardProps> = ({ image, index, profile, showRegions, activeRegion, onActivateRegion }) => (
+  <div className="bg-white rounded-[2rem] overflow-hidden shadow-xl border border-slate-100 flex flex-col group">
+    <AnnotatedImage
+      src={image.base64 ? `data:${image.mimeType || 'image/jpeg'};base64,${image.base64}` : image.url}
+      alt="Audit Target"
+      regions={(image.regions || []).map((region, ri) => ({
+        number: ri + 1,
+        box: region.box,
+        tone: SEVERITY_TONES[region.severity].tone,
+        title: `${region.label}: ${region.note}`
+      }))}
+      showRegions={showRegions}
+      active={activeRegion}
+      onActivate={onActivateRegion}
+    >
+      <div className="absolute top-6 left-6 bg-white/95 backdrop-blur px-4 py-2 rounded-2xl text-xs font-black text-indigo-600 border border-white">Asset #{index + 1}</div>
+      {image.devices && image.devices.length > 0 && (
+        <div className="absolute top-6 right-6 flex gap-1.5 bg-white/95 backdrop-blur px-3 py-2 rounded-2xl text-slate-500 border border-white" title={`Shown on ${image.devices.map((d) => DEVICE_PROFILES[d].label.toLowerCase()).join(' and ')}`}>
+          {image.devices.map((device) => <span key={device}>{DEVICE_ICONS[device]}</span>)}
+        </div>
+      )}
+    </AnnotatedImage>
+    <div className="p-8 space-y-8">
+      {image.notAnalyzed ? (
+        <div className="p-6 bg-amber-50 rounded-2xl border border-amber-100">
+          <p className="text-[10px] font-black text-amber-600 uppercase block mb-2 flex items-center gap-2"><AlertTriangle className="w-3 h-3" /> Not Analyzed</p>
+          <p className="text-xs font-bold text-amber-800 leading-relaxed">The model returned no critique for this asset, so it is excluded from the quality scores.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-6">
+            <div><p className="text-[10px] font-black text-slate-400 uppercase block mb-1">Lighting</p><p className="text-sm font-bold text-slate-800">{image.lighting}</p></div>
+            <div className="text-right"><p className="text-[10px] font-black text-slate-400 uppercase block mb-1">Quality Score</p><p className="text-sm font-black text-indigo-600">{image.qualityScore}%</p></div>
+          </div>
+          {image.criteriaScores && image.criteriaScores.length > 0 && (
+            <div className="space-y-3">
+              {image.criteriaScores.map((cs) => {
+                const criterion = profile?.criteria.find((c) => c.id === cs.criterion);
+                return (
+                  <div key={cs.criterion} title={cs.note}>
+                    <div className="flex justify-between text-[10px] font-black uppercase mb-1">
+                      <span className="text-slate-400">{criterion?.label || cs.criterion}{criterion && <span className="text-slate-300"> ×{criterion.weight}</span>}</span>
+                      <span className="text-slate-700">{cs.score}</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 rounded-full" style={{ width: `${cs.score}%` }} /></div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {image.brandCompliance && image.brandCompliance.findings.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase block mb-2">Brand Compliance · {image.brandCompliance.score}%</p>
+              <div className="flex flex-wrap gap-2">
+                {image.brandCompliance.findings.map((f) => (
+                  <span
+                    key={f.rule}
+                    title={`${f.note} (${f.source === 'measured' ? 'measured' : 'model judgement'})`}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest ${f.pass ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-rose-50 text-rose-700 border-rose-100'}`}
+                  >
+                    {f.pass ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                    {BRAND_RULE_LABELS[f.rule]}
+                    {f.source === 'measured' && <Ruler className="w-3 h-3 opacity-60" />}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {image.regions && image.regions.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase block mb-2">Located Issues</p>
+              <ol className="space-y-2">
+                {image.regions.map((region, ri) => (
+                  <li
+                    key={ri}
+                    onMouseEnter={() => onActivateRegion(ri + 1)}
+                    onMouseLeave={() => onActivateRegion(null)}
+                    className={`flex gap-3 p-3 rounded-xl border transition-all ${activeRegion === ri + 1 ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}
+                  >
+                    <span className="text-[10px] font-black text-slate-400 w-4 flex-shrink-0">{ri + 1}</span>
+                    <div>
+                      <p className="text-xs font-black text-slate-800">
+                        {region.label}
+                        <span className={`ml-2 text-[10px] uppercase tracking-widest ${SEVERITY_TONES[region.severity].text}`}>{region.severity}</span>
+                        <span className="ml-2 text-[10px] uppercase tracking-widest text-slate-400">{region.category}</span>
+                      </p>
+                      <p className="text-xs font-bold text-slate-500 leading-relaxed">{region.note}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+            <p className="text-[10px] font-black text-indigo-500 uppercase block mb-2 flex items-center gap-2"><Zap className="w-3 h-3" /> Technical Optimization</p>
+            <p className="text-xs font-bold text-slate-700 leading-relaxed italic">"{image.howToImprove}"</p>
+          </div>
+        </>
+      )}
+      {image.metrics && <MeasuredMetrics metrics={image.metrics} aiColors={image.dominantColors} />}
+      {image.preprocessing && (
+        <p className="text-[10px] font-bold text-slate-400" title={image.preprocessing.duplicateUrls?.join('\n')}>
+          Preprocessed: {summarizePreprocessing(image.preprocessing)}
+        </p>
+      )}
+    </div>
+  </div>
+);
+
 const ReportView: React.FC<ReportViewProps> = ({ result }) => {
-  const reportRef = useRef<HTMLDivElement>(null);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [branding, setBranding] = useState<PdfBranding>(loadStoredPdfBranding);
+  const [showRegions, setShowRegions] = useState(true);
+  const [activeRegion, setActiveRegion] = useState<{ asset: number; number: number } | null>(null);
 
-  const downloadReport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(result, null, 2));
-    const link = document.createElement('a');
-    link.setAttribute("href", dataStr);
-    link.setAttribute("download", "audit_data.json");
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-  };
+  const download = (format: Exclude<ExportFormat, 'pdf'>) => downloadExport(renderExport(result, format));
 
-  const downloadPdf = async () => {
-    if (!reportRef.current) return;
+  const downloadPdf = () => {
     setIsGeneratingPdf(true);
-    try {
-      const canvas = await html2canvas(reportRef.current, { scale: 1.5, useCORS: true, backgroundColor: '#f8fafc' });
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = (canvas.height * pdfWidth) / canvas.width;
-      pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-      pdf.save(`VisualSense_Audit.pdf`);
-    } catch (err) {
-      alert("PDF generation failed. Use JSON export.");
-    } finally {
-      setIsGeneratingPdf(false);
-    }
+    // Let the spinner paint before the synchronous layout work starts.
+    setTimeout(() => {
+      try {
+        downloadExport(renderExport(result, 'pdf', { branding }));
+      } catch (err) {
+        alert("PDF generation failed. Use JSON export.");
+      } finally {
+        setIsGeneratingPdf(false);
+      }
+    }, 0);
   };
 
+  const analyzed = result.images.filter((img) => !img.notAnalyzed);
   const scoreData = [
     { name: 'Consistency', value: result.summary.brandConsistency },
-    { name: 'Avg Quality', value: Math.round(result.images.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(result.images.length, 1)) },
+    { name: 'Avg Quality', value: Math.round(analyzed.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(analyzed.length, 1)) },
   ];
 
   return (
@@ -55,20 +250,37 @@ const ReportView: React.FC<ReportViewProps> = ({ result }) => {
           </div>
           <div>
             <h3 className="text-xl font-black text-slate-900 leading-tight">Optimization Report</h3>
-            <p className="text-sm text-slate-400 font-medium">Market Benchmarking for {new URL(result.url).hostname}</p>
+            <p className="text-sm text-slate-400 font-medium">Market Benchmarking for {result.upload ? result.upload.productName || 'uploaded photography' : new URL(result.url).hostname}{result.model && ` · ${result.model}`}{result.profile && ` · ${result.profile.name} profile`}</p>
+            {result.usage && <p className="text-xs text-slate-400 font-bold">{summarizeUsage(result.usage)}</p>}
           </div>
         </div>
         <div className="flex gap-2 w-full md:w-auto">
-          <button onClick={downloadReport} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200">
-            <Download className="w-4 h-4" /> JSON
-          </button>
+          {(['json', 'md', 'html', 'csv'] as const).map((format) => (
+            <button key={format} onClick={() => download(format)} title={`Download ${EXPORT_FORMATS[format].label}`} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-3 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200">
+              <Download className="w-4 h-4" /> {format === 'md' ? 'MD' : EXPORT_FORMATS[format].label}
+            </button>
+          ))}
           <button onClick={downloadPdf} disabled={isGeneratingPdf} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-2xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-50 shadow-xl shadow-indigo-100">
             {isGeneratingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />} PDF
           </button>
+          <PdfBrandingMenu branding={branding} onChange={setBranding} />
         </div>
       </div>
 
-      <div ref={reportRef} className="space-y-12">
+      {result.validationIssues && result.validationIssues.length > 0 && (
+        <details className="bg-amber-50 border border-amber-100 rounded-[2rem] px-6 py-4 text-amber-800">
+          <summary className="cursor-pointer text-xs font-black uppercase tracking-widest flex items-center gap-2">
+            <Wrench className="w-4 h-4" /> {result.validationIssues.length} model output issues repaired or incomplete
+          </summary>
+          <ul className="mt-3 space-y-1 text-xs font-bold">
+            {result.validationIssues.map((issue, idx) => (
+              <li key={idx}><span className="uppercase text-[10px] opacity-60">{issue.severity}</span> <code>{issue.path}</code> {issue.message}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="space-y-12">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2 bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100 relative">
             <div className="absolute top-0 right-0 p-4 opacity-5"><Target size={120} /></div>
@@ -105,6 +317,96 @@ const ReportView: React.FC<ReportViewProps> = ({ result }) => {
           </div>
         </div>
 
+        {result.summary.profileFields && Object.keys(result.summary.profileFields).length > 0 && (
+          <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+            <div className="flex items-center gap-3 mb-8">
+              <div className="p-3 bg-violet-100 rounded-2xl text-violet-600"><ClipboardList className="w-8 h-8" /></div>
+              <div>
+                <h3 className="text-3xl font-black text-slate-900 tracking-tight">{result.profile?.name || 'Profile'} Findings</h3>
+                <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mt-1">Fields defined by the audit profile</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {Object.entries(result.summary.profileFields).map(([name, value]) => (
+                <div key={name} className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2" title={result.profile?.extraFields.find((f) => f.name === name)?.description}>{humanize(name)}</p>
+                  {Array.isArray(value) ? (
+                    <ul className="space-y-1">{value.map((v, vi) => <li key={vi} className="text-sm font-bold text-slate-800">{v}</li>)}</ul>
+                  ) : (
+                    <p className="text-sm font-bold text-slate-800">{typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {result.brandComplianceSummary && (
+          <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+            <div className="flex items-center justify-between gap-6 mb-8">
+              <div className="flex items-center gap-3">
+                <div className="p-3 bg-rose-100 rounded-2xl text-rose-600"><Palette className="w-8 h-8" /></div>
+                <div>
+                  <h3 className="text-3xl font-black text-slate-900 tracking-tight">Brand Compliance</h3>
+                  <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mt-1">{result.brandGuide?.name || 'Brand guide'} · share of checks passed</p>
+                </div>
+              </div>
+              <p className={`text-5xl font-black tracking-tighter ${result.brandComplianceSummary.score >= 80 ? 'text-emerald-600' : result.brandComplianceSummary.score >= 50 ? 'text-amber-500' : 'text-rose-600'}`}>{result.brandComplianceSummary.score}%</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {result.brandComplianceSummary.rules.map((rule) => (
+                <div key={rule.rule} className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+                  <div className="flex justify-between text-[10px] font-black uppercase tracking-widest mb-3">
+                    <span className="text-slate-400">{BRAND_RULE_LABELS[rule.rule]}</span>
+                    <span className="text-slate-700">{rule.passed}/{rule.total}</span>
+                  </div>
+                  <div className="h-1.5 bg-rose-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${rule.total ? (rule.passed / rule.total) * 100 : 0}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+            {result.brandGuide && result.brandGuide.palette.length > 0 && (
+              <div className="flex h-3 mt-8 rounded-full overflow-hidden border border-slate-100">
+                {result.brandGuide.palette.map((color) => <div key={color} className="flex-1" style={{ backgroundColor: color }} title={color} />)}
+              </div>
+            )}
+          </section>
+        )}
+
+        {(result.layout || result.layoutError) && (
+          <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+            <div className="flex items-center gap-3 mb-8">
+              <div className="p-3 bg-sky-100 rounded-2xl text-sky-600"><MonitorSmartphone className="w-8 h-8" /></div>
+              <div>
+                <h3 className="text-3xl font-black text-slate-900 tracking-tight">Layout & Typography</h3>
+                <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mt-1">Reviewed from rendered page screenshots</p>
+              </div>
+            </div>
+            {result.layout ? (
+              <LayoutScreenshots layout={result.layout} />
+            ) : (
+              <div className="flex items-center gap-3 p-4 bg-amber-50 rounded-2xl border border-amber-100 text-amber-700">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span className="text-xs font-bold">Screenshots unavailable: {result.layoutError}</span>
+              </div>
+            )}
+          </section>
+        )}
+
+        {result.devices && (
+          <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+            <div className="flex items-center gap-3 mb-8">
+              <div className="p-3 bg-teal-100 rounded-2xl text-teal-600"><Smartphone className="w-8 h-8" /></div>
+              <div>
+                <h3 className="text-3xl font-black text-slate-900 tracking-tight">Mobile vs Desktop</h3>
+                <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mt-1">Images each device is served, judged for its screen</p>
+              </div>
+            </div>
+            <DeviceComparisonView result={result} />
+          </section>
+        )}
+
         <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
           <div className="flex items-center gap-3 mb-10">
             <div className="p-3 bg-indigo-100 rounded-2xl text-indigo-600"><Users className="w-8 h-8" /></div>
@@ -113,6 +415,11 @@ const ReportView: React.FC<ReportViewProps> = ({ result }) => {
               <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mt-1">Niche Competitors & Visual Tactics</p>
             </div>
           </div>
+          {result.benchmarks && result.benchmarks.length > 0 && (
+            <div className="mb-10">
+              <BenchmarkComparison result={result} />
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             {result.summary.competitors?.map((comp, idx) => (
               <div key={idx} className="p-8 bg-slate-50 rounded-[2rem] border border-slate-100 hover:bg-white transition-all group shadow-sm">
@@ -120,6 +427,11 @@ const ReportView: React.FC<ReportViewProps> = ({ result }) => {
                   <h4 className="text-xl font-black text-slate-900 tracking-tight">{comp.name}</h4>
                   <Trophy className="w-5 h-5 text-amber-400 opacity-20 group-hover:opacity-100 transition-opacity" />
                 </div>
+                {findBenchmarkFor(comp, result.benchmarks) ? (
+                  <p className="inline-block mb-4 px-3 py-1 bg-emerald-50 text-emerald-700 border border-emerald-100 rounded-full text-[10px] font-black uppercase tracking-widest">Audited above</p>
+                ) : (
+                  <p className="inline-block mb-4 px-3 py-1 bg-amber-50 text-amber-700 border border-amber-100 rounded-full text-[10px] font-black uppercase tracking-widest" title="Suggested by the model without a URL; not measured">Unverified · Model suggestion</p>
+                )}
                 <div className="space-y-2 mb-6">
                   {comp.strengths.map((s, si) => (
                     <div key={si} className="flex items-center gap-2 text-[10px] font-bold text-slate-600 bg-white px-3 py-1.5 rounded-xl border border-slate-100">{s}</div>
@@ -150,32 +462,33 @@ const ReportView: React.FC<ReportViewProps> = ({ result }) => {
         </section>
 
         <section>
-          <div className="flex items-center gap-3 mb-8 px-4">
-            <Camera className="text-indigo-600 w-8 h-8" />
-            <h3 className="text-3xl font-black text-slate-900 tracking-tight">Asset Audit</h3>
+          <div className="flex items-center justify-between gap-3 mb-8 px-4">
+            <div className="flex items-center gap-3">
+              <Camera className="text-indigo-600 w-8 h-8" />
+              <h3 className="text-3xl font-black text-slate-900 tracking-tight">Asset Audit</h3>
+            </div>
+            {result.images.some((img) => img.regions?.length) && (
+              <button
+                type="button"
+                onClick={() => setShowRegions(!showRegions)}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full text-[10px] font-black uppercase tracking-widest text-slate-600 hover:border-indigo-600 hover:text-indigo-600"
+              >
+                {showRegions ? <EyeOff className="w-3.5 h-3.5" /> : <ScanSearch className="w-3.5 h-3.5" />}
+                {showRegions ? 'Hide Regions' : 'Show Regions'}
+              </button>
+            )}
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
             {result.images.map((img, idx) => (
-              <div key={idx} className="bg-white rounded-[2rem] overflow-hidden shadow-xl border border-slate-100 flex flex-col group">
-                <div className="relative aspect-video overflow-hidden bg-slate-200">
-                  <img 
-                    src={img.base64 ? `data:${img.mimeType || 'image/jpeg'};base64,${img.base64}` : img.url} 
-                    className="absolute inset-0 w-full h-full object-cover transition-transform group-hover:scale-105" 
-                    alt="Audit Target" 
-                  />
-                  <div className="absolute top-6 left-6 bg-white/95 backdrop-blur px-4 py-2 rounded-2xl text-xs font-black text-indigo-600 border border-white">Asset #{idx + 1}</div>
-                </div>
-                <div className="p-8 space-y-8">
-                  <div className="grid grid-cols-2 gap-6">
-                    <div><p className="text-[10px] font-black text-slate-400 uppercase block mb-1">Lighting</p><p className="text-sm font-bold text-slate-800">{img.lighting}</p></div>
-                    <div className="text-right"><p className="text-[10px] font-black text-slate-400 uppercase block mb-1">Quality Score</p><p className="text-sm font-black text-indigo-600">{img.qualityScore}%</p></div>
-                  </div>
-                  <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
-                    <p className="text-[10px] font-black text-indigo-500 uppercase block mb-2 flex items-center gap-2"><Zap className="w-3 h-3" /> Technical Optimization</p>
-                    <p className="text-xs font-bold text-slate-700 leading-relaxed italic">"{img.howToImprove}"</p>
-                  </div>
-                </div>
-              </div>
+              <AssetCard
+                key={idx}
+                image={img}
+                index={idx}
+                profile={result.profile}
+                showRegions={showRegions}
+                activeRegion={activeRegion?.asset === idx ? activeRegion.number : null}
+                onActivateRegion={(number) => setActiveRegion(number === null ? null : { asset: idx, number })}
+              />
             ))}
           </div>
         </section>
@@ -184,4 +497,43 @@ const ReportView: React.FC<ReportViewProps> = ({ result }) => {
   );
 };
 
+/**
+ * Per-image analyses shown while the model reply is still streaming, with a
+ * placeholder for each asset not yet analysed. Replaced by the full report.
+ */
+export const StreamingAssets: React.FC<{ images: ImageAnalysis[]; expected: number; profile?: AuditProfile }> = ({ images, expected, profile }) => {
+  const [activeRegion, setActiveRegion] = useState<{ asset: number; number: number } | null>(null);
+  return (
+    <section className="animate-in fade-in duration-700">
+      <div className="flex items-center justify-between gap-3 mb-8 px-4">
+        <div className="flex items-center gap-3">
+          <Camera className="text-indigo-600 w-8 h-8" />
+          <h3 className="text-3xl font-black text-slate-900 tracking-tight">Asset Audit</h3>
+        </div>
+        <span className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full text-[10px] font-black uppercase tracking-widest text-slate-500">
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-600" /> {images.length} of {Math.max(expected, images.length)} analysed
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+        {images.map((img, idx) => (
+          <AssetCard
+            key={img.id}
+            image={img}
+            index={idx}
+            profile={profile}
+            showRegions
+            activeRegion={activeRegion?.asset === idx ? activeRegion.number : null}
+            onActivateRegion={(number) => setActiveRegion(number === null ? null : { asset: idx, number })}
+          />
+        ))}
+        {Array.from({ length: Math.max(0, expected - images.length) }, (_, idx) => (
+          <div key={`pending-${idx}`} className="bg-white rounded-[2rem] border-2 border-dashed border-indigo-100 min-h-[20rem] flex items-center justify-center animate-pulse">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-300">Asset #{images.length + idx + 1} · awaiting analysis</p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
 export default ReportView;
\ No newline at end of file
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { SiteAuditReport } from '../types.ts';
+import { EXPORT_FORMATS, downloadExport, renderSiteExport } from '../services/reportExport.ts';
+import ReportView from './ReportView.tsx';
+import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer } from 'recharts';
+import { Download, Layers, AlertTriangle, Palette, ChevronRight, ArrowLeft, FileWarning } from 'lucide-react';
+
+interface SiteReportViewProps {
+  report: SiteAuditReport;
+}
+
+const SiteReportView: React.FC<SiteReportViewProps> = ({ report }) => {
+  const [selectedPage, setSelectedPage] = useState<number | null>(null);
+  const { rollup } = report;
+
+  if (selectedPage !== null) {
+    const page = report.pages[selectedPage];
+    return (
+      <div className="space-y-6">
+        <button onClick={() => setSelectedPage(null)} className="flex items-center gap-2 px-5 py-3 bg-white border border-slate-100 rounded-2xl text-xs font-black text-slate-600 hover:bg-slate-50 shadow-sm">
+          <ArrowLeft className="w-4 h-4" /> Site Overview
+          <span className="text-slate-300 font-bold">/ Page {selectedPage + 1} of {report.pages.length}</span>
+        </button>
+        <ReportView result={page} />
+      </div>
+    );
+  }
+
+  const pageQuality = (idx: number) => {
+    const images = report.pages[idx].images.filter((img) => !img.notAnalyzed);
+    return Math.round(images.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(images.length, 1));
+  };
+
+  return (
+    <div className="space-y-12 animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row gap-4 items-center justify-between bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-indigo-600 rounded-2xl">
+            <Layers className="text-white w-6 h-6" />
+          </div>
+          <div>
+            <h3 className="text-xl font-black text-slate-900 leading-tight">Site-Wide Report</h3>
+            <p className="text-sm text-slate-400 font-medium">{rollup.pageCount} pages · {rollup.imageCount} assets on {new URL(report.startUrl).hostname}</p>
+          </div>
+        </div>
+        <div className="flex gap-2 w-full md:w-auto">
+          {(['json', 'md', 'csv'] as const).map((format) => (
+            <button key={format} onClick={() => downloadExport(renderSiteExport(report, format))} title={`Download ${EXPORT_FORMATS[format].label}`} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200">
+              <Download className="w-4 h-4" /> {format === 'md' ? 'MD' : EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+          <h3 className="text-2xl font-black text-slate-900 mb-8">Brand Rollup</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+            <div className="grid grid-cols-2 gap-4 content-start">
+              <div className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100"><span className="text-[10px] font-black text-indigo-400 uppercase block">Avg Brand Sync</span><p className="text-xl font-black text-indigo-900">{rollup.averageBrandConsistency}%</p></div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100"><span className="text-[10px] font-black text-slate-400 uppercase block">Sync Spread</span><p className="text-xl font-black text-slate-900">±{rollup.brandConsistencySpread}</p></div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100"><span className="text-[10px] font-black text-slate-400 uppercase block">Avg Quality</span><p className="text-xl font-black text-slate-900">{rollup.averageQuality}%</p></div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100"><span className="text-[10px] font-black text-slate-400 uppercase block">Failed Pages</span><p className="text-xl font-black text-slate-900">{report.failures.length}</p></div>
+            </div>
+            <div className="h-48 bg-slate-50 p-4 rounded-3xl border border-slate-100">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rollup.qualityDistribution} layout="vertical">
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis dataKey="label" type="category" width={110} tick={{ fontSize: 10, fontWeight: 800, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                  <Bar dataKey="count" fill="#4f46e5" radius={[0, 10, 10, 0]} barSize={16} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          {rollup.sitePalette.length > 0 && (
+            <div className="mt-8 pt-8 border-t border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2"><Palette className="w-3 h-3" /> Recurring Palette</p>
+              <div className="flex flex-wrap gap-3">
+                {rollup.sitePalette.map(({ color, pageCount }) => (
+                  <div key={color} className="flex items-center gap-2 bg-slate-50 pr-3 rounded-xl border border-slate-100">
+                    <span className="w-8 h-8 rounded-l-xl border-r border-slate-100" style={{ backgroundColor: color }} />
+                    <span className="text-[10px] font-black text-slate-600">{color} · {pageCount}p</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="bg-indigo-600 rounded-[2.5rem] p-10 shadow-2xl text-white">
+          <h3 className="text-xl font-black mb-6 flex items-center gap-3"><AlertTriangle className="w-6 h-6" /> Recurring Issues</h3>
+          <ul className="space-y-4">
+            {rollup.recurringIssues.length === 0 && <li className="text-xs font-medium opacity-80">No issue appears on more than one page.</li>}
+            {rollup.recurringIssues.map((issue) => (
+              <li key={issue.theme} className="text-xs font-medium leading-relaxed bg-white/10 p-4 rounded-2xl border border-white/10">
+                <p className="font-black mb-1">{issue.theme} <span className="opacity-60">· {issue.pageCount} of {rollup.pageCount} pages</span></p>
+                {issue.examples[0] && <p className="opacity-80 italic">"{issue.examples[0]}"</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <section className="bg-white rounded-[2.5rem] p-10 shadow-2xl border border-slate-100">
+        <h3 className="text-3xl font-black text-slate-900 tracking-tight mb-8">Page-by-Page</h3>
+        <div className="space-y-3">
+          {report.pages.map((page, idx) => (
+            <button key={page.url} onClick={() => setSelectedPage(idx)} className="w-full flex items-center gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100 hover:bg-indigo-50 transition-all text-left group">
+              <span className="w-8 h-8 bg-white rounded-lg flex items-center justify-center text-xs font-black text-slate-400 shadow-sm group-hover:text-indigo-600">{idx + 1}</span>
+              <span className="flex-1 text-xs font-bold text-slate-700 truncate">{new URL(page.url).pathname}</span>
+              <span className="text-[10px] font-black text-slate-400 uppercase">Sync <span className="text-slate-900">{page.summary.brandConsistency}%</span></span>
+              <span className="text-[10px] font-black text-slate-400 uppercase">Quality <span className="text-indigo-600">{pageQuality(idx)}%</span></span>
+              <ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-indigo-600" />
+            </button>
+          ))}
+          {report.failures.map((failure) => (
+            <div key={failure.url} className="flex items-center gap-4 p-4 bg-rose-50 rounded-2xl border border-rose-100 text-rose-700">
+              <FileWarning className="w-5 h-5 flex-shrink-0" />
+              <span className="flex-1 text-xs font-bold truncate">{new URL(failure.url).pathname}</span>
+              <span className="text-[10px] font-bold opacity-80 truncate max-w-xs">{failure.error}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default SiteReportView;
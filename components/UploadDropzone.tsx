@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, FolderOpen, FileArchive, X } from 'lucide-react';
+import { MAX_UPLOAD_IMAGES, UPLOAD_ACCEPT } from '../services/imageUpload.ts';
+
+interface UploadDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/** Walks a dropped folder, keeping each file's path relative to the drop. */
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    const path = entry.fullPath.replace(/^\//, '');
+    return [path === file.name ? file : new File([file], path, { type: file.type, lastModified: file.lastModified })];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty list.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  return (await Promise.all(children.map(readEntry))).flat();
+}
+
+const UploadDropzone: React.FC<UploadDropzoneProps> = ({ files, onChange, disabled }) => {
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = (added: File[]) => {
+    const key = (f: File) => `${f.webkitRelativePath || f.name}:${f.size}`;
+    const known = new Set(files.map(key));
+    onChange([...files, ...added.filter((f) => !known.has(key(f)))]);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    addFiles(entries.length ? (await Promise.all(entries.map(readEntry))).flat() : Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`p-8 sm:p-10 bg-white border-2 border-dashed rounded-2xl sm:rounded-[2.5rem] text-center transition-all ${dragging ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200'}`}
+      >
+        <ImagePlus className="w-10 h-10 mx-auto text-indigo-600 mb-3" />
+        <p className="text-lg font-black text-slate-900 tracking-tight">Drop product photos, a folder or a zip</p>
+        <p className="text-xs font-bold text-slate-400 mt-1">JPEG, PNG, WebP, HEIC, AVIF, GIF or SVG · up to {MAX_UPLOAD_IMAGES} images · large files are downscaled in your browser</p>
+        <div className="flex flex-wrap justify-center gap-3 mt-6">
+          <button type="button" disabled={disabled} onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-5 py-2.5 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200 disabled:opacity-50">
+            <FileArchive className="w-4 h-4" /> Choose files or zip
+          </button>
+          <button type="button" disabled={disabled} onClick={() => folderInputRef.current?.click()} className="flex items-center gap-2 px-5 py-2.5 bg-slate-100 text-slate-700 rounded-2xl text-xs font-bold hover:bg-slate-200 disabled:opacity-50">
+            <FolderOpen className="w-4 h-4" /> Choose folder
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={UPLOAD_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          {...{ webkitdirectory: '' }}
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {files.map((file, idx) => (
+            <li key={idx} className="flex items-center gap-2 pl-3 pr-1 py-1 bg-white border border-slate-100 rounded-full text-[11px] font-bold text-slate-600 shadow-sm">
+              <span className="max-w-[14rem] truncate">{file.webkitRelativePath || file.name}</span>
+              <button type="button" disabled={disabled} onClick={() => onChange(files.filter((_, i) => i !== idx))} className="p-1 rounded-full text-slate-300 hover:text-rose-600 hover:bg-rose-50">
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+          <li>
+            <button type="button" disabled={disabled} onClick={() => onChange([])} className="px-3 py-1.5 text-[11px] font-black text-slate-400 hover:text-rose-600">Clear all</button>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UploadDropzone;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { UsageBudget, UsageTotals, formatUsd } from '../services/usageAccounting.ts';
+import { ChevronDown, Wallet } from 'lucide-react';
+
+interface UsagePanelProps {
+  session: UsageTotals;
+  history: UsageTotals;
+  budget: UsageBudget | null;
+  onBudgetChange: (budget: UsageBudget | null) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_LIMIT_USD = 5;
+
+const formatTokens = (tokens: number) => (tokens >= 1e6 ? `${(tokens / 1e6).toFixed(2)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : String(tokens));
+
+const TotalsColumn: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="space-y-2">
+    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+    <p className="text-2xl font-black text-slate-900 tracking-tight">
+      {formatUsd(totals.costUsd)}
+      {totals.unpriced > 0 && <span className="ml-2 text-xs font-bold text-amber-600" title="Models without a price in the price table are not included">+ {totals.unpriced} unpriced</span>}
+    </p>
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-bold text-slate-600">
+      <dt className="text-slate-400">Tokens in / out</dt><dd>{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</dd>
+      <dt className="text-slate-400">Audits · images</dt><dd>{totals.audits} · {totals.images}</dd>
+      <dt className="text-slate-400">Requests</dt><dd>{totals.requests}{totals.cachedRequests > 0 && ` + ${totals.cachedRequests} cached`}</dd>
+      <dt className="text-slate-400">Per audit</dt><dd>{totals.audits ? formatUsd(totals.costUsd / totals.audits) : '–'}</dd>
+    </dl>
+  </div>
+);
+
+/** Collapsible spend dashboard for this session and the saved history, with the session budget. */
+const UsagePanel: React.FC<UsagePanelProps> = ({ session, history, budget, onBudgetChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const spentShare = budget ? Math.min(1, session.costUsd / budget.limitUsd) : 0;
+
+  return (
+    <div className="mt-4 bg-white border border-slate-100 rounded-2xl shadow-sm">
+      <div className="flex items-center justify-between gap-3 px-5 py-3">
+        <button type="button" onClick={() => setOpen(!open)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+          <Wallet className="w-3.5 h-3.5" /> Usage
+          <span className="normal-case tracking-normal font-bold text-slate-400">
+            {formatUsd(session.costUsd)} this session{budget && ` of ${formatUsd(budget.limitUsd)}`}
+          </span>
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </button>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+          <input
+            type="checkbox"
+            checked={Boolean(budget)}
+            disabled={disabled}
+            onChange={(e) => onBudgetChange(e.target.checked ? { limitUsd: DEFAULT_LIMIT_USD, onExceeded: 'refuse' } : null)}
+            className="accent-indigo-600"
+          />
+          Budget
+        </label>
+      </div>
+      {open && (
+        <div className="px-5 pb-5 space-y-4 text-left border-t border-slate-100 pt-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <TotalsColumn label="This session" totals={session} />
+            <TotalsColumn label="Saved audits" totals={history} />
+          </div>
+          {budget && (
+            <div className="space-y-3 border-t border-slate-100 pt-4">
+              <div className="flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <label className="flex items-center gap-2">Limit (USD)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={budget.limitUsd}
+                    disabled={disabled}
+                    onChange={(e) => onBudgetChange({ ...budget, limitUsd: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-20 px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600"
+                  />
+                </label>
+                <label className="flex items-center gap-2">When exceeded
+                  <select
+                    value={budget.onExceeded}
+                    disabled={disabled}
+                    onChange={(e) => onBudgetChange({ ...budget, onExceeded: e.target.value as UsageBudget['onExceeded'] })}
+                    className="px-2 py-1.5 bg-white border border-slate-100 rounded-xl text-slate-900 outline-none focus:border-indigo-600 normal-case tracking-normal font-bold"
+                  >
+                    <option value="refuse">Refuse the audit</option>
+                    <option value="downsize">Send fewer, smaller images</option>
+                  </select>
+                </label>
+              </div>
+              <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div className={`h-full ${spentShare >= 1 ? 'bg-rose-500' : spentShare > 0.8 ? 'bg-amber-500' : 'bg-indigo-600'}`} style={{ width: `${spentShare * 100}%` }} />
+              </div>
+              <p className="text-xs font-bold text-slate-500">
+                {formatUsd(Math.max(0, budget.limitUsd - session.costUsd))} left this session. Each request is estimated before it is sent; the budget resets when the page is reloaded.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
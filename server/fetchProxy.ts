@@ -0,0 +1,382 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import https from 'node:https';
+import dns, { LookupAddress } from 'node:dns';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import type { Plugin } from 'vite';
+import { DEVICE_PROFILES, deviceRequestHeaders, isDevice } from '../services/deviceVariants.ts';
+
+export interface FetchProxyOptions {
+  /** When non-empty, only these hosts (and their subdomains) may be fetched. */
+  allowHosts?: string[];
+  /** Hosts (and their subdomains) that are always refused. */
+  denyHosts?: string[];
+  /** Upper bound on the upstream response body, in bytes. */
+  maxBytes?: number;
+  /** Upstream request timeout in milliseconds, covering all redirects. */
+  timeoutMs?: number;
+  maxRedirects?: number;
+  userAgent?: string;
+  /** Cookie header values keyed by hostname, e.g. to pass consent or geo cookies. */
+  cookies?: Record<string, string>;
+  /** Permits loopback and private ranges; only meant for local fixture sites. */
+  allowPrivateNetwork?: boolean;
+  /** Hosts (and their subdomains) that may be private when `allowPrivateNetwork` is off, e.g. one fixture site. */
+  allowPrivateHosts?: string[];
+  /** Chromium executable for screenshot capture; defaults to Playwright's installed browser. */
+  chromiumPath?: string;
+}
+
+export const DEFAULT_USER_AGENT = DEVICE_PROFILES.desktop.userAgent;
+
+const DEFAULTS = {
+  maxBytes: 15 * 1024 * 1024,
+  timeoutMs: 15000,
+  maxRedirects: 5
+};
+
+/**
+ * A refused or failed proxy request. `permanent` marks upstream failures that
+ * retrying will not fix, such as an unknown host or a bad certificate.
+ */
+export class ProxyError extends Error {
+  constructor(public status: number, message: string, public permanent = false) {
+    super(message);
+  }
+}
+
+/** Sent with `false` on permanent upstream failures, so clients skip their retries. */
+export const RETRYABLE_HEADER = 'X-Proxy-Retryable';
+
+/** DNS, connection and TLS failures that a retry moments later would hit again. */
+function isPermanentFailure(error: NodeJS.ErrnoException): boolean {
+  const code = error.code || '';
+  return ['ENOTFOUND', 'ECONNREFUSED', 'EHOSTUNREACH', 'ENETUNREACH'].includes(code) || /CERT|SSL|TLS/.test(code);
+}
+
+function hostMatches(host: string, patterns: string[]): boolean {
+  const h = host.toLowerCase();
+  return patterns.some((p) => {
+    const pattern = p.toLowerCase().replace(/^\*\./, '');
+    return h === pattern || h.endsWith(`.${pattern}`);
+  });
+}
+
+/** The eight 16-bit groups of an IPv6 address, with a dotted IPv4 tail folded into the last two. */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const parse = (part: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return parse(head);
+  const front = parse(head);
+  const back = parse(tail);
+  return [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+/**
+ * The IPv4 address an IPv6 address stands for: IPv4-compatible (`::a.b.c.d`),
+ * IPv4-mapped (`::ffff:a.b.c.d`, which `URL` rewrites to `::ffff:7f00:1`),
+ * IPv4-translated, NAT64 (`64:ff9b::/96`, `64:ff9b:1::/48`), 6to4 and Teredo.
+ */
+function embeddedIpv4(groups: number[]): string | undefined {
+  const quad = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  const zero = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+  if (zero(0, 5) && (groups[5] === 0 || groups[5] === 0xffff)) return quad(groups[6], groups[7]);
+  if (zero(0, 4) && groups[4] === 0xffff && groups[5] === 0) return quad(groups[6], groups[7]);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && (zero(2, 6) || groups[2] === 1)) return quad(groups[6], groups[7]);
+  if (groups[0] === 0x2002) return quad(groups[1], groups[2]);
+  if (groups[0] === 0x2001 && groups[1] === 0) return quad(groups[6] ^ 0xffff, groups[7] ^ 0xffff);
+  return undefined;
+}
+
+/**
+ * Loopback, link-local, RFC 1918, CGNAT, multicast, unique-local and
+ * unspecified ranges, including IPv4 addresses embedded in IPv6 ones.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv6(address)) {
+    const groups = ipv6Groups(address);
+    const ipv4 = embeddedIpv4(groups);
+    if (ipv4) return isPrivateAddress(ipv4);
+    const first = groups[0];
+    return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xffc0) === 0xfec0 || first >= 0xff00;
+  }
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 || a === 10 || a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    a >= 224
+  );
+}
+
+function privateAllowed(host: string, options: FetchProxyOptions): boolean {
+  return Boolean(options.allowPrivateNetwork || (options.allowPrivateHosts?.length && hostMatches(host, options.allowPrivateHosts)));
+}
+
+/**
+ * Validates resolved addresses at connect time, so a hostname cannot pass the
+ * check and then rebind to an internal address for the actual request. IP
+ * literals never reach a lookup; {@link checkTarget} covers those.
+ */
+function guardedLookup(options: FetchProxyOptions): net.LookupFunction {
+  return (hostname, lookupOptions, callback) => {
+    dns.lookup(hostname, { ...lookupOptions, all: true }, (err, addresses) => {
+      if (err) return callback(err, '');
+      const refusal = refuseResolved(hostname, addresses, options);
+      if (refusal) return callback(refusal, '');
+      if (lookupOptions.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+function refuseResolved(hostname: string, addresses: LookupAddress[], options: FetchProxyOptions): ProxyError | null {
+  const blocked = !privateAllowed(hostname, options) && addresses.some((entry) => isPrivateAddress(entry.address));
+  return blocked ? new ProxyError(403, `Refusing to fetch private network address for ${hostname}`) : null;
+}
+
+/**
+ * {@link checkTarget} plus the DNS check the lookup guard makes, for clients
+ * that resolve hostnames themselves, such as the screenshot browser.
+ */
+export async function checkResolvedTarget(target: URL, options: FetchProxyOptions): Promise<void> {
+  checkTarget(target, options);
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) return;
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch (error: any) {
+    throw new ProxyError(502, `Could not resolve ${host}: ${error.code || error.message}`, isPermanentFailure(error));
+  }
+  const refusal = refuseResolved(host, addresses, options);
+  if (refusal) throw refusal;
+}
+
+export function checkTarget(target: URL, options: FetchProxyOptions): void {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new ProxyError(400, `Unsupported protocol: ${target.protocol}`);
+  }
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (options.denyHosts?.length && hostMatches(host, options.denyHosts)) {
+    throw new ProxyError(403, `Host is on the deny list: ${host}`);
+  }
+  if (options.allowHosts?.length && !hostMatches(host, options.allowHosts)) {
+    throw new ProxyError(403, `Host is not on the allow list: ${host}`);
+  }
+  if (net.isIP(host) && isPrivateAddress(host) && !privateAllowed(host, options)) {
+    throw new ProxyError(403, `Refusing to fetch private network address ${host}`);
+  }
+}
+
+interface UpstreamResponse {
+  status: number;
+  contentType: string;
+  body: Buffer;
+  finalUrl: string;
+  etag?: string;
+}
+
+function requestOnce(target: URL, options: FetchProxyOptions, headers: Record<string, string>, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = target.protocol === 'https:' ? https : http;
+  const cookie = options.cookies && Object.entries(options.cookies).find(([host]) => hostMatches(target.hostname, [host]))?.[1];
+  return new Promise((resolve, reject) => {
+    const req = client.get(target, {
+      signal,
+      lookup: guardedLookup(options),
+      headers: {
+        'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+        'Accept': '*/*',
+        'Accept-Encoding': 'gzip, deflate, br',
+        ...(cookie && { Cookie: cookie }),
+        ...headers
+      }
+    }, resolve);
+    req.on('error', reject);
+  });
+}
+
+function readBody(res: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const encoding = String(res.headers['content-encoding'] || '').toLowerCase();
+  const declared = Number(res.headers['content-length']);
+  if (declared > maxBytes) {
+    res.destroy();
+    return Promise.reject(new ProxyError(413, `Upstream response exceeds ${maxBytes} bytes`));
+  }
+
+  const stream =
+    encoding === 'gzip' ? res.pipe(zlib.createGunzip()) :
+    encoding === 'deflate' ? res.pipe(zlib.createInflate()) :
+    encoding === 'br' ? res.pipe(zlib.createBrotliDecompress()) :
+    res;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        res.destroy();
+        reject(new ProxyError(413, `Upstream response exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Fetches a remote URL on behalf of the browser, enforcing host lists,
+ * private-network blocking, size and time limits on every redirect hop.
+ */
+export async function proxyFetch(url: string, options: FetchProxyOptions = {}, headers: Record<string, string> = {}): Promise<UpstreamResponse> {
+  const maxBytes = options.maxBytes ?? DEFAULTS.maxBytes;
+  const timeoutMs = options.timeoutMs ?? DEFAULTS.timeoutMs;
+  const maxRedirects = options.maxRedirects ?? DEFAULTS.maxRedirects;
+  let target: URL;
+  try { target = new URL(url); } catch { throw new ProxyError(400, `Invalid URL: ${url}`); }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      checkTarget(target, options);
+      const res = await requestOnce(target, options, headers, controller.signal);
+      const status = res.statusCode || 502;
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        target = new URL(res.headers.location, target);
+        continue;
+      }
+      const body = await readBody(res, maxBytes);
+      return {
+        status,
+        contentType: String(res.headers['content-type'] || 'application/octet-stream'),
+        body,
+        finalUrl: target.href,
+        ...(res.headers.etag && { etag: res.headers.etag })
+      };
+    }
+    throw new ProxyError(508, `Too many redirects (>${maxRedirects})`);
+  } catch (error: any) {
+    if (error instanceof ProxyError) throw error;
+    // The timeout already covers the whole request, so waiting it out again rarely helps.
+    if (controller.signal.aborted) throw new ProxyError(504, `Upstream timed out after ${timeoutMs}ms`, true);
+    throw new ProxyError(502, `Upstream request failed: ${error.message}`, isPermanentFailure(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function sendError(res: ServerResponse, status: number, message: string, permanent = false) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    ...(permanent && { [RETRYABLE_HEADER]: 'false', 'Access-Control-Expose-Headers': RETRYABLE_HEADER })
+  });
+  res.end(JSON.stringify({ error: message }));
+}
+
+/**
+ * Connect-style handler serving `GET <mount>?url=<encoded target>`. Usable as
+ * Vite middleware or as the request listener of a plain `http` server.
+ * `&device=mobile` or `&device=desktop` sends that device's user agent and
+ * viewport hints, which browsers do not let scripts set themselves.
+ */
+export function createFetchProxyHandler(options: FetchProxyOptions = {}) {
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    const target = requestUrl.searchParams.get('url');
+    if (!target) {
+      if (next) return next();
+      return sendError(res, 400, 'Missing ?url= parameter');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET', 'Access-Control-Allow-Headers': 'If-None-Match' });
+      return res.end();
+    }
+
+    const device = requestUrl.searchParams.get('device');
+    const deviceHeaders = device === null ? {} : isDevice(device) ? deviceRequestHeaders(device) : null;
+    if (!deviceHeaders) return sendError(res, 400, `Unknown device: ${device}`);
+
+    try {
+      // Conditional requests pass through so the browser cache can revalidate.
+      const ifNoneMatch = req.headers['if-none-match'];
+      const upstream = await proxyFetch(target, options, {
+        ...deviceHeaders,
+        // A configured user agent still stands in for the desktop one.
+        ...(device === 'desktop' && options.userAgent && { 'User-Agent': options.userAgent }),
+        ...(ifNoneMatch && { 'If-None-Match': ifNoneMatch })
+      });
+      res.writeHead(upstream.status, {
+        'Content-Type': upstream.contentType,
+        'Content-Length': upstream.body.length,
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Expose-Headers': 'ETag, X-Final-Url',
+        'X-Final-Url': upstream.finalUrl,
+        ...(upstream.etag && { 'ETag': upstream.etag })
+      });
+      res.end(upstream.body);
+    } catch (error: any) {
+      if (error instanceof ProxyError) sendError(res, error.status, error.message, error.permanent);
+      else sendError(res, 500, error.message);
+    }
+  };
+}
+
+export const DEFAULT_PROXY_PATH = '/api/fetch';
+
+/** Mounts the proxy on the Vite dev and preview servers. */
+export function fetchProxyPlugin(options: FetchProxyOptions = {}, path = DEFAULT_PROXY_PATH): Plugin {
+  const handler = createFetchProxyHandler(options);
+  return {
+    name: 'visualsense-fetch-proxy',
+    configureServer(server) {
+      server.middlewares.use(path, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(path, handler);
+    }
+  };
+}
+
+function parseCookies(value?: string): Record<string, string> | undefined {
+  if (!value) return undefined;
+  let cookies: unknown;
+  try {
+    cookies = JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`PROXY_COOKIES is not valid JSON (${error.message}). Expected a map of hostname to Cookie header, e.g. {"example.com":"consent=1"}`);
+  }
+  if (!cookies || typeof cookies !== 'object' || Array.isArray(cookies) || Object.values(cookies).some((v) => typeof v !== 'string')) {
+    throw new Error('PROXY_COOKIES must be a JSON object mapping hostnames to Cookie header strings, e.g. {"example.com":"consent=1"}');
+  }
+  return cookies as Record<string, string>;
+}
+
+/** Reads proxy options from `PROXY_*` environment variables. */
+export function proxyOptionsFromEnv(env: Record<string, string | undefined> = process.env): FetchProxyOptions {
+  const list = (value?: string) => (value ? value.split(',').map((s) => s.trim()).filter(Boolean) : undefined);
+  return {
+    allowHosts: list(env.PROXY_ALLOW_HOSTS),
+    denyHosts: list(env.PROXY_DENY_HOSTS),
+    maxBytes: Number(env.PROXY_MAX_BYTES) || undefined,
+    timeoutMs: Number(env.PROXY_TIMEOUT_MS) || undefined,
+    userAgent: env.PROXY_USER_AGENT || undefined,
+    cookies: parseCookies(env.PROXY_COOKIES),
+    allowPrivateNetwork: env.PROXY_ALLOW_PRIVATE === '1',
+    allowPrivateHosts: list(env.PROXY_ALLOW_PRIVATE_HOSTS),
+    chromiumPath: env.PROXY_CHROMIUM_PATH || undefined
+  };
+}
@@ -0,0 +1,147 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import type { Browser, BrowserContext, BrowserContextOptions } from 'playwright-core';
+import type { Plugin } from 'vite';
+import { PageScreenshot } from '../types.ts';
+import { DEVICE_PROFILES } from '../services/deviceVariants.ts';
+import { FetchProxyOptions, ProxyError, checkResolvedTarget, sendError } from './fetchProxy.ts';
+
+export const DEFAULT_CAPTURE_PATH = '/api/capture';
+
+const { desktop, mobile } = DEVICE_PROFILES;
+const VIEWPORTS: { name: PageScreenshot['viewport']; context: BrowserContextOptions }[] = [
+  { name: 'desktop', context: { viewport: desktop.viewport, userAgent: desktop.userAgent } },
+  { name: 'mobile', context: { viewport: mobile.viewport, userAgent: mobile.userAgent, isMobile: true, hasTouch: true } }
+];
+
+/** Full-page captures stop here; endless feeds would otherwise produce huge images. */
+const MAX_FULL_HEIGHT = 6000;
+/** Time allowed for navigation per viewport. */
+const NAVIGATION_TIMEOUT_MS = 30000;
+/** Extra wait after load for lazy images and web fonts. */
+const SETTLE_MS = 1500;
+
+async function launchBrowser(options: FetchProxyOptions): Promise<Browser> {
+  let chromium: typeof import('playwright-core').chromium;
+  try {
+    ({ chromium } = await import('playwright-core'));
+  } catch {
+    throw new ProxyError(501, 'Screenshot capture needs the playwright-core package.');
+  }
+  try {
+    return await chromium.launch({ executablePath: options.chromiumPath, headless: true });
+  } catch (error: any) {
+    throw new ProxyError(501, `No usable Chromium for screenshots (set PROXY_CHROMIUM_PATH or run "npx playwright install chromium"): ${error.message.split('\n')[0]}`);
+  }
+}
+
+/**
+ * Routes every request a capture context makes through the fetch proxy's host
+ * and private-network checks, resolving hostnames first because Chromium does
+ * its own DNS. Other schemes and WebSockets, which `route` does not see, are
+ * refused outright.
+ */
+async function guardRequests(context: BrowserContext, options: FetchProxyOptions): Promise<void> {
+  const checked = new Map<string, Promise<void>>();
+  const check = (url: URL) => {
+    const key = `${url.protocol}//${url.host}`;
+    if (!checked.has(key)) checked.set(key, checkResolvedTarget(url, options));
+    return checked.get(key)!;
+  };
+  await context.route('**/*', async (route) => {
+    try {
+      await check(new URL(route.request().url()));
+    } catch {
+      return route.abort('blockedbyclient');
+    }
+    return route.continue();
+  });
+  await context.routeWebSocket(/.*/, (ws) => ws.close({ code: 1008, reason: 'WebSockets are not allowed during capture' }));
+}
+
+/**
+ * Captures above-the-fold and full-page JPEG screenshots of `url` in a
+ * desktop and a mobile viewport. Every request the page makes goes through
+ * the same host and private-network checks as the fetch proxy.
+ */
+export async function capturePage(url: string, options: FetchProxyOptions = {}): Promise<PageScreenshot[]> {
+  let target: URL;
+  try { target = new URL(url); } catch { throw new ProxyError(400, `Invalid URL: ${url}`); }
+  await checkResolvedTarget(target, options);
+
+  const browser = await launchBrowser(options);
+  const screenshots: PageScreenshot[] = [];
+  try {
+    for (const { name, context: contextOptions } of VIEWPORTS) {
+      // Service workers could fetch past the route handler.
+      const context = await browser.newContext({ ...contextOptions, serviceWorkers: 'block' });
+      await guardRequests(context, options);
+      const page = await context.newPage();
+      try {
+        const response = await page.goto(target.href, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT_MS });
+        if (response && response.status() >= 400) throw new ProxyError(502, `Page answered ${response.status()} in the ${name} viewport`);
+        await page.waitForTimeout(SETTLE_MS);
+
+        const viewport = contextOptions.viewport!;
+        const fold = await page.screenshot({ type: 'jpeg', quality: 70 });
+        screenshots.push({ id: `${name}-fold`, viewport: name, kind: 'fold', width: viewport.width, height: viewport.height, base64: fold.toString('base64'), mimeType: 'image/jpeg' });
+
+        const scrollHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+        const height = Math.min(scrollHeight, MAX_FULL_HEIGHT);
+        const full = await page.screenshot({ type: 'jpeg', quality: 60, fullPage: true, clip: { x: 0, y: 0, width: viewport.width, height } });
+        screenshots.push({
+          id: `${name}-full`,
+          viewport: name,
+          kind: 'full',
+          width: viewport.width,
+          height,
+          base64: full.toString('base64'),
+          mimeType: 'image/jpeg',
+          ...(scrollHeight > MAX_FULL_HEIGHT && { truncated: true })
+        });
+      } catch (error: any) {
+        if (error instanceof ProxyError) throw error;
+        throw new ProxyError(502, `Could not capture the ${name} viewport: ${error.message.split('\n')[0]}`);
+      } finally {
+        await context.close();
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+  return screenshots;
+}
+
+/**
+ * Connect-style handler serving `GET <mount>?url=<encoded target>` with a
+ * JSON body of `{ screenshots }`.
+ */
+export function createCaptureHandler(options: FetchProxyOptions = {}) {
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const target = new URL(req.url || '/', 'http://localhost').searchParams.get('url');
+    if (!target) {
+      if (next) return next();
+      return sendError(res, 400, 'Missing ?url= parameter');
+    }
+    try {
+      const body = JSON.stringify({ screenshots: await capturePage(target, options) });
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body), 'Access-Control-Allow-Origin': '*' });
+      res.end(body);
+    } catch (error: any) {
+      sendError(res, error instanceof ProxyError ? error.status : 500, error.message);
+    }
+  };
+}
+
+/** Mounts the screenshot endpoint on the Vite dev and preview servers. */
+export function pageCapturePlugin(options: FetchProxyOptions = {}, path = DEFAULT_CAPTURE_PATH): Plugin {
+  const handler = createCaptureHandler(options);
+  return {
+    name: 'visualsense-page-capture',
+    configureServer(server) {
+      server.middlewares.use(path, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(path, handler);
+    }
+  };
+}
@@ -0,0 +1,16 @@
+import http from 'node:http';
+import { createFetchProxyHandler, DEFAULT_PROXY_PATH, proxyOptionsFromEnv } from './fetchProxy.ts';
+import { createCaptureHandler, DEFAULT_CAPTURE_PATH } from './pageCapture.ts';
+
+const port = Number(process.env.PROXY_PORT) || 8787;
+const options = proxyOptionsFromEnv();
+const handler = createFetchProxyHandler(options);
+const capture = createCaptureHandler(options);
+
+http.createServer((req, res) => {
+  if (req.url?.startsWith(DEFAULT_PROXY_PATH)) return handler(req, res);
+  if (req.url?.startsWith(DEFAULT_CAPTURE_PATH)) return capture(req, res);
+  res.writeHead(404).end();
+}).listen(port, () => {
+  process.stderr.write(`Fetch proxy listening on http://localhost:${port}${DEFAULT_PROXY_PATH}?url=\n`);
+});
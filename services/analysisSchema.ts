@@ -0,0 +1,197 @@
+import { Type } from "@google/genai";
+import { AuditProfile, BrandRule, ProfileField, RegionCategory, RegionSeverity } from "../types.ts";
+
+export const REGION_CATEGORIES: RegionCategory[] = ['lighting', 'composition', 'cropping', 'background', 'focus', 'color', 'retouching', 'other'];
+export const REGION_SEVERITIES: RegionSeverity[] = ['low', 'medium', 'high'];
+
+const REGION_BOX_SCHEMA = {
+  type: Type.OBJECT,
+  description: 'Fractions (0-1) of the image width and height, from the top left',
+  properties: {
+    x: { type: Type.NUMBER },
+    y: { type: Type.NUMBER },
+    width: { type: Type.NUMBER },
+    height: { type: Type.NUMBER }
+  },
+  required: ["x", "y", "width", "height"]
+};
+
+export const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    images: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          dominantColors: { type: Type.ARRAY, items: { type: Type.STRING } },
+          composition: { type: Type.STRING },
+          lighting: { type: Type.STRING },
+          mood: { type: Type.STRING },
+          aesthetic: { type: Type.STRING },
+          qualityScore: { type: Type.NUMBER },
+          description: { type: Type.STRING },
+          howToImprove: { type: Type.STRING },
+          regions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                box: REGION_BOX_SCHEMA,
+                label: { type: Type.STRING },
+                category: { type: Type.STRING, enum: REGION_CATEGORIES },
+                severity: { type: Type.STRING, enum: REGION_SEVERITIES },
+                note: { type: Type.STRING }
+              },
+              required: ["box", "label", "category", "severity", "note"]
+            }
+          }
+        },
+        required: ["id", "dominantColors", "composition", "lighting", "mood", "aesthetic", "qualityScore", "description", "howToImprove", "regions"]
+      }
+    },
+    summary: {
+      type: Type.OBJECT,
+      properties: {
+        brandConsistency: { type: Type.NUMBER },
+        creativeStyle: { type: Type.STRING },
+        typographyNotes: { type: Type.STRING },
+        layoutAnalysis: { type: Type.STRING },
+        marketingActionables: { type: Type.ARRAY, items: { type: Type.STRING } },
+        overallAesthetic: { type: Type.STRING },
+        visualRoadmap: { type: Type.ARRAY, items: { type: Type.STRING } },
+        competitors: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+              visualTakeaway: { type: Type.STRING },
+              marketPosition: { type: Type.STRING }
+            },
+            required: ["name", "strengths", "visualTakeaway", "marketPosition"]
+          }
+        }
+      },
+      required: ["brandConsistency", "creativeStyle", "typographyNotes", "layoutAnalysis", "marketingActionables", "overallAesthetic", "visualRoadmap", "competitors"]
+    }
+  },
+  required: ["images", "summary"]
+};
+
+export interface SchemaNode {
+  type: Type;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  required?: string[];
+  description?: string;
+  enum?: string[];
+}
+
+function fieldNode(field: ProfileField): SchemaNode {
+  const node: SchemaNode = field.type === 'string[]'
+    ? { type: Type.ARRAY, items: { type: Type.STRING } }
+    : { type: { string: Type.STRING, number: Type.NUMBER, boolean: Type.BOOLEAN }[field.type] };
+  return { ...node, description: field.description };
+}
+
+/**
+ * `ANALYSIS_SCHEMA` extended for a profile: per-image `criteriaScores` when
+ * the profile defines criteria, `summary.profileFields` for its extra
+ * fields, and per-image `brandFindings` for the brand rules the model judges.
+ * Profiles without any get the base schema unchanged.
+ */
+export function buildAnalysisSchema(profile: AuditProfile, brandRules: BrandRule[] = []): SchemaNode {
+  const schema = structuredClone(ANALYSIS_SCHEMA) as SchemaNode;
+  const image = schema.properties!.images.items!;
+  const summary = schema.properties!.summary;
+  if (profile.criteria.length > 0) {
+    image.properties!.criteriaScores = {
+      type: Type.ARRAY,
+      description: 'One entry per criterion',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterion: { type: Type.STRING, enum: profile.criteria.map((c) => c.id) },
+          score: { type: Type.NUMBER },
+          note: { type: Type.STRING }
+        },
+        required: ["criterion", "score", "note"]
+      }
+    };
+    image.required = [...image.required!, "criteriaScores"];
+  }
+  if (profile.extraFields.length > 0) {
+    summary.properties!.profileFields = {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(profile.extraFields.map((f) => [f.name, fieldNode(f)])),
+      required: profile.extraFields.map((f) => f.name)
+    };
+    summary.required = [...summary.required!, "profileFields"];
+  }
+  if (brandRules.length > 0) {
+    image.properties!.brandFindings = {
+      type: Type.ARRAY,
+      description: 'One entry per brand rule',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          rule: { type: Type.STRING, enum: brandRules },
+          pass: { type: Type.BOOLEAN },
+          note: { type: Type.STRING }
+        },
+        required: ["rule", "pass", "note"]
+      }
+    };
+    image.required = [...image.required!, "brandFindings"];
+  }
+  return schema;
+}
+
+/** Reply shape for the screenshot review; annotations must name one of the screenshots sent. */
+export function buildLayoutSchema(screenshotIds: string[]): SchemaNode {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      typographyNotes: { type: Type.STRING },
+      layoutAnalysis: { type: Type.STRING },
+      hierarchyNotes: { type: Type.STRING },
+      annotations: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            screenshotId: { type: Type.STRING, enum: screenshotIds },
+            box: REGION_BOX_SCHEMA,
+            label: { type: Type.STRING },
+            kind: { type: Type.STRING, enum: ['issue', 'strength'] },
+            note: { type: Type.STRING }
+          },
+          required: ["screenshotId", "box", "label", "kind", "note"]
+        }
+      }
+    },
+    required: ["typographyNotes", "layoutAnalysis", "hierarchyNotes", "annotations"]
+  };
+}
+
+/**
+ * Converts the Gemini-flavoured schema (upper-case `Type` enum) into plain
+ * JSON Schema for providers that speak the OpenAI `json_schema` dialect.
+ */
+export function toJsonSchema(node: SchemaNode): Record<string, unknown> {
+  const out: Record<string, unknown> = { type: node.type.toLowerCase() };
+  if (node.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(node.properties).map(([key, child]) => [key, toJsonSchema(child)])
+    );
+    out.additionalProperties = false;
+  }
+  if (node.items) out.items = toJsonSchema(node.items);
+  if (node.required) out.required = node.required;
+  if (node.description) out.description = node.description;
+  if (node.enum) out.enum = node.enum;
+  return out;
+}
@@ -0,0 +1,350 @@
+import { Type } from "@google/genai";
+import { BrandRule, ImageAnalysis, RegionBox, RegionFinding, SiteSummary, ValidationIssue } from "../types.ts";
+import { ANALYSIS_SCHEMA, REGION_CATEGORIES, REGION_SEVERITIES, SchemaNode } from "./analysisSchema.ts";
+
+/** A brand rule verdict as the model returns it, before measured findings are merged in. */
+export interface ModelBrandFinding {
+  rule: BrandRule;
+  pass: boolean;
+  note: string;
+}
+
+export interface ModelOutput {
+  images: (Omit<ImageAnalysis, 'url'> & { brandFindings?: ModelBrandFinding[] })[];
+  summary: SiteSummary;
+}
+
+export interface ValidationExpectations {
+  imageCount: number;
+  /**
+   * Ids the input assets were labelled with. When given, entries are matched
+   * by id: unknown ids are dropped and ids without an entry are reported.
+   */
+  imageIds?: string[];
+  roadmapSteps?: number;
+  competitors?: number;
+  /** Criterion ids each image must be scored on. */
+  criteria?: string[];
+  /** Brand rule ids each image must be judged on. */
+  brandRules?: BrandRule[];
+  /** Schema the output must match; defaults to `ANALYSIS_SCHEMA`. */
+  schema?: SchemaNode;
+}
+
+export interface ValidationOutcome {
+  output: ModelOutput | null;
+  issues: ValidationIssue[];
+  /** True when no issue of severity `error` remains. */
+  valid: boolean;
+}
+
+export class AnalysisValidationError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super(`Model output failed validation: ${issues.filter((i) => i.severity === 'error').map((i) => `${i.path} ${i.message}`).slice(0, 3).join('; ')}`);
+  }
+}
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const RGB_PATTERN = /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})/i;
+
+/** Returns `#RRGGBB` for hex (3 or 6 digit) and `rgb()` inputs, otherwise null. */
+export function normalizeHexColor(color: string): string | null {
+  const value = color.trim();
+  const hex = value.match(HEX_PATTERN)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+    return `#${full.toUpperCase()}`;
+  }
+  const rgb = value.match(RGB_PATTERN);
+  if (rgb) {
+    const parts = rgb.slice(1, 4).map(Number);
+    if (parts.every((n) => n <= 255)) return `#${parts.map((n) => n.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+  return null;
+}
+
+/** Boxes smaller than this share of either side cannot be drawn usefully. */
+const MIN_BOX_SIDE = 0.01;
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Clamps a box to the image. Models sometimes answer in percent despite the
+ * schema, so a box with any side above 1 is read as 0-100.
+ */
+export function normalizeRegionBox(box: RegionBox): RegionBox | null {
+  const scale = [box.x, box.y, box.width, box.height].some((v) => v > 1) ? 100 : 1;
+  const x = clampUnit(box.x / scale);
+  const y = clampUnit(box.y / scale);
+  const width = Math.min(clampUnit(box.width / scale), 1 - x);
+  const height = Math.min(clampUnit(box.height / scale), 1 - y);
+  return width < MIN_BOX_SIDE || height < MIN_BOX_SIDE ? null : { x, y, width, height };
+}
+
+/**
+ * Checks a value against a schema node, coercing trivially wrong types
+ * (numeric strings, numbers where strings are expected). With `lenient`,
+ * missing strings and arrays are filled with empty values as warnings
+ * instead of errors.
+ */
+function checkNode(value: unknown, node: SchemaNode, path: string, issues: ValidationIssue[], lenient: boolean): unknown {
+  const fail = (message: string) => issues.push({ path, message, severity: 'error' });
+  const repaired = (message: string) => issues.push({ path, message, severity: 'repaired' });
+
+  switch (node.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        fail('must be an object');
+        return undefined;
+      }
+      const obj = value as Record<string, unknown>;
+      const out: Record<string, unknown> = { ...obj };
+      for (const [key, child] of Object.entries(node.properties || {})) {
+        const childPath = `${path}.${key}`;
+        if (obj[key] === undefined || obj[key] === null) {
+          if (!node.required?.includes(key)) continue;
+          const filler = child.type === Type.STRING ? '' : child.type === Type.ARRAY ? [] : undefined;
+          if (lenient && filler !== undefined) {
+            issues.push({ path: childPath, message: 'is missing; left empty', severity: 'warning' });
+            out[key] = filler;
+          } else {
+            issues.push({ path: childPath, message: 'is required', severity: 'error' });
+          }
+          continue;
+        }
+        out[key] = checkNode(obj[key], child, childPath, issues, lenient);
+      }
+      return out;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        if (typeof value === 'string' && node.items?.type === Type.STRING) {
+          repaired('was a string; wrapped in an array');
+          return [value];
+        }
+        fail('must be an array');
+        return [];
+      }
+      return value
+        .map((item, idx) => checkNode(item, node.items!, `${path}[${idx}]`, issues, lenient))
+        .filter((item) => item !== undefined);
+    }
+    case Type.NUMBER: {
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+      if (Number.isFinite(parsed)) {
+        repaired(`was "${value}"; parsed as ${parsed}`);
+        return parsed;
+      }
+      fail('must be a number');
+      return undefined;
+    }
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        repaired(`was "${value}"; parsed as a boolean`);
+        return value === 'true';
+      }
+      fail('must be a boolean');
+      return undefined;
+    }
+    case Type.STRING: {
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        repaired('was not a string; converted');
+        return String(value);
+      }
+      fail('must be a string');
+      return undefined;
+    }
+    default:
+      return value;
+  }
+}
+
+/** Schema-only check for replies other than the main audit, e.g. the screenshot review. */
+export function validateAgainstSchema<T>(raw: unknown, schema: SchemaNode, lenient = false): { output: T | undefined; issues: ValidationIssue[]; valid: boolean } {
+  const issues: ValidationIssue[] = [];
+  const output = checkNode(raw, schema, '$', issues, lenient) as T | undefined;
+  return { output, issues, valid: output !== undefined && !issues.some((i) => i.severity === 'error') };
+}
+
+function normalizeScore(value: number, path: string, issues: ValidationIssue[]): number {
+  let score = value;
+  // Some models answer on a 0-1 scale despite the prompt.
+  if (score > 0 && score < 1) {
+    score = Math.round(score * 100);
+    issues.push({ path, message: `was ${value}; rescaled to ${score}`, severity: 'repaired' });
+  }
+  if (score < 0 || score > 100) {
+    const clamped = Math.min(100, Math.max(0, score));
+    issues.push({ path, message: `was ${score}; clamped to ${clamped}`, severity: 'repaired' });
+    score = clamped;
+  }
+  return Math.round(score);
+}
+
+/** Reply index of each entry left in `images` after `checkNode` dropped those that are not objects. */
+function replyIndices(raw: unknown): number[] {
+  const images = (raw as { images?: unknown } | null)?.images;
+  if (!Array.isArray(images)) return [];
+  return images.flatMap((item, index) => (item && typeof item === 'object' && !Array.isArray(item) ? [index] : []));
+}
+
+/**
+ * Validates and repairs parsed model output against `ANALYSIS_SCHEMA` plus
+ * the semantic rules the types imply: 0-100 scores, hex palettes, unique ids
+ * and the item counts the prompt asked for.
+ */
+export function validateModelOutput(raw: unknown, expect: ValidationExpectations, lenient = false): ValidationOutcome {
+  const issues: ValidationIssue[] = [];
+  const checked = checkNode(raw, expect.schema || ANALYSIS_SCHEMA, '$', issues, lenient) as ModelOutput | undefined;
+  const finish = (output: ModelOutput | null): ValidationOutcome => ({
+    output,
+    issues,
+    valid: output !== null && !issues.some((i) => i.severity === 'error')
+  });
+  if (!checked?.summary || !Array.isArray(checked.images)) return finish(null);
+
+  const { summary } = checked;
+  const seenIds = new Set<string>();
+  const knownIds = expect.imageIds && new Set(expect.imageIds);
+  // Issue paths keep the index the entry had in the reply, before any were dropped.
+  const indices = replyIndices(raw);
+  checked.images = checked.images
+    .map((img, position) => ({ img, index: indices[position] ?? position }))
+    .filter(({ img }) => img && typeof img === 'object' && typeof img.qualityScore === 'number')
+    .filter(({ img, index }) => {
+      if (!knownIds) return true;
+      const id = img.id?.trim();
+      if (!id || !knownIds.has(id)) {
+        issues.push({ path: `$.images[${index}].id`, message: `${id ? `"${id}" matches no input image` : 'is empty'}; entry dropped`, severity: 'repaired' });
+        return false;
+      }
+      if (seenIds.has(id)) {
+        issues.push({ path: `$.images[${index}].id`, message: `duplicate "${id}"; entry dropped`, severity: 'repaired' });
+        return false;
+      }
+      seenIds.add(id);
+      return true;
+    })
+    .map(({ img, index }, idx) => {
+      const path = `$.images[${index}]`;
+      let id = img.id?.trim() || '';
+      if (!knownIds && (!id || seenIds.has(id))) {
+        const replacement = String(idx + 1);
+        issues.push({ path: `${path}.id`, message: `${id ? `duplicate "${id}"` : 'empty'}; reassigned "${replacement}"`, severity: 'repaired' });
+        id = replacement;
+      }
+      seenIds.add(id);
+
+      const colors = (img.dominantColors || []).map((c) => normalizeHexColor(c));
+      if (colors.some((c) => c === null)) {
+        issues.push({ path: `${path}.dominantColors`, message: 'contained non-hex values; dropped them', severity: 'repaired' });
+      }
+      const dominantColors = colors.filter((c): c is string => c !== null);
+      if (dominantColors.length === 0) {
+        issues.push({ path: `${path}.dominantColors`, message: 'has no valid hex colors', severity: 'warning' });
+      }
+
+      let criteriaScores = img.criteriaScores;
+      if (expect.criteria?.length && criteriaScores) {
+        criteriaScores = criteriaScores
+          .filter((s) => {
+            if (expect.criteria!.includes(s.criterion)) return true;
+            issues.push({ path: `${path}.criteriaScores`, message: `unknown criterion "${s.criterion}"; dropped`, severity: 'repaired' });
+            return false;
+          })
+          .map((s, si) => ({ ...s, score: normalizeScore(s.score, `${path}.criteriaScores[${si}].score`, issues) }));
+        const missing = expect.criteria.filter((c) => !criteriaScores!.some((s) => s.criterion === c));
+        if (missing.length > 0) {
+          issues.push({ path: `${path}.criteriaScores`, message: `has no score for ${missing.join(', ')}`, severity: 'warning' });
+        }
+      }
+
+      let brandFindings = img.brandFindings;
+      if (expect.brandRules?.length && brandFindings) {
+        brandFindings = brandFindings.filter((f) => {
+          if (expect.brandRules!.includes(f.rule)) return true;
+          issues.push({ path: `${path}.brandFindings`, message: `unknown rule "${f.rule}"; dropped`, severity: 'repaired' });
+          return false;
+        });
+        const missing = expect.brandRules.filter((r) => !brandFindings!.some((f) => f.rule === r));
+        if (missing.length > 0) {
+          issues.push({ path: `${path}.brandFindings`, message: `has no finding for ${missing.join(', ')}`, severity: 'warning' });
+        }
+      }
+
+      const regions = img.regions
+        ?.map((region, ri) => {
+          const box = region.box && normalizeRegionBox(region.box);
+          if (!box) {
+            issues.push({ path: `${path}.regions[${ri}].box`, message: 'is outside the image or too small; region dropped', severity: 'repaired' });
+            return null;
+          }
+          return {
+            ...region,
+            box,
+            category: REGION_CATEGORIES.includes(region.category) ? region.category : 'other',
+            severity: REGION_SEVERITIES.includes(region.severity) ? region.severity : 'medium'
+          };
+        })
+        .filter((region): region is RegionFinding => region !== null);
+
+      return {
+        ...img,
+        id,
+        dominantColors,
+        ...(regions && { regions }),
+        qualityScore: normalizeScore(img.qualityScore, `${path}.qualityScore`, issues),
+        ...(criteriaScores && { criteriaScores }),
+        ...(brandFindings && { brandFindings })
+      };
+    });
+
+  if (expect.imageIds) {
+    const analyzed = new Set(checked.images.map((img) => img.id));
+    const missing = expect.imageIds.filter((id) => !analyzed.has(id));
+    if (missing.length > 0) {
+      issues.push({ path: '$.images', message: `has no entry for ${missing.map((id) => `"${id}"`).join(', ')}; not analyzed`, severity: lenient ? 'warning' : 'error' });
+    }
+  } else if (checked.images.length > expect.imageCount) {
+    issues.push({ path: '$.images', message: `has ${checked.images.length} entries for ${expect.imageCount} images; extras dropped`, severity: 'repaired' });
+    checked.images = checked.images.slice(0, expect.imageCount);
+  } else if (checked.images.length < expect.imageCount) {
+    issues.push({ path: '$.images', message: `has ${checked.images.length} entries for ${expect.imageCount} images`, severity: lenient ? 'warning' : 'error' });
+  }
+
+  if (typeof summary.brandConsistency === 'number') {
+    summary.brandConsistency = normalizeScore(summary.brandConsistency, '$.summary.brandConsistency', issues);
+  }
+  if (expect.roadmapSteps && summary.visualRoadmap?.length !== expect.roadmapSteps) {
+    issues.push({ path: '$.summary.visualRoadmap', message: `has ${summary.visualRoadmap?.length ?? 0} steps, expected ${expect.roadmapSteps}`, severity: 'warning' });
+  }
+  if (expect.competitors && summary.competitors?.length !== expect.competitors) {
+    issues.push({ path: '$.summary.competitors', message: `has ${summary.competitors?.length ?? 0} entries, expected ${expect.competitors}`, severity: 'warning' });
+  }
+  if (summary.marketingActionables?.length === 0) {
+    issues.push({ path: '$.summary.marketingActionables', message: 'is empty', severity: 'warning' });
+  }
+
+  return finish(checked);
+}
+
+/** Follow-up prompt asking the model to fix the issues in its previous reply. */
+export function buildRepairPrompt(originalPrompt: string, previousText: string, issues: ValidationIssue[]): string {
+  const problems = issues
+    .filter((i) => i.severity === 'error')
+    .map((i) => `- ${i.path} ${i.message}`)
+    .join('\n');
+  return `${originalPrompt}
+
+    Your previous response did not match the required schema:
+${problems}
+
+    Previous response:
+    ${previousText.slice(0, 4000)}
+
+    Return the complete corrected JSON only.
+  `;
+}
@@ -0,0 +1,230 @@
+import { AuditProgressEvent, CacheKind } from "../types.ts";
+import { VisionProvider, VisionRequest, VisionResponse } from "./visionProvider.ts";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * How long an entry is used without asking again. Pages change most often;
+ * a stale page or image with an ETag is revalidated rather than refetched.
+ */
+export const CACHE_TTLS: Record<CacheKind, number> = { page: HOUR, image: 7 * DAY, analysis: 30 * DAY };
+
+export interface CacheRecord {
+  /** Epoch milliseconds of the last fetch or successful revalidation. */
+  storedAt: number;
+  etag?: string;
+  value: unknown;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheRecord | undefined>;
+  set(key: string, record: CacheRecord): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheOptions {
+  /** Ignore cached entries and refresh them; fresh results are still stored. */
+  fresh?: boolean;
+  /** Receives a `cache` event for every lookup. */
+  onProgress?: (event: AuditProgressEvent) => void;
+  /** Cached separately from other variants of the same URL, e.g. the mobile page. */
+  variant?: string;
+}
+
+export function createMemoryCacheStore(): CacheStore {
+  const records = new Map<string, CacheRecord>();
+  return {
+    get: async (key) => records.get(key),
+    set: async (key, record) => {
+      records.set(key, record);
+    },
+    clear: async () => records.clear()
+  };
+}
+
+const DB_NAME = 'visualsense-cache';
+const STORE_NAME = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Browser cache in its own IndexedDB database, so it can be dropped without touching history. */
+export function createIndexedDbCacheStore(): CacheStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      db = promisify(request);
+    }
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async get(key) {
+      return promisify((await store('readonly')).get(key));
+    },
+    async set(key, record) {
+      await promisify((await store('readwrite')).put(record, key));
+    },
+    async clear() {
+      await promisify((await store('readwrite')).clear());
+    }
+  };
+}
+
+let activeStore: CacheStore | null = null;
+
+/**
+ * Replaces where cache entries live. Defaults to IndexedDB in the browser and
+ * to memory elsewhere; the CLI keeps them on disk.
+ */
+export function setCacheStore(store: CacheStore): void {
+  activeStore = store;
+}
+
+function cacheStore(): CacheStore {
+  activeStore ??= typeof indexedDB !== 'undefined' ? createIndexedDbCacheStore() : createMemoryCacheStore();
+  return activeStore;
+}
+
+// The cache is an optimisation; a full or unavailable store must not fail the audit.
+async function read(key: string): Promise<CacheRecord | undefined> {
+  try {
+    return await cacheStore().get(key);
+  } catch {
+    return undefined;
+  }
+}
+
+async function write(key: string, value: unknown, etag?: string): Promise<void> {
+  try {
+    await cacheStore().set(key, { storedAt: Date.now(), ...(etag && { etag }), value });
+  } catch {}
+}
+
+const isFresh = (record: CacheRecord, kind: CacheKind) => Date.now() - record.storedAt < CACHE_TTLS[kind];
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * A page or image by URL: served from the cache within its TTL, revalidated
+ * with `If-None-Match` when a stale copy has an ETag, and otherwise fetched.
+ * `decode` turns a fetched response into the stored value and throws for
+ * unusable responses, which are not cached.
+ */
+export async function cachedFetch<T>(
+  kind: 'page' | 'image',
+  url: string,
+  load: (init: RequestInit) => Promise<Response>,
+  decode: (response: Response) => Promise<T>,
+  options: CacheOptions = {}
+): Promise<T> {
+  const key = `${kind}:${url}${options.variant ? `#${options.variant}` : ''}`;
+  const cached = options.fresh ? undefined : await read(key);
+  if (cached && isFresh(cached, kind)) {
+    options.onProgress?.({ type: 'cache', kind, hit: true, url });
+    return cached.value as T;
+  }
+
+  const response = await load(cached?.etag ? { headers: { 'If-None-Match': cached.etag } } : {});
+  if (cached && response.status === 304) {
+    await write(key, cached.value, cached.etag);
+    options.onProgress?.({ type: 'cache', kind, hit: true, url });
+    return cached.value as T;
+  }
+  options.onProgress?.({ type: 'cache', kind, hit: false, url });
+  const value = await decode(response);
+  await write(key, value, response.headers.get('etag') || undefined);
+  return value;
+}
+
+/**
+ * An encoded image by URL. The URL maps to the SHA-256 of the image, and the
+ * image itself is stored once under that hash however many URLs serve it.
+ */
+export async function cachedImage(
+  url: string,
+  load: (init: RequestInit) => Promise<Response>,
+  decode: (response: Response) => Promise<{ base64: string; mimeType: string }>,
+  options: CacheOptions = {}
+): Promise<{ base64: string; mimeType: string; hash: string }> {
+  let fetched: { base64: string; mimeType: string } | undefined;
+  const lookup = async (opts: CacheOptions) => {
+    const { hash } = await cachedFetch('image', url, load, async (response) => {
+      fetched = await decode(response);
+      const digest = await sha256Hex(fetched.base64);
+      await write(`asset:${digest}`, fetched);
+      return { hash: digest };
+    }, opts);
+    const asset = fetched ?? ((await read(`asset:${hash}`))?.value as typeof fetched);
+    return asset && { ...asset, hash };
+  };
+  // The URL entry can outlive the stored image; fetch the image again then.
+  return (await lookup(options)) ?? (await lookup({ ...options, fresh: true, onProgress: undefined }))!;
+}
+
+/**
+ * A model reply keyed by the prompt version, provider, model, request text,
+ * schema and the hashes of every image sent. A hit is replayed through
+ * `onText` so streaming consumers see it too. Only replies that `accept`
+ * passes are stored or replayed, so a reply that fails validation is asked
+ * for again on the next run instead of failing the same way from the cache.
+ */
+async function analysisKey(provider: VisionProvider, request: VisionRequest, promptVersion?: string): Promise<string> {
+  const hashes = (images: { base64: string }[]) => Promise.all(images.map((img) => sha256Hex(img.base64)));
+  return `analysis:${await sha256Hex(JSON.stringify({
+    promptVersion,
+    provider: provider.id,
+    model: provider.model,
+    temperature: request.temperature,
+    prompt: request.prompt,
+    schema: request.schema,
+    images: await hashes(request.images),
+    references: await hashes((request.references || []).map((r) => r.image))
+  }))}`;
+}
+
+/** Whether {@link cachedGenerate} would answer this request from the cache. */
+export async function hasCachedReply(provider: VisionProvider, request: VisionRequest, promptVersion?: string): Promise<boolean> {
+  const cached = await read(await analysisKey(provider, request, promptVersion));
+  return Boolean(cached && isFresh(cached, 'analysis'));
+}
+
+export async function cachedGenerate(
+  provider: VisionProvider,
+  request: VisionRequest,
+  options: CacheOptions & { promptVersion?: string; accept?: (text: string) => boolean } = {}
+): Promise<VisionResponse> {
+  const accept = options.accept ?? isJson;
+  const key = await analysisKey(provider, request, options.promptVersion);
+  const cached = options.fresh ? undefined : await read(key);
+  if (cached && isFresh(cached, 'analysis') && accept((cached.value as VisionResponse).text)) {
+    options.onProgress?.({ type: 'cache', kind: 'analysis', hit: true });
+    const response = cached.value as VisionResponse;
+    request.onText?.(response.text);
+    return { ...response, cached: true };
+  }
+  options.onProgress?.({ type: 'cache', kind: 'analysis', hit: false });
+  const response = await provider.generate(request);
+  if (accept(response.text)) await write(key, response);
+  return response;
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,162 @@
+import { AnalysisResult, AuditDiff, ImageAnalysis, ImageDiff, ScoreDelta } from "../types.ts";
+import { SIMILAR_HASH_DISTANCE, computePerceptualHash, hammingDistance } from "./imageHash.ts";
+
+/** RGB distance under which two palette entries count as the same colour. */
+const SAME_COLOR_DISTANCE = 30;
+/** Word-overlap ratio at which two roadmap items count as the same recommendation. */
+const SAME_ITEM_SIMILARITY = 0.5;
+
+function scoreDelta(before: number, after: number): ScoreDelta {
+  return { before, after, delta: after - before };
+}
+
+function averageQuality(result: AnalysisResult): number {
+  const analyzed = result.images.filter((img) => !img.notAnalyzed);
+  return Math.round(analyzed.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(analyzed.length, 1));
+}
+
+export function parseHex(color: string): [number, number, number] | null {
+  let hex = color.trim().replace(/^#/, '');
+  if (hex.length === 3) hex = hex.split('').map((c) => c + c).join('');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function sameColor(a: string, b: string): boolean {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  if (!ca || !cb) return a.toLowerCase() === b.toLowerCase();
+  return Math.hypot(ca[0] - cb[0], ca[1] - cb[1], ca[2] - cb[2]) < SAME_COLOR_DISTANCE;
+}
+
+function diffColors(before: string[], after: string[]) {
+  return {
+    added: after.filter((c) => !before.some((b) => sameColor(b, c))),
+    removed: before.filter((c) => !after.some((a) => sameColor(a, c))),
+    kept: after.filter((c) => before.some((b) => sameColor(b, c)))
+  };
+}
+
+function uniqueColors(result: AnalysisResult): string[] {
+  const colors: string[] = [];
+  result.images.flatMap((img) => img.dominantColors).forEach((c) => {
+    if (!colors.some((existing) => sameColor(existing, c))) colors.push(c.toUpperCase());
+  });
+  return colors;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 3));
+}
+
+function similarity(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  const shared = [...wa].filter((w) => wb.has(w)).length;
+  return shared / Math.max(new Set([...wa, ...wb]).size, 1);
+}
+
+function stripQuery(url: string): string {
+  return url.split('?')[0];
+}
+
+/**
+ * Pairs images across two audits: exact URL, then URL without query string
+ * (CDN cache busters), then perceptual hash, then identical bytes.
+ */
+function matchImages(before: ImageAnalysis[], after: ImageAnalysis[]): ImageDiff[] {
+  const unmatchedBefore = new Set(before.map((_, idx) => idx));
+  const pairs: { b: number; a: number; by: ImageDiff['matchedBy'] }[] = [];
+
+  const matchers: { by: ImageDiff['matchedBy']; score: (b: ImageAnalysis, a: ImageAnalysis) => number | null }[] = [
+    { by: 'url', score: (b, a) => (b.url === a.url ? 0 : null) },
+    { by: 'url', score: (b, a) => (stripQuery(b.url) === stripQuery(a.url) ? 0 : null) },
+    {
+      by: 'perceptual-hash',
+      score: (b, a) => {
+        if (!b.perceptualHash || !a.perceptualHash) return null;
+        const distance = hammingDistance(b.perceptualHash, a.perceptualHash);
+        return distance <= SIMILAR_HASH_DISTANCE ? distance : null;
+      }
+    },
+    { by: 'content', score: (b, a) => (b.base64 && b.base64 === a.base64 ? 0 : null) }
+  ];
+
+  const unmatchedAfter = new Set(after.map((_, idx) => idx));
+  for (const matcher of matchers) {
+    for (const a of Array.from(unmatchedAfter)) {
+      let best: { b: number; score: number } | null = null;
+      for (const b of unmatchedBefore) {
+        const score = matcher.score(before[b], after[a]);
+        if (score !== null && (!best || score < best.score)) best = { b, score };
+      }
+      if (best) {
+        pairs.push({ b: best.b, a, by: matcher.by });
+        unmatchedBefore.delete(best.b);
+        unmatchedAfter.delete(a);
+      }
+    }
+  }
+
+  return [
+    ...pairs.map(({ b, a, by }) => {
+      const colors = diffColors(before[b].dominantColors, after[a].dominantColors);
+      return {
+        status: 'matched' as const,
+        matchedBy: by,
+        beforeUrl: before[b].url,
+        afterUrl: after[a].url,
+        quality: before[b].notAnalyzed || after[a].notAnalyzed ? undefined : scoreDelta(before[b].qualityScore, after[a].qualityScore),
+        colorsAdded: colors.added,
+        colorsRemoved: colors.removed
+      };
+    }),
+    ...Array.from(unmatchedBefore, (b) => ({
+      status: 'removed' as const,
+      beforeUrl: before[b].url,
+      colorsAdded: [],
+      colorsRemoved: before[b].dominantColors
+    })),
+    ...Array.from(unmatchedAfter, (a) => ({
+      status: 'added' as const,
+      afterUrl: after[a].url,
+      colorsAdded: after[a].dominantColors,
+      colorsRemoved: []
+    }))
+  ];
+}
+
+/** Compares two audits of the same page; `before` is the older one. */
+export function diffAudits(
+  before: AnalysisResult,
+  after: AnalysisResult,
+  savedAt: { before?: string; after?: string } = {}
+): AuditDiff {
+  const beforeRoadmap = before.summary.visualRoadmap || [];
+  const afterRoadmap = after.summary.visualRoadmap || [];
+  const persistsIn = (item: string, list: string[]) => list.some((other) => similarity(item, other) >= SAME_ITEM_SIMILARITY);
+
+  return {
+    url: after.url,
+    before: { url: before.url, model: before.model, savedAt: savedAt.before },
+    after: { url: after.url, model: after.model, savedAt: savedAt.after },
+    brandConsistency: scoreDelta(before.summary.brandConsistency, after.summary.brandConsistency),
+    averageQuality: scoreDelta(averageQuality(before), averageQuality(after)),
+    images: matchImages(before.images, after.images),
+    palette: diffColors(uniqueColors(before), uniqueColors(after)),
+    roadmap: {
+      resolved: beforeRoadmap.filter((item) => !persistsIn(item, afterRoadmap)),
+      persisted: beforeRoadmap.filter((item) => persistsIn(item, afterRoadmap)),
+      introduced: afterRoadmap.filter((item) => !persistsIn(item, beforeRoadmap))
+    }
+  };
+}
+
+/** Fills in perceptual hashes for audits saved before hashing existed. */
+export async function withPerceptualHashes(result: AnalysisResult): Promise<AnalysisResult> {
+  const images = await Promise.all(result.images.map(async (img) => ({
+    ...img,
+    perceptualHash: img.perceptualHash ?? (img.base64 ? await computePerceptualHash(img.base64, img.mimeType || 'image/jpeg') : undefined)
+  })));
+  return { ...result, images };
+}
@@ -0,0 +1,338 @@
+import { AnalysisResult, AuditProgressEvent, DeviceKind, ImagePreprocessing } from "../types.ts";
+import { AnalyzeOptions, analyzeProductPage, encodeImageResponse, fetchViaProxy, readPageResponse } from "./geminiService.ts";
+import { cachedFetch, cachedImage } from "./auditCache.ts";
+import { ExtractOptions, ImageCandidate, extractImageCandidates } from "./imageExtraction.ts";
+import { EncodedImage, getProvider } from "./visionProvider.ts";
+import { base64ToBytes, computePerceptualHash } from "./imageHash.ts";
+import { computeImageMetrics, withPublishedSize } from "./imageMetrics.ts";
+import { PreprocessOptions, SUPPORTED_IMAGE_TYPES, preprocessImages } from "./imagePreprocess.ts";
+import { measureBrandRules, scoreBrandCompliance, summarizeBrandCompliance } from "./brandGuide.ts";
+import { capturePageScreenshots } from "./screenshotCapture.ts";
+import { reviewLayout } from "./layoutReview.ts";
+import { mergeUsage } from "./usageAccounting.ts";
+import { DEVICES, DEVICE_PROFILES, compareDeviceVariants } from "./deviceVariants.ts";
+
+export interface AuditPageOptions extends AnalyzeOptions {
+  extract?: ExtractOptions;
+  /** Already-fetched page HTML, e.g. from a crawl, to skip the fetch step. */
+  html?: string;
+  /** Also screenshot the page in a headless browser for a layout and typography review. */
+  captureLayout?: boolean;
+  /** Maximum edge and duplicate handling for the assets sent to the model. */
+  preprocess?: PreprocessOptions;
+  /** Fetch the page as a desktop and a mobile browser, audit both image sets and compare them. */
+  compareDevices?: boolean;
+  onStatus?: (message: string) => void;
+  onCandidates?: (candidates: ImageCandidate[]) => void;
+  onAssetRejected?: (url: string, reason: string) => void;
+}
+
+/** Everything one audit run knows so far; each stage reads it and fills in its part. */
+export interface AuditContext {
+  /** The audited page, or the `upload://` subject of an upload. */
+  url: string;
+  options: AuditPageOptions;
+  html?: string;
+  /** Each device's page and candidates, when the audit compares devices; `html` is the desktop page. */
+  variants?: { device: DeviceKind; html: string; candidates: ImageCandidate[] }[];
+  /** Candidates of every variant, each listed once with the devices it was found on. */
+  candidates: ImageCandidate[];
+  /** Encoded assets; labelled `asset-1`, `asset-2`, ... once analysis starts. */
+  images: EncodedImage[];
+  /** Assets as downloaded, by URL, where preprocessing changed them; their file size is the one reported. */
+  originals: Record<string, EncodedImage>;
+  /** What preprocessing did to each asset, by URL. */
+  preprocessing: Record<string, ImagePreprocessing>;
+  /** Upright pixel size of each asset before downscaling, by URL. */
+  sizes: Record<string, { width: number; height: number }>;
+  /** Set by the analyze stage; later stages replace it with refined copies. */
+  result?: AnalysisResult;
+  status: (message: string) => void;
+  progress: (event: AuditProgressEvent) => void;
+}
+
+/** The built-in stages, in the order they run. */
+export type CoreStage = 'fetch' | 'extract' | 'encode' | 'preprocess' | 'analyze' | 'postprocess';
+
+/** An additional stage, run right after a core stage. */
+export interface AuditStage {
+  name: string;
+  after: CoreStage;
+  run(context: AuditContext): Promise<void> | void;
+}
+
+const CORE_STAGES: { name: CoreStage; run(context: AuditContext): Promise<void> | void }[] = [
+  {
+    name: 'fetch',
+    async run(context) {
+      const { signal, fresh, onProgress, compareDevices } = context.options;
+      if (compareDevices) {
+        context.variants = [];
+        for (const device of DEVICES) {
+          // A crawl has already fetched the desktop page.
+          if (device === 'desktop' && context.html !== undefined) {
+            context.variants.push({ device, html: context.html, candidates: [] });
+            continue;
+          }
+          context.status(`Fetching the ${DEVICE_PROFILES[device].label.toLowerCase()} page...`);
+          const html = await cachedFetch('page', context.url, (init) => fetchViaProxy(context.url, { ...init, signal }, device), readPageResponse, { fresh, onProgress, variant: device });
+          context.progress({ type: 'page-fetched', url: context.url, bytes: html.length });
+          context.variants.push({ device, html, candidates: [] });
+        }
+        context.html = context.variants.find((v) => v.device === 'desktop')!.html;
+        return;
+      }
+      if (context.html !== undefined) return;
+      context.status('Initiating secure proxy tunnel...');
+      context.html = await cachedFetch('page', context.url, (init) => fetchViaProxy(context.url, { ...init, signal }), readPageResponse, { fresh, onProgress });
+      context.progress({ type: 'page-fetched', url: context.url, bytes: context.html.length });
+    }
+  },
+  {
+    name: 'extract',
+    run(context) {
+      context.status('Scanning for high-res hero assets...');
+      context.candidates = context.variants ? mergeVariantCandidates(context) : extractImageCandidates(context.html || '', context.url, context.options.extract);
+      context.options.onCandidates?.(context.candidates);
+      context.progress({ type: 'candidates-found', url: context.url, count: context.candidates.length });
+      if (context.candidates.length === 0) throw new Error("Target site is aggressively blocking standard crawlers.");
+    }
+  },
+  {
+    name: 'encode',
+    async run(context) {
+      const { signal, fresh, onProgress } = context.options;
+      context.status(`Decoding ${context.candidates.length} assets for AI context...`);
+      const encoded = await Promise.all(
+        context.candidates.map(async ({ url }): Promise<EncodedImage | null> => {
+          try {
+            const { hash, ...image } = await cachedImage(url, (init) => fetchViaProxy(url, { ...init, signal }), encodeImageResponse, { fresh, onProgress });
+            context.progress({ type: 'asset-downloaded', url, bytes: Math.floor((image.base64.length * 3) / 4), mimeType: image.mimeType });
+            return { url, ...image };
+          } catch (e: any) {
+            if (signal?.aborted) throw e;
+            context.options.onAssetRejected?.(url, e.message);
+            context.progress({ type: 'asset-rejected', url, reason: e.message });
+            return null;
+          }
+        })
+      );
+      context.images = encoded.filter((i): i is EncodedImage => i !== null);
+      if (context.images.length === 0) throw new Error("CORS Barrier detected: Site security settings prevent high-res image extraction for audit.");
+    }
+  },
+  {
+    name: 'preprocess',
+    async run(context) {
+      const { options } = context;
+      context.status(`Preparing ${context.images.length} assets (conversion, downscaling, duplicates)...`);
+      const prepared = await preprocessImages(context.images, {
+        ...options.preprocess,
+        onRejected: (url, reason) => {
+          options.onAssetRejected?.(url, reason);
+          context.progress({ type: 'asset-rejected', url, reason });
+        }
+      });
+      context.images = prepared.images;
+      context.originals = prepared.originals;
+      context.preprocessing = prepared.preprocessing;
+      context.sizes = prepared.sizes;
+      if (context.images.length === 0) throw new Error("None of the assets are in a format that could be prepared for the audit.");
+    }
+  },
+  {
+    name: 'analyze',
+    async run(context) {
+      const { options } = context;
+      context.images = context.images.map((img, idx) => ({ ...img, id: `asset-${idx + 1}` }));
+      context.status(`${getProvider(options.providerId).label} is generating audit...`);
+      context.result = await analyzeProductPage(context.url, context.images, {
+        providerId: options.providerId,
+        subject: options.subject,
+        profile: options.profile,
+        brandGuide: options.brandGuide,
+        signal: options.signal,
+        fresh: options.fresh,
+        onProgress: options.onProgress
+      });
+    }
+  },
+  {
+    // Local measurements (perceptual hash, image metrics, measured brand rules) joined to each analysis.
+    // Pixels are measured on what the model saw, upright and without metadata; pixel and file size
+    // describe the asset as published, unless it was in a format that had to be converted.
+    name: 'postprocess',
+    async run(context) {
+      const { images, originals, preprocessing, sizes, candidates } = context;
+      const result = context.result!;
+      const hashes = await Promise.all(images.map((img) => computePerceptualHash(img.base64, img.mimeType)));
+      const metrics = await Promise.all(images.map(async (img) => {
+        const measured = await computeImageMetrics(img.base64, img.mimeType);
+        const original = originals[img.url];
+        const fileSize = original && SUPPORTED_IMAGE_TYPES.includes(original.mimeType) ? base64ToBytes(original.base64).length : measured.fileSizeBytes;
+        return sizes[img.url] ? withPublishedSize(measured, sizes[img.url], fileSize) : measured;
+      }));
+
+      const guide = result.brandGuide;
+      const analyses = result.images.map((img) => {
+        const idx = images.findIndex((v) => v.id === img.id);
+        if (idx === -1) return img;
+        return {
+          ...img,
+          url: images[idx].url,
+          base64: images[idx].base64,
+          mimeType: images[idx].mimeType,
+          perceptualHash: hashes[idx],
+          metrics: metrics[idx],
+          ...(preprocessing[images[idx].url] && { preprocessing: preprocessing[images[idx].url] }),
+          ...(context.variants && { devices: devicesOf(candidates, [images[idx].url, ...(preprocessing[images[idx].url]?.duplicateUrls || [])]) }),
+          ...(guide && img.brandCompliance && {
+            brandCompliance: scoreBrandCompliance(guide, measureBrandRules(metrics[idx], guide), img.brandCompliance.findings)
+          })
+        };
+      });
+
+      context.result = {
+        ...result,
+        images: analyses,
+        ...(guide && { brandComplianceSummary: summarizeBrandCompliance({ images: analyses }, guide) })
+      };
+    }
+  }
+];
+
+/**
+ * Extracts each device variant's candidates for its viewport and merges them
+ * rank by rank, so every device's hero comes first. Each variant keeps up to
+ * `maxCandidates` of its own.
+ */
+function mergeVariantCandidates(context: AuditContext): ImageCandidate[] {
+  const merged = new Map<string, ImageCandidate>();
+  const variants = context.variants!;
+  variants.forEach((variant) => {
+    variant.candidates = extractImageCandidates(variant.html, context.url, { ...context.options.extract, viewportWidth: DEVICE_PROFILES[variant.device].viewport.width });
+  });
+  for (let rank = 0; rank < Math.max(...variants.map((v) => v.candidates.length)); rank++) {
+    variants.forEach(({ device, candidates }) => {
+      const candidate = candidates[rank];
+      if (!candidate) return;
+      const existing = merged.get(candidate.url);
+      if (existing) existing.devices!.push(device);
+      else merged.set(candidate.url, { ...candidate, devices: [device] });
+    });
+  }
+  return Array.from(merged.values());
+}
+
+/** Devices whose variant showed any of these URLs, in device order. */
+function devicesOf(candidates: ImageCandidate[], urls: string[]): DeviceKind[] {
+  const found = new Set(candidates.filter((c) => urls.includes(c.url)).flatMap((c) => c.devices || []));
+  return DEVICES.filter((device) => found.has(device));
+}
+
+const stages: AuditStage[] = [];
+
+/**
+ * Adds a stage to every audit, or replaces the one with the same name.
+ * Stages after the same core stage run in registration order.
+ */
+export function registerStage(stage: AuditStage): void {
+  const existing = stages.findIndex((s) => s.name === stage.name);
+  if (existing === -1) stages.push(stage);
+  else stages[existing] = stage;
+}
+
+export function listStages(): AuditStage[] {
+  return [...stages];
+}
+
+/**
+ * Runs the core stages from `from` onwards, each followed by the stages
+ * registered after it, and returns the finished result. The signal is
+ * checked between stages so a cancelled audit stops at the next boundary.
+ */
+export async function runAuditPipeline(context: AuditContext, from: CoreStage = 'fetch'): Promise<AnalysisResult> {
+  const start = CORE_STAGES.findIndex((s) => s.name === from);
+  for (const core of CORE_STAGES.slice(start)) {
+    context.options.signal?.throwIfAborted();
+    await core.run(context);
+    for (const stage of stages.filter((s) => s.after === core.name)) {
+      context.options.signal?.throwIfAborted();
+      await stage.run(context);
+    }
+  }
+  if (!context.result) throw new Error("Audit pipeline finished without a result.");
+  return context.result;
+}
+
+export function createAuditContext(url: string, options: AuditPageOptions = {}): AuditContext {
+  return {
+    url,
+    options,
+    html: options.html,
+    candidates: [],
+    images: [],
+    originals: {},
+    preprocessing: {},
+    sizes: {},
+    status: options.onStatus || (() => {}),
+    progress: options.onProgress || (() => {})
+  };
+}
+
+/**
+ * Single-page audit: fetch the page, pick candidate images, encode them and
+ * send them to the vision provider. Shared by the UI, the CLI and crawls.
+ */
+export function auditPage(url: string, options: AuditPageOptions = {}): Promise<AnalysisResult> {
+  return runAuditPipeline(createAuditContext(url, options));
+}
+
+/**
+ * Audits already-encoded assets, starting the pipeline at the preprocess
+ * stage. Used for uploaded files.
+ */
+export function auditEncodedImages(subjectUrl: string, images: EncodedImage[], options: AuditPageOptions = {}): Promise<AnalysisResult> {
+  return runAuditPipeline({ ...createAuditContext(subjectUrl, options), images }, 'preprocess');
+}
+
+/** Per-device findings and the crop comparison, for audits that fetched both variants. */
+registerStage({
+  name: 'device-comparison',
+  after: 'postprocess',
+  run(context) {
+    if (!context.variants) return;
+    const variants = context.variants.map(({ device, html, candidates }) => ({ device, html, candidateUrls: candidates.map((c) => c.url) }));
+    context.result = { ...context.result!, devices: compareDeviceVariants(context.result!, variants) };
+  }
+});
+
+/**
+ * Adds the screenshot review and lets its typography and layout notes replace
+ * the ones the image audit inferred without seeing the page. A failed capture
+ * is recorded on the result rather than failing the audit.
+ */
+registerStage({
+  name: 'layout-review',
+  after: 'postprocess',
+  async run(context) {
+    const { options } = context;
+    const result = context.result!;
+    if (!options.captureLayout) return;
+    try {
+      context.status('Capturing desktop and mobile screenshots...');
+      const screenshots = await capturePageScreenshots(result.url, options.signal);
+      context.status(`${getProvider(options.providerId).label} is reviewing layout and typography...`);
+      const layout = await reviewLayout(result.url, screenshots, { providerId: options.providerId, signal: options.signal });
+      context.result = {
+        ...result,
+        layout,
+        summary: { ...result.summary, typographyNotes: layout.typographyNotes, layoutAnalysis: layout.layoutAnalysis },
+        usage: mergeUsage(result.usage, layout.usage)
+      };
+    } catch (error: any) {
+      if (options.signal?.aborted) throw error;
+      context.result = { ...result, layoutError: error.message };
+    }
+  }
+});
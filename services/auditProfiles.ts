@@ -0,0 +1,115 @@
+import { AuditProfile, CriterionScore, ProfileField } from "../types.ts";
+import defaultProfile from "../profiles/default.json";
+import fashionPdp from "../profiles/fashion-pdp.json";
+import marketplaceCompliance from "../profiles/marketplace-compliance.json";
+import luxury from "../profiles/luxury.json";
+import food from "../profiles/food.json";
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+const FIELD_TYPES: ProfileField['type'][] = ['string', 'number', 'boolean', 'string[]'];
+
+/**
+ * Checks a parsed profile file and fills optional parts, throwing with the
+ * first problem found so a broken custom profile fails before any model call.
+ */
+export function parseAuditProfile(data: unknown): AuditProfile {
+  const p = data as Partial<AuditProfile> | null;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid audit profile${p?.id ? ` "${p.id}"` : ''}: ${message}`);
+  };
+  if (!p || typeof p !== 'object') fail('not a JSON object');
+  if (typeof p!.id !== 'string' || !/^[a-z0-9-]+$/.test(p!.id)) fail('"id" must be lowercase letters, digits and dashes');
+  if (typeof p!.name !== 'string' || !p!.name) fail('"name" is required');
+  if (typeof p!.promptTemplate !== 'string' || !p!.promptTemplate.includes('{{subject}}')) fail('"promptTemplate" must contain {{subject}}');
+
+  const criteria = p!.criteria ?? [];
+  if (!Array.isArray(criteria)) fail('"criteria" must be an array');
+  criteria.forEach((c, idx) => {
+    if (typeof c?.id !== 'string' || typeof c?.label !== 'string') fail(`criteria[${idx}] needs "id" and "label"`);
+    if (typeof c.weight !== 'number' || c.weight <= 0) fail(`criteria[${idx}].weight must be a positive number`);
+  });
+  const extraFields = p!.extraFields ?? [];
+  if (!Array.isArray(extraFields)) fail('"extraFields" must be an array');
+  extraFields.forEach((f, idx) => {
+    if (typeof f?.name !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*$/.test(f.name)) fail(`extraFields[${idx}].name must be an identifier`);
+    if (!FIELD_TYPES.includes(f.type)) fail(`extraFields[${idx}].type must be one of ${FIELD_TYPES.join(', ')}`);
+  });
+
+  const count = (value: unknown, fallback: number, max: number) => {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) fail(`counts must be integers from 0 to ${max}`);
+    return value as number;
+  };
+  const temperature = p!.temperature ?? 0.7;
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) fail('"temperature" must be between 0 and 2');
+
+  return {
+    id: p!.id!,
+    name: p!.name!,
+    description: p!.description,
+    promptTemplate: p!.promptTemplate!,
+    criteria: criteria.map((c) => ({ id: c.id, label: c.label, weight: c.weight, description: c.description || '' })),
+    roadmapSteps: count(p!.roadmapSteps, 5, 10),
+    competitors: count(p!.competitors, 3, 10),
+    temperature,
+    extraFields: extraFields.map((f) => ({ name: f.name, type: f.type, description: f.description || '' }))
+  };
+}
+
+const profiles = new Map<string, AuditProfile>(
+  [defaultProfile, fashionPdp, marketplaceCompliance, luxury, food].map((data) => {
+    const profile = parseAuditProfile(data);
+    return [profile.id, profile];
+  })
+);
+
+/** Adds or replaces a profile, e.g. one loaded from a user's JSON file. */
+export function registerProfile(profile: AuditProfile): void {
+  profiles.set(profile.id, profile);
+}
+
+export function listProfiles(): AuditProfile[] {
+  return [...profiles.values()];
+}
+
+export function getProfile(id = DEFAULT_PROFILE_ID): AuditProfile {
+  const profile = profiles.get(id);
+  if (!profile) throw new Error(`Unknown audit profile "${id}". Available: ${[...profiles.keys()].join(', ')}`);
+  return profile;
+}
+
+/** Fills the template placeholders and appends the profile's scoring instructions. */
+export function renderProfilePrompt(profile: AuditProfile, subject: string): string {
+  const prompt = profile.promptTemplate
+    .replaceAll('{{subject}}', subject)
+    .replaceAll('{{competitors}}', String(profile.competitors))
+    .replaceAll('{{roadmapSteps}}', String(profile.roadmapSteps));
+  const sections = [prompt];
+  if (profile.criteria.length > 0) {
+    sections.push([
+      'Score every image from 0 to 100 on each criterion below and return the scores in "criteriaScores", using the criterion id verbatim:',
+      ...profile.criteria.map((c) => `- ${c.id} (${c.label}): ${c.description}`)
+    ].join('\n'));
+  }
+  if (profile.extraFields.length > 0) {
+    sections.push([
+      'Also fill "summary.profileFields":',
+      ...profile.extraFields.map((f) => `- ${f.name} (${f.type}): ${f.description}`)
+    ].join('\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/** Weighted mean of the criterion scores, or undefined when none match the profile. */
+export function weightedCriteriaScore(scores: CriterionScore[], profile: AuditProfile): number | undefined {
+  let total = 0;
+  let weights = 0;
+  for (const criterion of profile.criteria) {
+    const score = scores.find((s) => s.criterion === criterion.id);
+    if (!score) continue;
+    total += score.score * criterion.weight;
+    weights += criterion.weight;
+  }
+  return weights ? Math.round(total / weights) : undefined;
+}
@@ -0,0 +1,65 @@
+import { AuditProgressEvent, CacheKind, ImageAnalysis } from "../types.ts";
+
+export interface AssetProgress {
+  url: string;
+  /** Bytes downloaded, when the asset was fetched. */
+  bytes?: number;
+  /** Why the asset was left out of the audit. */
+  rejected?: string;
+}
+
+/** Running totals of the audit in progress, folded from its progress events. */
+export interface AuditProgress {
+  pagesFetched: number;
+  /** Candidates found on the page currently being audited. */
+  candidates: number;
+  assets: AssetProgress[];
+  model?: string;
+  /** Model request number for the current page; above 1 means a repair request. */
+  attempt: number;
+  /** Characters of the current model reply received so far. */
+  characters: number;
+  /** Analyses already complete in the streaming reply, in the order they arrived. */
+  images: ImageAnalysis[];
+  /** Cache lookups for the whole run, by kind. */
+  cache: Record<CacheKind, { hits: number; misses: number }>;
+}
+
+export const EMPTY_PROGRESS: AuditProgress = {
+  pagesFetched: 0,
+  candidates: 0,
+  assets: [],
+  attempt: 0,
+  characters: 0,
+  images: [],
+  cache: { page: { hits: 0, misses: 0 }, image: { hits: 0, misses: 0 }, analysis: { hits: 0, misses: 0 } }
+};
+
+/**
+ * Applies one event. Candidate discovery starts a new page, so asset and model
+ * figures are per page while `pagesFetched` counts across a crawl.
+ */
+export function applyProgressEvent(progress: AuditProgress, event: AuditProgressEvent): AuditProgress {
+  switch (event.type) {
+    case 'page-fetched':
+      return { ...progress, pagesFetched: progress.pagesFetched + 1 };
+    case 'candidates-found':
+      return { ...progress, candidates: event.count, assets: [], model: undefined, attempt: 0, characters: 0, images: [] };
+    case 'asset-downloaded':
+      return { ...progress, assets: [...progress.assets, { url: event.url, bytes: event.bytes }] };
+    case 'asset-rejected':
+      // Preprocessing can reject an asset that was already downloaded.
+      return { ...progress, assets: [...progress.assets.filter((a) => a.url !== event.url), { url: event.url, rejected: event.reason }] };
+    case 'model-started':
+      return { ...progress, model: event.model, attempt: event.attempt, characters: 0 };
+    case 'model-tokens':
+      return { ...progress, characters: event.characters };
+    case 'image-analyzed':
+      return { ...progress, images: [...progress.images, event.image] };
+    case 'cache': {
+      const { hits, misses } = progress.cache[event.kind];
+      const counts = event.hit ? { hits: hits + 1, misses } : { hits, misses: misses + 1 };
+      return { ...progress, cache: { ...progress.cache, [event.kind]: counts } };
+    }
+  }
+}
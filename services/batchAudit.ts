@@ -0,0 +1,198 @@
+import { AnalysisResult, BatchItem, BatchState } from '../types.ts';
+
+/** Upper bound on URLs per batch, to keep a paste of a whole sitemap from running for days. */
+export const MAX_BATCH_URLS = 500;
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 6;
+
+/** Splits one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',' || c === ';' || c === '\t') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+function toPageUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URLs from pasted text or a CSV export. A header row with a `url`, `link` or
+ * `page` column selects that column; otherwise every http(s) URL on each line
+ * is taken. Duplicates are dropped and `skipped` counts non-empty entries
+ * that were not valid URLs.
+ */
+export function parseBatchInput(text: string): { urls: string[]; skipped: number } {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines.length === 0) return { urls: [], skipped: 0 };
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const column = header.findIndex((h) => ['url', 'link', 'page', 'page url', 'product url'].includes(h));
+  const candidates = column >= 0
+    ? lines.slice(1).map((line) => splitCsvLine(line)[column] || '')
+    : lines.flatMap((line) => {
+      const found = line.match(/https?:\/\/[^\s,;"'<>]+/gi);
+      return found ?? [line];
+    });
+
+  let skipped = 0;
+  const urls: string[] = [];
+  candidates.forEach((raw) => {
+    const url = raw && toPageUrl(raw);
+    if (url) urls.push(url);
+    else if (raw) skipped++;
+  });
+  return { urls: [...new Set(urls)].slice(0, MAX_BATCH_URLS), skipped };
+}
+
+export interface BatchQueueOptions {
+  concurrency?: number;
+  /** Called with a fresh copy of the items and the queue state on every change. */
+  onChange?: (items: BatchItem[], state: BatchState) => void;
+  /** Called once per completed audit, e.g. to save it to history. */
+  onResult?: (result: AnalysisResult) => void;
+}
+
+export interface BatchQueue {
+  start(): Promise<void>;
+  /** Stops starting new audits; running ones finish. */
+  pause(): void;
+  resume(): void;
+  /** Drops everything still queued and aborts the audits already running. */
+  cancel(): void;
+  /** Re-queues a failed or cancelled item. */
+  retry(url: string): void;
+  setConcurrency(concurrency: number): void;
+  items(): BatchItem[];
+  state(): BatchState;
+}
+
+/**
+ * Runs `audit` over the URLs with at most `concurrency` audits in flight.
+ * Rate limits are absorbed by the retry and backoff in the provider and fetch
+ * layers; an item fails only once those give up. Each audit gets a signal
+ * that is aborted when the queue is cancelled.
+ */
+export function createBatchQueue(
+  urls: string[],
+  audit: (url: string, signal: AbortSignal) => Promise<AnalysisResult>,
+  options: BatchQueueOptions = {}
+): BatchQueue {
+  let items: BatchItem[] = urls.map((url) => ({ url, status: 'queued', attempts: 0 }));
+  let state: BatchState = 'idle';
+  let concurrency = Math.min(Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY), MAX_BATCH_CONCURRENCY);
+  let running = 0;
+  let finished: (() => void) | null = null;
+  const controllers = new Map<string, AbortController>();
+
+  const emit = () => options.onChange?.(items, state);
+  const update = (url: string, patch: Partial<BatchItem>) => {
+    items = items.map((item) => (item.url === url ? { ...item, ...patch } : item));
+  };
+
+  const settle = () => {
+    if (running > 0 || (state === 'running' && items.some((i) => i.status === 'queued'))) return;
+    if (state === 'running') state = 'done';
+    if (state === 'done' || state === 'cancelled') {
+      finished?.();
+      finished = null;
+    }
+  };
+
+  const pump = () => {
+    while (state === 'running' && running < concurrency) {
+      const next = items.find((i) => i.status === 'queued');
+      if (!next) break;
+      running++;
+      update(next.url, { status: 'running', attempts: next.attempts + 1, error: undefined });
+      const controller = new AbortController();
+      controllers.set(next.url, controller);
+      audit(next.url, controller.signal)
+        .then((result) => {
+          update(next.url, { status: 'done', result });
+          options.onResult?.(result);
+        })
+        .catch((error: any) => update(next.url, controller.signal.aborted
+          ? { status: 'cancelled' }
+          : { status: 'failed', error: error?.message || String(error) }))
+        .finally(() => {
+          controllers.delete(next.url);
+          running--;
+          pump();
+          settle();
+          emit();
+        });
+    }
+    settle();
+    emit();
+  };
+
+  return {
+    start() {
+      if (state !== 'idle') return Promise.resolve();
+      state = 'running';
+      const done = new Promise<void>((resolve) => (finished = resolve));
+      pump();
+      return done;
+    },
+    pause() {
+      if (state !== 'running') return;
+      state = 'paused';
+      emit();
+    },
+    resume() {
+      if (state !== 'paused') return;
+      state = 'running';
+      pump();
+    },
+    cancel() {
+      if (state === 'done' || state === 'cancelled') return;
+      items = items.map((item) => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+      state = 'cancelled';
+      controllers.forEach((controller) => controller.abort());
+      settle();
+      emit();
+    },
+    retry(url) {
+      const item = items.find((i) => i.url === url);
+      if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+      update(url, { status: 'queued', error: undefined });
+      if (state === 'done' || state === 'cancelled') state = 'running';
+      pump();
+    },
+    setConcurrency(next) {
+      concurrency = Math.min(Math.max(1, next), MAX_BATCH_CONCURRENCY);
+      pump();
+    },
+    items: () => items,
+    state: () => state
+  };
+}
+
@@ -0,0 +1,214 @@
+import { AnalysisResult, BrandCompliance, BrandComplianceSummary, BrandExampleImage, BrandGuide, BrandRule, BrandRuleFinding, ImageMetrics } from "../types.ts";
+import { normalizeHexColor } from "./analysisValidation.ts";
+import { parseHex } from "./auditDiff.ts";
+import { EncodedImage } from "./visionProvider.ts";
+
+export const BRAND_RULE_LABELS: Record<BrandRule, string> = {
+  palette: 'Brand palette',
+  background: 'Permitted background',
+  'aspect-ratio': 'Aspect ratio',
+  lighting: 'Lighting style',
+  typography: 'Typography',
+  examples: 'Matches do/don\'t examples'
+};
+
+/** RGB distance under which an image colour counts as a brand colour; looser than a diff since lighting shifts hue. */
+const BRAND_COLOR_DISTANCE = 60;
+/** Relative difference allowed between measured and required aspect ratio, for crops a few pixels off. */
+const ASPECT_TOLERANCE = 0.02;
+/** Share of an image's saturated colour that must sit near a brand colour. */
+const PALETTE_MATCH_SHARE = 0.5;
+/** Example images sent per list; each one costs a full image in the request. */
+const MAX_EXAMPLES = 3;
+
+const RATIO_PATTERN = /^(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)$/;
+
+export function emptyBrandGuide(): BrandGuide {
+  return { name: '', palette: [], backgrounds: [], aspectRatios: [], lighting: '', typography: [], doExamples: [], dontExamples: [] };
+}
+
+/**
+ * Checks a parsed brand guide file and fills optional parts, throwing with
+ * the first problem found. Colours are normalised to `#RRGGBB`.
+ */
+export function parseBrandGuide(data: unknown): BrandGuide {
+  const g = data as Partial<BrandGuide> | null;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid brand guide: ${message}`);
+  };
+  if (!g || typeof g !== 'object' || Array.isArray(g)) fail('not a JSON object');
+  const strings = (key: keyof BrandGuide): string[] => {
+    const value = g![key] ?? [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) fail(`"${key}" must be an array of strings`);
+    return (value as string[]).map((v) => v.trim()).filter(Boolean);
+  };
+  const examples = (key: 'doExamples' | 'dontExamples'): BrandExampleImage[] => {
+    const value = g![key] ?? [];
+    if (!Array.isArray(value)) fail(`"${key}" must be an array`);
+    return value.map((e, idx) => {
+      if (typeof e?.base64 !== 'string' || typeof e?.mimeType !== 'string') fail(`${key}[${idx}] needs "base64" and "mimeType"`);
+      return { name: typeof e.name === 'string' ? e.name : `${key}-${idx + 1}`, base64: e.base64, mimeType: e.mimeType };
+    });
+  };
+
+  const palette = strings('palette').map((c) => normalizeHexColor(c) ?? fail(`"${c}" in "palette" is not a hex colour`));
+  const aspectRatios = strings('aspectRatios');
+  aspectRatios.forEach((r) => {
+    if (!parseAspectRatio(r)) fail(`"${r}" in "aspectRatios" must look like "4:5"`);
+  });
+  if (g!.lighting !== undefined && typeof g!.lighting !== 'string') fail('"lighting" must be a string');
+
+  return {
+    name: typeof g!.name === 'string' ? g!.name.trim() : '',
+    palette: [...new Set(palette)],
+    backgrounds: strings('backgrounds'),
+    aspectRatios,
+    lighting: g!.lighting?.trim() || '',
+    typography: strings('typography'),
+    doExamples: examples('doExamples'),
+    dontExamples: examples('dontExamples')
+  };
+}
+
+/** Width over height for a `W:H` ratio, or null when it is not one. */
+export function parseAspectRatio(ratio: string): number | null {
+  const match = ratio.match(RATIO_PATTERN);
+  if (!match) return null;
+  const [w, h] = [Number(match[1]), Number(match[2])];
+  return w > 0 && h > 0 ? w / h : null;
+}
+
+/** Rules the guide actually defines, in display order. */
+export function brandRules(guide: BrandGuide): BrandRule[] {
+  const rules: BrandRule[] = [];
+  if (guide.palette.length) rules.push('palette');
+  if (guide.backgrounds.length) rules.push('background');
+  if (guide.aspectRatios.length) rules.push('aspect-ratio');
+  if (guide.lighting) rules.push('lighting');
+  if (guide.typography.length) rules.push('typography');
+  if (guide.doExamples.length || guide.dontExamples.length) rules.push('examples');
+  return rules;
+}
+
+/** Rules the model is asked to judge. Aspect ratio is always measured from the file. */
+export function modelBrandRules(guide: BrandGuide): BrandRule[] {
+  return brandRules(guide).filter((rule) => rule !== 'aspect-ratio');
+}
+
+export function hasBrandRules(guide: BrandGuide | undefined): guide is BrandGuide {
+  return Boolean(guide && brandRules(guide).length > 0);
+}
+
+/**
+ * Prompt section stating the guide's rules and how to report on them. Empty
+ * when the guide has no rule for the model to judge, e.g. only aspect ratios.
+ */
+export function renderBrandGuidePrompt(guide: BrandGuide): string {
+  if (modelBrandRules(guide).length === 0) return '';
+  const lines = [`Audit every image against the ${guide.name ? `"${guide.name}" ` : ''}brand guide below and base "brandConsistency" on how well the set follows it.`];
+  if (guide.palette.length) lines.push(`- palette: imagery should use or complement ${guide.palette.join(', ')}`);
+  if (guide.backgrounds.length) lines.push(`- background: permitted backgrounds are ${guide.backgrounds.join('; ')}`);
+  if (guide.aspectRatios.length) lines.push(`- aspect ratio: ${guide.aspectRatios.join(', ')} (measured separately)`);
+  if (guide.lighting) lines.push(`- lighting: ${guide.lighting}`);
+  if (guide.typography.length) lines.push(`- typography: any text in the image should be set in ${guide.typography.join(', ')}; images without text pass`);
+  if (guide.doExamples.length || guide.dontExamples.length) lines.push('- examples: the labelled reference images show on-brand ("Do") and off-brand ("Don\'t") photography; they are not audited themselves');
+  lines.push(`Return "brandFindings" for every image with one entry per rule id (${modelBrandRules(guide).join(', ')}): whether it passes and a one-sentence note.`);
+  return lines.join('\n');
+}
+
+/** The guide's example images, labelled for the provider to send ahead of the audited assets. */
+export function brandReferences(guide: BrandGuide): { label: string; image: EncodedImage }[] {
+  const toReference = (label: string) => (example: BrandExampleImage, idx: number) => ({
+    label: `${label} example ${idx + 1} (reference only, not audited)`,
+    image: { url: `brand-guide://${example.name}`, base64: example.base64, mimeType: example.mimeType }
+  });
+  return [...guide.doExamples.slice(0, MAX_EXAMPLES).map(toReference('Brand "Do"')), ...guide.dontExamples.slice(0, MAX_EXAMPLES).map(toReference('Brand "Don\'t"'))];
+}
+
+function colorDistance(a: string, b: string): number {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  if (!ca || !cb) return Infinity;
+  return Math.hypot(ca[0] - cb[0], ca[1] - cb[1], ca[2] - cb[2]);
+}
+
+/** Whites, greys and blacks say little about brand colour, so the palette rule ignores them. */
+function isNeutral(color: string): boolean {
+  const rgb = parseHex(color);
+  if (!rgb) return true;
+  return Math.max(...rgb) - Math.min(...rgb) < 24;
+}
+
+const isWhite = (background: string) => {
+  const rgb = parseHex(background);
+  return rgb ? rgb.every((c) => c >= 245) : /\bwhite\b/i.test(background);
+};
+
+/**
+ * Rules that can be decided from the image's measured metrics: aspect ratio,
+ * palette (needs pixel decoding) and background when every permitted
+ * background is white.
+ */
+export function measureBrandRules(metrics: ImageMetrics | undefined, guide: BrandGuide): BrandRuleFinding[] {
+  const findings: BrandRuleFinding[] = [];
+  if (!metrics) return findings;
+
+  if (guide.aspectRatios.length && metrics.width && metrics.height) {
+    const actual = metrics.width / metrics.height;
+    const match = guide.aspectRatios.find((r) => Math.abs(actual / parseAspectRatio(r)! - 1) <= ASPECT_TOLERANCE);
+    findings.push({
+      rule: 'aspect-ratio',
+      pass: Boolean(match),
+      note: match ? `${metrics.width}×${metrics.height} is ${match}.` : `${metrics.width}×${metrics.height} matches none of ${guide.aspectRatios.join(', ')}.`,
+      source: 'measured'
+    });
+  }
+
+  if (guide.palette.length && metrics.palette) {
+    const chromatic = metrics.palette.filter((p) => !isNeutral(p.color));
+    const total = chromatic.reduce((acc, p) => acc + p.share, 0);
+    const offBrand = chromatic.filter((p) => !guide.palette.some((c) => colorDistance(c, p.color) < BRAND_COLOR_DISTANCE));
+    const matched = total ? 1 - offBrand.reduce((acc, p) => acc + p.share, 0) / total : 1;
+    findings.push({
+      rule: 'palette',
+      pass: matched >= PALETTE_MATCH_SHARE,
+      note: total === 0
+        ? 'Neutral imagery; no competing colour.'
+        : `${Math.round(matched * 100)}% of the saturated colour is on palette${offBrand.length ? `; off-palette: ${offBrand.map((p) => p.color).join(', ')}` : ''}.`,
+      source: 'measured'
+    });
+  }
+
+  if (guide.backgrounds.length && guide.backgrounds.every(isWhite) && metrics.backgroundWhiteness !== undefined) {
+    findings.push({
+      rule: 'background',
+      pass: Boolean(metrics.whiteBackground),
+      note: `${Math.round(metrics.backgroundWhiteness * 100)}% of the border is white.`,
+      source: 'measured'
+    });
+  }
+  return findings;
+}
+
+/**
+ * Merges measured and model findings, preferring the measurement where both
+ * cover a rule, and scores the share of rules passed.
+ */
+export function scoreBrandCompliance(guide: BrandGuide, measured: BrandRuleFinding[], judged: BrandRuleFinding[] = []): BrandCompliance {
+  const findings = brandRules(guide)
+    .map((rule) => measured.find((f) => f.rule === rule) ?? judged.find((f) => f.rule === rule))
+    .filter((f): f is BrandRuleFinding => f !== undefined);
+  const passed = findings.filter((f) => f.pass).length;
+  return { score: findings.length ? Math.round((passed / findings.length) * 100) : 0, findings };
+}
+
+/** Per-rule pass counts over the analysed images; the score is the share of all checks passed. */
+export function summarizeBrandCompliance(result: Pick<AnalysisResult, 'images'>, guide: BrandGuide): BrandComplianceSummary {
+  const checked = result.images.filter((img) => !img.notAnalyzed && img.brandCompliance);
+  const rules = brandRules(guide).map((rule) => {
+    const findings = checked.map((img) => img.brandCompliance!.findings.find((f) => f.rule === rule)).filter((f) => f !== undefined);
+    return { rule, passed: findings.filter((f) => f.pass).length, total: findings.length };
+  });
+  const total = rules.reduce((acc, r) => acc + r.total, 0);
+  return { score: total ? Math.round((rules.reduce((acc, r) => acc + r.passed, 0) / total) * 100) : 0, rules };
+}
@@ -0,0 +1,87 @@
+import { AnalysisResult, BenchmarkScores, CompetitorBenchmark, CompetitorInsight } from "../types.ts";
+import { AuditPageOptions, auditPage } from "./auditPipeline.ts";
+
+/** Most competitor pages audited alongside one page. */
+export const MAX_COMPETITORS = 5;
+
+/** Splits free text on commas and whitespace into unique http(s) URLs. */
+export function parseCompetitorUrls(text: string): string[] {
+  const urls = text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((raw) => {
+      try {
+        const url = new URL(/^https?:\/\//i.test(raw) ? raw : `https://${raw}`);
+        return ['http:', 'https:'].includes(url.protocol) ? url.href : null;
+      } catch {
+        return null;
+      }
+    })
+    .filter((u): u is string => u !== null);
+  return [...new Set(urls)];
+}
+
+/**
+ * Audits each competitor page sequentially with the same pipeline as the
+ * audited page. Failures are recorded per competitor instead of thrown.
+ */
+export async function auditCompetitors(urls: string[], options: AuditPageOptions = {}): Promise<CompetitorBenchmark[]> {
+  const status = options.onStatus || (() => {});
+  const benchmarks: CompetitorBenchmark[] = [];
+  for (const [idx, url] of urls.slice(0, MAX_COMPETITORS).entries()) {
+    status(`Benchmarking competitor ${idx + 1} of ${Math.min(urls.length, MAX_COMPETITORS)}...`);
+    try {
+      benchmarks.push({ url, audit: await auditPage(url, { ...options, onStatus: undefined }) });
+    } catch (error: any) {
+      if (options.signal?.aborted) throw error;
+      benchmarks.push({ url, error: error.message });
+    }
+  }
+  return benchmarks;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function pageLabel(url: string): string {
+  const { hostname, pathname } = new URL(url);
+  return pathname === '/' || !pathname ? hostname : `${hostname}${pathname}`;
+}
+
+/** Scores for one audit, preferring local measurements over model judgement where both exist. */
+export function benchmarkScores(result: AnalysisResult, label = pageLabel(result.url)): BenchmarkScores {
+  const analyzed = result.images.filter((img) => !img.notAnalyzed);
+  const measured = result.images.map((img) => img.metrics).filter((m) => m !== undefined);
+  const longEdges = measured.filter((m) => m.width && m.height).map((m) => Math.max(m.width!, m.height!));
+  const withPixels = measured.filter((m) => m.blurry !== undefined);
+  const share = (count: number) => (withPixels.length ? Math.round((count / withPixels.length) * 100) / 100 : undefined);
+
+  const palette = new Set<string>();
+  result.images.forEach((img) => (img.metrics?.palette?.map((p) => p.color) ?? img.dominantColors).slice(0, 2).forEach((c) => palette.add(c)));
+
+  return {
+    url: result.url,
+    label,
+    brandConsistency: result.summary.brandConsistency,
+    averageQuality: Math.round(analyzed.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(analyzed.length, 1)),
+    imageCount: result.images.length,
+    medianLongEdge: median(longEdges),
+    sharpShare: share(withPixels.filter((m) => !m.blurry).length),
+    whiteBackgroundShare: share(withPixels.filter((m) => m.whiteBackground).length),
+    palette: [...palette].slice(0, 6)
+  };
+}
+
+/**
+ * The audited competitor a model-suggested competitor refers to, matched by
+ * brand name against the hostname. Unmatched suggestions are unverified.
+ */
+export function findBenchmarkFor(competitor: CompetitorInsight, benchmarks: CompetitorBenchmark[] = []): CompetitorBenchmark | undefined {
+  const name = competitor.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (name.length < 3) return undefined;
+  return benchmarks.find((b) => b.audit && new URL(b.url).hostname.replace(/^www\./, '').split('.')[0].replace(/[^a-z0-9]/g, '') === name);
+}
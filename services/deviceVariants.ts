@@ -0,0 +1,156 @@
+import { AnalysisResult, CropComparison, DeviceComparison, DeviceKind, DeviceVariant, ImageAnalysis } from "../types.ts";
+import { SIMILAR_HASH_DISTANCE, hammingDistance } from "./imageHash.ts";
+import { extractImageCandidates } from "./imageExtraction.ts";
+
+export interface DeviceProfile {
+  label: string;
+  userAgent: string;
+  viewport: { width: number; height: number };
+  pixelRatio: number;
+  /** CSS pixels a product hero typically spans: half the page on desktop, the full width on a phone. */
+  heroWidth: number;
+}
+
+/** Shared by the fetch proxy, page screenshots and the device comparison, so all three see the same devices. */
+export const DEVICE_PROFILES: Record<DeviceKind, DeviceProfile> = {
+  desktop: {
+    label: 'Desktop',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36 VisualSense/1.0',
+    viewport: { width: 1440, height: 900 },
+    pixelRatio: 2,
+    heroWidth: 720
+  },
+  mobile: {
+    label: 'Mobile',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1 VisualSense/1.0',
+    viewport: { width: 390, height: 844 },
+    pixelRatio: 3,
+    heroWidth: 390
+  }
+};
+
+export const DEVICES = Object.keys(DEVICE_PROFILES) as DeviceKind[];
+
+/** Aspect ratio above which an image reads as landscape and takes little height on a phone. */
+const LANDSCAPE_ASPECT = 1.2;
+/** Relative aspect-ratio difference treated as a different crop. */
+const CROP_ASPECT_TOLERANCE = 0.05;
+
+export function isDevice(value: unknown): value is DeviceKind {
+  return typeof value === 'string' && value in DEVICE_PROFILES;
+}
+
+/** User agent plus viewport client hints, for servers that choose markup or images by device. */
+export function deviceRequestHeaders(device: DeviceKind): Record<string, string> {
+  const profile = DEVICE_PROFILES[device];
+  return {
+    'User-Agent': profile.userAgent,
+    'Sec-CH-UA-Mobile': device === 'mobile' ? '?1' : '?0',
+    'Sec-CH-Viewport-Width': String(profile.viewport.width),
+    'Viewport-Width': String(profile.viewport.width),
+    'DPR': String(profile.pixelRatio)
+  };
+}
+
+const formatAspect = (aspect: number | undefined) => (aspect === undefined ? 'unknown' : `${aspect}:1`);
+
+/** The analysis an asset URL ended up in, following near-duplicates folded into another asset. */
+function analysisFor(result: AnalysisResult, url: string): ImageAnalysis | undefined {
+  return result.images.find((img) => img.url === url || img.preprocessing?.duplicateUrls?.includes(url));
+}
+
+function judgeVariant(result: AnalysisResult, device: DeviceKind, candidateUrls: string[]): DeviceVariant {
+  const profile = DEVICE_PROFILES[device];
+  const images = [...new Set(candidateUrls.map((url) => analysisFor(result, url)))]
+    .filter((img): img is ImageAnalysis => Boolean(img && !img.notAnalyzed));
+  if (images.length === 0) return { device, imageUrls: [], findings: ['No audited images come from this variant.'] };
+
+  const findings: string[] = [];
+  const neededWidth = profile.heroWidth * profile.pixelRatio;
+  const soft = images.filter((img) => img.metrics?.width !== undefined && img.metrics.width < neededWidth);
+  if (soft.length) {
+    findings.push(`${soft.length} of ${images.length} images are narrower than ${neededWidth}px and render soft at ${profile.heroWidth}px on ${profile.pixelRatio}x screens.`);
+  }
+  if (device === 'mobile') {
+    const landscape = images.filter((img) => (img.metrics?.aspectRatio ?? 0) > LANDSCAPE_ASPECT);
+    if (landscape.length) findings.push(`${landscape.length} of ${images.length} images are landscape and fill little of a portrait screen.`);
+  }
+  const high = images.reduce((sum, img) => sum + (img.regions || []).filter((r) => r.severity === 'high').length, 0);
+  if (high) findings.push(`${high} high-severity ${high === 1 ? 'issue' : 'issues'} located on these images.`);
+  if (findings.length === 0) findings.push(`Resolution and framing suit a ${profile.viewport.width}px viewport.`);
+
+  return {
+    device,
+    imageUrls: images.map((img) => img.url),
+    averageQuality: Math.round(images.reduce((sum, img) => sum + img.qualityScore, 0) / images.length),
+    findings
+  };
+}
+
+function compareCrop(result: AnalysisResult, rank: number, desktopUrl: string, mobileUrl: string): CropComparison {
+  const desktop = analysisFor(result, desktopUrl);
+  const mobile = analysisFor(result, mobileUrl);
+  const desktopAspect = desktop?.metrics?.aspectRatio;
+  const mobileAspect = mobile?.metrics?.aspectRatio;
+  const base = { rank, desktopUrl, mobileUrl, desktopAspect, mobileAspect };
+
+  if (desktopUrl === mobileUrl) {
+    const renderedHeight = mobileAspect && Math.round(DEVICE_PROFILES.mobile.viewport.width / mobileAspect);
+    return {
+      ...base,
+      relation: 'same-asset',
+      note: mobileAspect && mobileAspect > LANDSCAPE_ASPECT
+        ? `Mobile gets the desktop ${formatAspect(mobileAspect)} asset; at ${DEVICE_PROFILES.mobile.viewport.width}px wide it is ${renderedHeight}px tall.`
+        : 'Both devices get the same asset.'
+    };
+  }
+  if (desktopAspect && mobileAspect && Math.abs(desktopAspect - mobileAspect) / desktopAspect > CROP_ASPECT_TOLERANCE) {
+    return { ...base, relation: 'recropped', note: `Mobile uses a ${formatAspect(mobileAspect)} crop where desktop uses ${formatAspect(desktopAspect)}.` };
+  }
+  const similar = (desktop !== undefined && desktop === mobile)
+    || Boolean(desktop?.perceptualHash && mobile?.perceptualHash && hammingDistance(desktop.perceptualHash, mobile.perceptualHash) <= SIMILAR_HASH_DISTANCE);
+  if (similar) {
+    const widths = [mobile?.metrics?.width, desktop?.metrics?.width];
+    return {
+      ...base,
+      relation: 'resized',
+      note: widths.every((w) => w !== undefined) && widths[0] !== widths[1]
+        ? `Same picture, ${widths[0]}px wide on mobile and ${widths[1]}px on desktop.`
+        : 'Same picture as a separate file for each device.'
+    };
+  }
+  return { ...base, relation: 'different', note: 'Mobile shows a different image at this position.' };
+}
+
+/**
+ * Every image a page references, whatever the viewport, sorted. Comparing
+ * these rather than the raw HTML ignores nonces, CSRF tokens and timestamps
+ * that differ on every request.
+ */
+function referencedImages(html: string, pageUrl: string): string {
+  return extractImageCandidates(html, pageUrl, { maxCandidates: Infinity }).map((c) => c.url).sort().join('\n');
+}
+
+/**
+ * Judges each device's image set against its viewport and pairs the assets
+ * at the same rank on both variants to compare their crops. `variants` lists
+ * each device's candidate URLs in rank order; candidates that were not
+ * audited (failed downloads, unusable formats) are skipped.
+ */
+export function compareDeviceVariants(
+  result: AnalysisResult,
+  variants: { device: DeviceKind; html: string; candidateUrls: string[] }[]
+): DeviceComparison {
+  const audited = (device: DeviceKind) => variants.find((v) => v.device === device)?.candidateUrls.filter((url) => analysisFor(result, url));
+  const desktop = audited('desktop');
+  const mobile = audited('mobile');
+  const crops = desktop && mobile
+    ? desktop.slice(0, Math.min(desktop.length, mobile.length)).map((url, idx) => compareCrop(result, idx + 1, url, mobile[idx]))
+    : [];
+  const images = (device: DeviceKind) => referencedImages(variants.find((v) => v.device === device)!.html, result.url);
+  return {
+    variants: variants.map((v) => judgeVariant(result, v.device, v.candidateUrls)),
+    crops,
+    markupDiffers: Boolean(desktop && mobile && images('desktop') !== images('mobile'))
+  };
+}
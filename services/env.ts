@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+/**
+ * Reads a configuration value from `process.env`, which is populated by the
+ * host in the browser build and by the shell when running under Node. Static
+ * builds have no `process`, so the value can also be baked in at build time
+ * as `VITE_<name>`.
+ */
+export function readEnv(name: string): string {
+  const fromProcess = typeof process !== 'undefined' && process.env ? process.env[name] : undefined;
+  // Spelled out in full: Vite only substitutes the literal `import.meta.env`.
+  return fromProcess || import.meta.env?.[`VITE_${name}`] || '';
+}
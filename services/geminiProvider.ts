@@ -0,0 +1,70 @@
+import { GoogleGenAI } from "@google/genai";
+import { readEnv } from "./env.ts";
+import { VisionProvider } from "./visionProvider.ts";
+import { withRetry } from "./retry.ts";
+
+export function createGeminiProvider(model = readEnv('GEMINI_MODEL') || "gemini-3-flash-preview"): VisionProvider {
+  const getApiKey = () => readEnv('API_KEY') || readEnv('GEMINI_API_KEY');
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model,
+    isConfigured: () => Boolean(getApiKey()),
+    async generate({ prompt, images, references = [], schema, temperature, signal, onText }) {
+      const apiKey = getApiKey();
+      if (!apiKey) throw new Error("API Key is missing or invalid.");
+
+      const ai = new GoogleGenAI({ apiKey });
+      const referenceParts = references.flatMap(({ label, image }) => [
+        { text: label },
+        { inlineData: { data: image.base64, mimeType: image.mimeType || "image/jpeg" } }
+      ]);
+      const imageParts = images.flatMap((img) => [
+        ...(img.id ? [{ text: `Image id: ${img.id}` }] : []),
+        {
+          inlineData: {
+            data: img.base64,
+            mimeType: img.mimeType || "image/jpeg"
+          }
+        }
+      ]);
+
+      // Streamed so callers can show partial results; a retry starts the reply over.
+      // A throwing `onText` ends the stream and surfaces as-is, never retried.
+      let callbackError: unknown;
+      const { text, usage } = await withRetry(async () => {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents: [{ parts: [...referenceParts, ...imageParts, { text: prompt }] }],
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: schema,
+            temperature,
+            abortSignal: signal
+          }
+        });
+        let received = '';
+        let usage;
+        for await (const chunk of stream) {
+          received += chunk.text || '';
+          // Counts are cumulative; the last chunk carries the totals. Thinking tokens bill as output.
+          if (chunk.usageMetadata) {
+            const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = chunk.usageMetadata;
+            usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+          }
+          try {
+            onText?.(received);
+          } catch (error) {
+            callbackError = error;
+            break;
+          }
+        }
+        return { text: received, usage };
+      }, { signal });
+      if (callbackError) throw callbackError;
+
+      return { text: text || '{}', model, ...(usage && { usage }) };
+    }
+  };
+}
@@ -1,133 +1,342 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from "../types.ts";
-
-const ANALYSIS_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    images: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          dominantColors: { type: Type.ARRAY, items: { type: Type.STRING } },
-          composition: { type: Type.STRING },
-          lighting: { type: Type.STRING },
-          mood: { type: Type.STRING },
-          aesthetic: { type: Type.STRING },
-          qualityScore: { type: Type.NUMBER },
-          description: { type: Type.STRING },
-          howToImprove: { type: Type.STRING }
-        },
-        required: ["id", "dominantColors", "composition", "lighting", "mood", "aesthetic", "qualityScore", "description", "howToImprove"]
-      }
-    },
-    summary: {
-      type: Type.OBJECT,
-      properties: {
-        brandConsistency: { type: Type.NUMBER },
-        creativeStyle: { type: Type.STRING },
-        typographyNotes: { type: Type.STRING },
-        layoutAnalysis: { type: Type.STRING },
-        marketingActionables: { type: Type.ARRAY, items: { type: Type.STRING } },
-        overallAesthetic: { type: Type.STRING },
-        visualRoadmap: { type: Type.ARRAY, items: { type: Type.STRING } },
-        competitors: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING },
-              strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-              visualTakeaway: { type: Type.STRING },
-              marketPosition: { type: Type.STRING }
-            },
-            required: ["name", "strengths", "visualTakeaway", "marketPosition"]
-          }
-        }
-      },
-      required: ["brandConsistency", "creativeStyle", "typographyNotes", "layoutAnalysis", "marketingActionables", "overallAesthetic", "visualRoadmap", "competitors"]
-    }
-  },
-  required: ["images", "summary"]
-};
+import { AnalysisResult, AuditProfile, AuditProgressEvent, AuditUsage, BrandGuide, DeviceKind, ImageAnalysis, RegionFinding, ValidationIssue } from "../types.ts";
+import { SchemaNode, buildAnalysisSchema } from "./analysisSchema.ts";
+import { getProfile, renderProfilePrompt, weightedCriteriaScore } from "./auditProfiles.ts";
+import { brandReferences, hasBrandRules, modelBrandRules, renderBrandGuidePrompt, scoreBrandCompliance } from "./brandGuide.ts";
+import { AnalysisValidationError, ValidationExpectations, buildRepairPrompt, normalizeRegionBox, validateAgainstSchema, validateModelOutput } from "./analysisValidation.ts";
+import { readEnv } from "./env.ts";
+import { EncodedImage, getProvider } from "./visionProvider.ts";
+import { fetchWithRetry, isAbortError } from "./retry.ts";
+import { completedArrayItems } from "./partialJson.ts";
+import { cachedGenerate, hasCachedReply } from "./auditCache.ts";
+import { base64ToBytes } from "./imageHash.ts";
+import { BudgetExceededError, checkBudget, fitToBudget, recordUsage, trackResponse } from "./usageAccounting.ts";
+import { deviceRequestHeaders } from "./deviceVariants.ts";
+
+/** Bump whenever the audit prompt or schema changes, so stored audits stay comparable. */
+export const PROMPT_VERSION = '5';
+
+/** Follow-up requests allowed when the model's reply fails validation. */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface AnalyzeOptions {
+  /** Vision provider id (`gemini`, `openai`, `mock`); defaults to the active provider. */
+  providerId?: string;
+  /**
+   * What the images show when they do not come from `pageUrl`, e.g. an
+   * uploaded product shoot. Replaces the URL in the prompt.
+   */
+  subject?: string;
+  /** Audit rubric; defaults to the `default` profile. */
+  profile?: AuditProfile;
+  /** Brand rules to judge each image against; measured rules are added by `auditEncodedImages`. */
+  brandGuide?: BrandGuide;
+  /** Cancels the model request. */
+  signal?: AbortSignal;
+  /** Skip cached pages, images and model replies, and refresh them. */
+  fresh?: boolean;
+  /** Streams model progress and each image's analysis as soon as it is complete in the reply. */
+  onProgress?: (event: AuditProgressEvent) => void;
+}
+
+/**
+ * A provisional analysis for one entry of a reply still being streamed, or
+ * undefined when the entry does not match an input image or its schema yet.
+ * The validated result replaces it once the reply is complete.
+ */
+function previewImage(raw: unknown, itemSchema: SchemaNode, images: (EncodedImage & { id: string })[], profile: AuditProfile): ImageAnalysis | undefined {
+  const { output, valid } = validateAgainstSchema<ImageAnalysis & { brandFindings?: unknown }>(raw, itemSchema, true);
+  const source = output && images.find((img) => img.id === output.id);
+  if (!valid || !output || !source) return undefined;
+  const { brandFindings, ...image } = output;
+  const weighted = image.criteriaScores && weightedCriteriaScore(image.criteriaScores, profile);
+  return {
+    ...image,
+    url: source.url,
+    base64: source.base64,
+    mimeType: source.mimeType,
+    ...(weighted !== undefined && { qualityScore: weighted }),
+    regions: (image.regions || [])
+      .map((region) => {
+        const box = normalizeRegionBox(region.box);
+        return box && { ...region, box };
+      })
+      .filter((region): region is RegionFinding => region !== null)
+  };
+}
+
+/** Placeholder for an input asset the model returned no entry for. */
+function notAnalyzedImage(image: EncodedImage, id: string): ImageAnalysis {
+  return {
+    id,
+    url: image.url,
+    dominantColors: [],
+    composition: '',
+    lighting: '',
+    mood: '',
+    aesthetic: '',
+    qualityScore: 0,
+    description: '',
+    howToImprove: '',
+    notAnalyzed: true
+  };
+}
+
+/** Whether a reply parses and passes validation, i.e. is worth caching. */
+function isValidReply(text: string, expectations: ValidationExpectations, lenient: boolean): boolean {
+  try {
+    return validateModelOutput(JSON.parse(text || '{}'), expectations, lenient).valid;
+  } catch {
+    return false;
+  }
+}
 
+/**
+ * Each image is labelled with a stable id (`asset-1`, ...) that the model must
+ * echo back, and results are joined to their source by that id rather than by
+ * position. Images come back in input order. With a session budget set, the
+ * images may be downscaled or cut before the first request (see
+ * `fitToBudget`), and repair requests that would exceed it are refused.
+ */
 export async function analyzeProductPage(
   pageUrl: string, 
-  images: { url: string; base64: string; mimeType: string }[]
+  images: EncodedImage[],
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
-  const apiKey = (typeof process !== 'undefined' && process.env?.API_KEY) || '';
-  if (!apiKey) throw new Error("API Key is missing or invalid.");
-  
-  const ai = new GoogleGenAI({ apiKey });
-
-  const imageParts = images.map((img) => ({
-    inlineData: {
-      data: img.base64,
-      mimeType: img.mimeType || "image/jpeg"
+  const provider = getProvider(options.providerId);
+  if (!provider.isConfigured()) throw new Error(`${provider.label} is not configured. Check its API key or endpoint.`);
+  const profile = options.profile || getProfile();
+  const brandGuide = hasBrandRules(options.brandGuide) ? options.brandGuide : undefined;
+  const brandRules = brandGuide ? modelBrandRules(brandGuide) : [];
+  const references = brandGuide ? brandReferences(brandGuide) : undefined;
+  const schema = buildAnalysisSchema(profile, brandRules);
+  const brandPrompt = brandGuide ? renderBrandGuidePrompt(brandGuide) : '';
+  const instructions = `${renderProfilePrompt(profile, options.subject || pageUrl)}${brandPrompt ? `\n\n${brandPrompt}` : ''}`;
+
+  const label = (sent: EncodedImage[]) => sent.map((img, idx) => ({ ...img, id: img.id || `asset-${idx + 1}` }));
+  const promptFor = (sent: { id: string }[]) => `${instructions}
+
+Each image is preceded by its id (${sent.map((img) => img.id).join(', ')}). Return exactly one entry per image and copy its id verbatim into the "id" field.
+
+For each image, locate up to 5 specific problems (e.g. a harsh shadow, a cropped product edge, a cluttered background) in "regions": a box in fractions (0-1) of the image width and height from the top left, a short label, a category, a severity and a one-sentence note. Return an empty list for a flawless image.`;
+
+  // A reply already in the cache costs nothing, so only requests that will be sent are fitted to the budget.
+  const all = label(images);
+  const fullRequest = { prompt: promptFor(all), images: all, references, schema, temperature: profile.temperature };
+  const fitted = !options.fresh && await hasCachedReply(provider, fullRequest, PROMPT_VERSION)
+    ? { images: all, downsized: undefined }
+    : await fitToBudget(provider.model, fullRequest, downscaleEncodedImage);
+  const labelled = label(fitted.images);
+  const prompt = promptFor(labelled);
+
+  const expectations = {
+    imageCount: labelled.length,
+    imageIds: labelled.map((img) => img.id),
+    roadmapSteps: profile.roadmapSteps,
+    competitors: profile.competitors,
+    criteria: profile.criteria.map((c) => c.id),
+    brandRules,
+    schema
+  };
+  let request = prompt;
+  let issues: ValidationIssue[] = [];
+  let usage: AuditUsage | undefined;
+
+  // Each image is previewed once, from the first reply that completes its entry.
+  const progress = options.onProgress;
+  const previewed = new Set<string>();
+  const streamProgress = (text: string) => {
+    progress?.({ type: 'model-tokens', characters: text.length });
+    for (const raw of completedArrayItems(text, 'images')) {
+      const image = previewImage(raw, schema.properties!.images.items!, labelled, profile);
+      if (!image || previewed.has(image.id)) continue;
+      previewed.add(image.id);
+      progress?.({ type: 'image-analyzed', image });
     }
-  }));
-
-  const prompt = `
-    Conduct a professional visual audit of ${pageUrl}. 
-    
-    1. ASSET ANALYSIS: Evaluate the photography quality and technical composition of the provided images.
-    2. MARKET BENCHMARKING: Identify 3 high-performing direct competitors. Detail their specific visual strengths (lighting, model choice, layout).
-    3. OPTIMIZATION: Provide a concrete 5-step roadmap to surpass these competitors visually.
-    
-    Respond strictly in JSON format matching the schema.
-  `;
+  };
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [{ parts: [...imageParts, { text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: ANALYSIS_SCHEMA,
-        temperature: 0.7
+    // Strict on every attempt but the last, which accepts gaps as warnings.
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const sent = { prompt: request, images: labelled, references };
+      if (attempt > 0) checkBudget(provider.model, sent);
+      progress?.({ type: 'model-started', provider: provider.id, model: provider.model, imageCount: labelled.length, attempt: attempt + 1 });
+      const startedAt = Date.now();
+      const lenient = attempt === MAX_REPAIR_ATTEMPTS;
+      const response = await cachedGenerate(provider, {
+        ...sent,
+        schema,
+        temperature: profile.temperature,
+        signal: options.signal,
+        ...(progress && { onText: streamProgress })
+      }, {
+        fresh: options.fresh,
+        onProgress: progress,
+        promptVersion: PROMPT_VERSION,
+        // Only replies that pass validation are cached; failed ones are asked for again on the next run.
+        accept: (text) => isValidReply(text, expectations, lenient)
+      });
+      usage = trackResponse(usage, sent, response, Date.now() - startedAt);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || '{}');
+      } catch {
+        issues = [{ path: '$', message: 'is not valid JSON', severity: 'error' }];
+        request = buildRepairPrompt(prompt, response.text, issues);
+        continue;
       }
-    });
-
-    const parsed = JSON.parse(response.text || '{}');
-    return {
-      url: pageUrl,
-      images: (parsed.images || []).map((aiImg: any, idx: number) => ({
-        ...aiImg,
-        url: images[idx]?.url || ''
-      })),
-      summary: parsed.summary || {}
-    };
+
+      const outcome = validateModelOutput(parsed, expectations, lenient);
+      issues = outcome.issues;
+      if (outcome.valid && outcome.output) {
+        recordUsage({ audits: 1, images: labelled.length });
+        const byId = new Map(outcome.output.images.map((aiImg) => [aiImg.id, aiImg]));
+        return {
+          url: pageUrl,
+          images: labelled.map((img) => {
+            const found = byId.get(img.id);
+            if (!found) return notAnalyzedImage(img, img.id);
+            const { brandFindings, ...aiImg } = found;
+            // With criteria, the quality score is their weighted mean rather than the model's own figure.
+            const weighted = aiImg.criteriaScores && weightedCriteriaScore(aiImg.criteriaScores, profile);
+            return {
+              ...aiImg,
+              url: img.url,
+              ...(weighted !== undefined && { qualityScore: weighted }),
+              ...(brandGuide && { brandCompliance: scoreBrandCompliance(brandGuide, [], (brandFindings || []).map((f) => ({ ...f, source: 'model' as const }))) })
+            };
+          }),
+          summary: outcome.output.summary,
+          provider: provider.id,
+          model: response.model,
+          promptVersion: PROMPT_VERSION,
+          profile,
+          ...(brandGuide && { brandGuide }),
+          ...(issues.length > 0 && { validationIssues: issues }),
+          usage: { ...usage, ...(fitted.downsized && { downsized: fitted.downsized }) }
+        };
+      }
+      request = buildRepairPrompt(prompt, response.text, issues);
+    }
   } catch (error: any) {
+    if (isAbortError(error) || error instanceof BudgetExceededError) throw error;
     throw new Error(`Visual Analysis Engine Failed: ${error.message}`);
   }
+  throw new AnalysisValidationError(issues);
+}
+
+/** Self-hosted proxy mounted by the Vite dev server or `npm run proxy`. */
+export const DEFAULT_PROXY_BASE = '/api/fetch?url=';
+
+let proxyBase: string | null = readEnv('FETCH_PROXY_BASE') || DEFAULT_PROXY_BASE;
+
+/**
+ * Sets the prefix used to tunnel requests past CORS; the encoded target URL is
+ * appended to it. Pass `null` for direct fetching, e.g. when running under
+ * Node where CORS does not apply.
+ */
+export function setProxyBase(base: string | null): void {
+  proxyBase = base;
+}
+
+function toFetchUrl(url: string, device?: DeviceKind): string {
+  return proxyBase ? `${proxyBase}${encodeURIComponent(url)}${device ? `&device=${device}` : ''}` : url;
+}
+
+/**
+ * Fetches `url` through the proxy (or directly when none is set), with
+ * retries. With a `device`, the request carries that device's user agent and
+ * viewport hints: set by the proxy, or on the request itself when fetching
+ * directly.
+ */
+export function fetchViaProxy(url: string, init?: RequestInit, device?: DeviceKind): Promise<Response> {
+  if (device && !proxyBase) {
+    const headers = new Headers(init?.headers);
+    Object.entries(deviceRequestHeaders(device)).forEach(([name, value]) => headers.set(name, value));
+    init = { ...init, headers };
+  }
+  return fetchWithRetry(toFetchUrl(url, device), init);
 }
 
-export async function proxyFetchHtml(url: string): Promise<string> {
-  const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(url)}`;
-  const response = await fetch(proxyUrl);
-  if (!response.ok) throw new Error("CORS Proxy rejected the request. Target may have high security.");
+export async function readPageResponse(response: Response): Promise<string> {
+  if (!response.ok) throw new Error(`Fetch proxy rejected the request (${response.status}). Target may have high security.`);
   return await response.text();
 }
 
-export async function imageToBase64(url: string): Promise<{ base64: string; mimeType: string }> {
-  const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(url)}`;
-  const response = await fetch(proxyUrl);
+export async function proxyFetchHtml(url: string, signal?: AbortSignal): Promise<string> {
+  return readPageResponse(await fetchViaProxy(url, { signal }));
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Longest edge after downscaling; enough detail for a photography critique. */
+export const MAX_IMAGE_EDGE = 2048;
+/** Undecodable files (HEIC outside Safari) are sent as-is only below this size. */
+const MAX_PASSTHROUGH_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Re-encodes an image so its longest edge fits `maxEdge`, keeping PNG for
+ * PNG sources (transparency) and JPEG otherwise. Images already within the
+ * limit are sent untouched.
+ */
+export async function downscaleImage(blob: Blob, maxEdge = MAX_IMAGE_EDGE): Promise<{ base64: string; mimeType: string }> {
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = typeof createImageBitmap !== 'undefined' ? await createImageBitmap(blob) : null;
+  } catch {
+    bitmap = null;
+  }
+  if (!bitmap) {
+    if (blob.size > MAX_PASSTHROUGH_BYTES) throw new Error("This browser cannot decode the image to downscale it. Convert it to JPEG first.");
+    return { base64: arrayBufferToBase64(await blob.arrayBuffer()), mimeType: blob.type };
+  }
+
+  const scale = maxEdge / Math.max(bitmap.width, bitmap.height);
+  if (scale >= 1 && blob.type !== 'image/heic' && blob.type !== 'image/heif') {
+    bitmap.close();
+    return { base64: arrayBufferToBase64(await blob.arrayBuffer()), mimeType: blob.type };
+  }
+
+  const width = Math.round(bitmap.width * Math.min(1, scale));
+  const height = Math.round(bitmap.height * Math.min(1, scale));
+  const mimeType = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  const canvas = Object.assign(document.createElement('canvas'), { width, height });
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const resized = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, 0.9));
+  if (!resized) throw new Error("Image could not be re-encoded.");
+  return { base64: arrayBufferToBase64(await resized.arrayBuffer()), mimeType };
+}
+
+/** An encoded image downscaled to `maxEdge`; unchanged where it cannot be decoded. */
+export async function downscaleEncodedImage(image: EncodedImage, maxEdge: number): Promise<EncodedImage> {
+  try {
+    return { ...image, ...(await downscaleImage(new Blob([base64ToBytes(image.base64)], { type: image.mimeType }), maxEdge)) };
+  } catch {
+    return image;
+  }
+}
+
+/**
+ * Reads an image response as base64. Any image type is accepted here;
+ * formats the models do not take are converted or rejected by preprocessing.
+ */
+export async function encodeImageResponse(response: Response): Promise<{ base64: string; mimeType: string }> {
   if (!response.ok) throw new Error(`Asset Retrieval Failed (${response.status})`);
   const blob = await response.blob();
-  
-  // Explicitly check for supported types to avoid SVG 400 errors
-  const supportedMimes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
-  if (!supportedMimes.includes(blob.type)) {
-    throw new Error(`Unsupported image type: ${blob.type}. SVGs are not supported for visual audits.`);
-  }
+  // SVGs are often served with a charset parameter.
+  const mimeType = blob.type.split(';')[0].trim().toLowerCase();
+  if (!mimeType.startsWith('image/')) throw new Error(`Not an image: ${blob.type || 'no content type'}`);
+  return { base64: arrayBufferToBase64(await blob.arrayBuffer()), mimeType };
+}
 
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      resolve({ base64, mimeType: blob.type });
-    };
-    reader.readAsDataURL(blob);
-  });
-}
\ No newline at end of file
+export async function imageToBase64(url: string, signal?: AbortSignal): Promise<{ base64: string; mimeType: string }> {
+  return encodeImageResponse(await fetchViaProxy(url, { signal }));
+}
@@ -0,0 +1,101 @@
+import { AnalysisResult, AuditHistoryEntry, ImageAnalysis } from "../types.ts";
+import { AnalysisValidationError, validateModelOutput } from "./analysisValidation.ts";
+
+export interface HistoryStore {
+  /** All entries, newest first. */
+  list(): Promise<AuditHistoryEntry[]>;
+  get(id: string): Promise<AuditHistoryEntry | undefined>;
+  save(entry: AuditHistoryEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export function createHistoryEntry(result: AnalysisResult, savedAt = new Date()): AuditHistoryEntry {
+  return {
+    id: crypto.randomUUID(),
+    savedAt: savedAt.toISOString(),
+    url: result.url,
+    provider: result.provider,
+    model: result.model,
+    promptVersion: result.promptVersion,
+    result
+  };
+}
+
+export function sortHistory(entries: AuditHistoryEntry[]): AuditHistoryEntry[] {
+  return [...entries].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/** Case-insensitive match on URL, model, uploaded product and the report's creative style. */
+export function searchHistory(entries: AuditHistoryEntry[], query: string): AuditHistoryEntry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  return entries.filter((entry) =>
+    [entry.url, entry.model, entry.provider, entry.result.summary?.creativeStyle, entry.result.upload?.productName, entry.result.upload?.category]
+      .some((field) => field?.toLowerCase().includes(q))
+  );
+}
+
+/**
+ * Parses an `audit_data.json` export from `ReportView` (or a stored history
+ * entry) back into an `AnalysisResult`, applying the same validation and
+ * repairs as fresh model output.
+ */
+export function parseImportedAudit(json: string): AnalysisResult {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Import failed: file is not valid JSON.");
+  }
+  const result = data?.result && data?.savedAt ? data.result : data;
+  if (typeof result?.url !== 'string' || !Array.isArray(result?.images) || typeof result?.summary !== 'object') {
+    throw new Error("Import failed: file is not a VisualSense audit export.");
+  }
+  const outcome = validateModelOutput({ images: result.images, summary: result.summary }, { imageCount: result.images.length }, true);
+  if (!outcome.valid || !outcome.output) throw new AnalysisValidationError(outcome.issues);
+  return { ...result, images: outcome.output.images as ImageAnalysis[], summary: outcome.output.summary };
+}
+
+const DB_NAME = 'visualsense';
+const STORE_NAME = 'audits';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('savedAt', 'savedAt');
+    store.createIndex('url', 'url');
+  };
+  return promisify(request);
+}
+
+/** Browser history store backed by IndexedDB, which copes with base64-heavy audits. */
+export function createIndexedDbHistoryStore(): HistoryStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const objectStore = async (mode: IDBTransactionMode) => {
+    db ??= openDatabase();
+    return (await db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  return {
+    async list() {
+      return sortHistory(await promisify((await objectStore('readonly')).getAll()));
+    },
+    async get(id) {
+      return promisify((await objectStore('readonly')).get(id));
+    },
+    async save(entry) {
+      await promisify((await objectStore('readwrite')).put(entry));
+    },
+    async delete(id) {
+      await promisify((await objectStore('readwrite')).delete(id));
+    }
+  };
+}
@@ -0,0 +1,205 @@
+import { AnalysisResult, ImageAnalysis, RegionBox, RegionSeverity } from '../types.ts';
+import { summarizeMetrics, summarizePreprocessing } from './imageMetrics.ts';
+import { benchmarkScores, findBenchmarkFor } from './competitorBenchmark.ts';
+import { BRAND_RULE_LABELS } from './brandGuide.ts';
+
+const TONES: Record<RegionSeverity | 'issue' | 'strength', string> = {
+  high: '#f43f5e',
+  medium: '#f59e0b',
+  low: '#0ea5e9',
+  issue: '#f43f5e',
+  strength: '#10b981'
+};
+
+const STYLE = `
+*{box-sizing:border-box}
+body{margin:0;background:#f8fafc;color:#0f172a;font:15px/1.55 system-ui,-apple-system,"Segoe UI",Roboto,sans-serif}
+main{max-width:1100px;margin:0 auto;padding:48px 24px}
+header{background:#4f46e5;color:#fff;border-radius:32px;padding:40px}
+header h1{margin:4px 0 8px;font-size:34px;line-height:1.15}
+header p{margin:0;opacity:.8;word-break:break-all}
+section{background:#fff;border:1px solid #f1f5f9;border-radius:32px;padding:32px;margin-top:28px}
+h2{margin:0 0 20px;font-size:22px}
+h3{margin:24px 0 8px;font-size:16px}
+.label{font-size:10px;font-weight:800;letter-spacing:.12em;text-transform:uppercase;color:#94a3b8;margin:16px 0 4px}
+.tiles{display:grid;grid-template-columns:repeat(auto-fit,minmax(160px,1fr));gap:16px;margin-top:28px}
+.tile{background:#fff;color:#0f172a;border-radius:20px;padding:16px 20px}
+.tile b{display:block;font-size:30px;color:#4f46e5}
+table{width:100%;border-collapse:collapse;font-size:13px}
+th,td{text-align:left;padding:8px 10px;border-bottom:1px solid #f1f5f9;vertical-align:top}
+th{font-size:10px;letter-spacing:.1em;text-transform:uppercase;color:#64748b}
+.assets{display:grid;grid-template-columns:repeat(auto-fill,minmax(320px,1fr));gap:24px}
+.asset{border:1px solid #f1f5f9;border-radius:24px;overflow:hidden}
+.asset .body{padding:20px}
+.frame{position:relative;line-height:0;background:#e2e8f0}
+.frame img{width:100%;height:auto}
+.box{position:absolute;border:2px solid;border-radius:6px}
+.box span{position:absolute;top:-10px;left:-10px;width:20px;height:20px;border-radius:50%;color:#fff;font:800 10px/20px system-ui,sans-serif;text-align:center}
+.shot{max-height:720px;overflow-y:auto;border-radius:20px;background:#f1f5f9;padding:12px}
+.shot.mobile .frame{max-width:390px;margin:0 auto}
+.swatch{display:inline-flex;align-items:center;gap:6px;margin:0 12px 6px 0;font-size:12px;font-family:ui-monospace,monospace}
+.swatch i{width:14px;height:14px;border-radius:4px;border:1px solid #cbd5e1}
+.pass{color:#059669;font-weight:700}.fail{color:#e11d48;font-weight:700}
+.muted{color:#94a3b8;font-size:12px;word-break:break-all}
+.tip{background:#eef2ff;border-radius:16px;padding:12px 16px;font-weight:600}
+footer{margin-top:28px;text-align:center;color:#94a3b8;font-size:12px}
+`;
+
+function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+/** Only inline data URIs and http(s) links may become an `<img src>`. */
+function imageSource(base64: string | undefined, mimeType: string | undefined, url?: string): string | null {
+  if (base64 && mimeType) return `data:${mimeType};base64,${base64}`;
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+function regionBoxes(regions: { box: RegionBox; color: string; title: string }[]): string {
+  const pct = (v: number) => `${Math.round(v * 10000) / 100}%`;
+  return regions
+    .map(({ box, color, title }, idx) => `<div class="box" title="${escapeHtml(title)}" style="left:${pct(box.x)};top:${pct(box.y)};width:${pct(box.width)};height:${pct(box.height)};border-color:${color}"><span style="background:${color}">${idx + 1}</span></div>`)
+    .join('');
+}
+
+function list(items: string[], ordered = false): string {
+  const tag = ordered ? 'ol' : 'ul';
+  return `<${tag}>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</${tag}>`;
+}
+
+function swatches(colors: string[]): string {
+  return colors.map((c) => `<span class="swatch"><i style="background:${escapeHtml(c)}"></i>${escapeHtml(c)}</span>`).join('');
+}
+
+function averageQuality(images: ImageAnalysis[]): number {
+  const analyzed = images.filter((img) => !img.notAnalyzed);
+  return Math.round(analyzed.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(analyzed.length, 1));
+}
+
+function summarySection(result: AnalysisResult): string {
+  const { summary } = result;
+  const fields = summary.profileFields
+    ? `<h3>${escapeHtml(result.profile?.name || 'Profile')} Findings</h3><table>${Object.entries(summary.profileFields)
+      .map(([name, value]) => `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(Array.isArray(value) ? value.join(', ') : value)}</td></tr>`)
+      .join('')}</table>`
+    : '';
+  return `<section><h2>Visual DNA Assessment</h2>
+<p class="label">Creative style</p><p><strong>${escapeHtml(summary.creativeStyle)}</strong></p>
+<p class="label">Overall aesthetic</p><p>${escapeHtml(summary.overallAesthetic)}</p>
+${result.layout ? '' : `<p class="label">Typography</p><p>${escapeHtml(summary.typographyNotes)}</p><p class="label">Layout</p><p>${escapeHtml(summary.layoutAnalysis)}</p>`}
+${fields}</section>`;
+}
+
+function brandSection(result: AnalysisResult): string {
+  const summary = result.brandComplianceSummary;
+  if (!summary) return '';
+  return `<section><h2>Brand Compliance${result.brandGuide?.name ? `: ${escapeHtml(result.brandGuide.name)}` : ''}</h2>
+<p><strong>${summary.score}%</strong> of checks passed.</p>
+<table><tr><th>Rule</th><th>Passed</th></tr>${summary.rules.map((r) => `<tr><td>${BRAND_RULE_LABELS[r.rule]}</td><td>${r.passed}/${r.total}</td></tr>`).join('')}</table>
+${result.brandGuide?.palette.length ? `<p class="label">Brand palette</p>${swatches(result.brandGuide.palette)}` : ''}</section>`;
+}
+
+function layoutSection(result: AnalysisResult): string {
+  const { layout } = result;
+  if (!layout) return result.layoutError ? `<section><h2>Layout &amp; Typography</h2><p class="muted">Screenshots unavailable: ${escapeHtml(result.layoutError)}</p></section>` : '';
+  const numbered = layout.annotations.map((annotation, idx) => ({ annotation, number: idx + 1 }));
+  const shots = layout.screenshots.map((shot) => {
+    const src = imageSource(shot.base64, shot.mimeType);
+    if (!src) return '';
+    const own = numbered.filter(({ annotation }) => annotation.screenshotId === shot.id);
+    return `<h3>${shot.viewport === 'desktop' ? 'Desktop' : 'Mobile'}, ${shot.kind === 'fold' ? 'above the fold' : `full page${shot.truncated ? ' (cut off)' : ''}`}</h3>
+<div class="shot ${shot.viewport}"><div class="frame"><img src="${src}" alt="${escapeHtml(shot.id)}">${regionBoxes(own.map(({ annotation }) => ({ box: annotation.box, color: TONES[annotation.kind], title: `${annotation.label}: ${annotation.note}` })))}</div></div>
+${own.length ? `<ol>${own.map(({ annotation }) => `<li><span class="${annotation.kind === 'issue' ? 'fail' : 'pass'}">${annotation.kind}</span> <strong>${escapeHtml(annotation.label)}</strong>: ${escapeHtml(annotation.note)}</li>`).join('')}</ol>` : ''}`;
+  }).join('');
+  return `<section><h2>Layout &amp; Typography</h2>
+<p class="label">Typography</p><p>${escapeHtml(layout.typographyNotes)}</p>
+<p class="label">Layout</p><p>${escapeHtml(layout.layoutAnalysis)}</p>
+<p class="label">Hierarchy</p><p>${escapeHtml(layout.hierarchyNotes)}</p>${shots}</section>`;
+}
+
+function benchmarkSection(result: AnalysisResult): string {
+  const { summary } = result;
+  if (!result.benchmarks?.length && summary.competitors.length === 0) return '';
+  const share = (value: number | undefined) => (value === undefined ? '–' : `${Math.round(value * 100)}%`);
+  const rows = result.benchmarks?.length ? [benchmarkScores(result, 'This page'), ...result.benchmarks.filter((b) => b.audit).map((b) => benchmarkScores(b.audit!))] : [];
+  const table = rows.length
+    ? `<table><tr><th>Page</th><th>Brand sync</th><th>Avg quality</th><th>Median long edge</th><th>Sharp</th><th>White background</th></tr>${rows
+      .map((s) => `<tr><td>${escapeHtml(s.label)}</td><td>${s.brandConsistency}%</td><td>${s.averageQuality}%</td><td>${s.medianLongEdge === undefined ? '–' : `${s.medianLongEdge}px`}</td><td>${share(s.sharpShare)}</td><td>${share(s.whiteBackgroundShare)}</td></tr>`)
+      .join('')}${(result.benchmarks || []).filter((b) => !b.audit).map((b) => `<tr><td>${escapeHtml(b.url)}</td><td colspan="5" class="fail">failed: ${escapeHtml(b.error)}</td></tr>`).join('')}</table>`
+    : '';
+  const competitors = summary.competitors
+    .map((comp) => `<h3>${escapeHtml(comp.name)}${findBenchmarkFor(comp, result.benchmarks) ? '' : ' <span class="muted">(unverified model suggestion)</span>'}</h3><p>${escapeHtml(comp.marketPosition)}. ${escapeHtml(comp.visualTakeaway)}</p>${list(comp.strengths)}`)
+    .join('');
+  return `<section><h2>Competitive Benchmarking</h2>${table}${competitors}</section>`;
+}
+
+function assetCard(result: AnalysisResult, img: ImageAnalysis, idx: number): string {
+  const src = imageSource(img.base64, img.mimeType, img.url);
+  const regions = img.regions || [];
+  const frame = src
+    ? `<div class="frame"><img src="${src}" alt="Asset ${idx + 1}">${regionBoxes(regions.map((r) => ({ box: r.box, color: TONES[r.severity], title: `${r.label}: ${r.note}` })))}</div>`
+    : '';
+  const body = img.notAnalyzed
+    ? '<p class="muted">The model returned no analysis for this asset.</p>'
+    : `<table>
+<tr><th>Lighting</th><td>${escapeHtml(img.lighting)}</td></tr>
+<tr><th>Composition</th><td>${escapeHtml(img.composition)}</td></tr>
+<tr><th>Mood</th><td>${escapeHtml(img.mood)}</td></tr>
+${(img.criteriaScores || []).map((cs) => `<tr><th>${escapeHtml(result.profile?.criteria.find((c) => c.id === cs.criterion)?.label || cs.criterion)}</th><td>${cs.score}: ${escapeHtml(cs.note)}</td></tr>`).join('')}
+${(img.brandCompliance?.findings || []).map((f) => `<tr><th>${BRAND_RULE_LABELS[f.rule]}</th><td><span class="${f.pass ? 'pass' : 'fail'}">${f.pass ? 'Pass' : 'Fail'}</span> ${escapeHtml(f.note)}</td></tr>`).join('')}
+</table>
+<p class="label">Dominant colors</p>${swatches(img.dominantColors)}
+${regions.length ? `<p class="label">Located issues</p><ol>${regions.map((r) => `<li><strong>${escapeHtml(r.label)}</strong> <span class="muted">${r.severity} · ${r.category}</span>: ${escapeHtml(r.note)}</li>`).join('')}</ol>` : ''}
+<p class="tip">${escapeHtml(img.howToImprove)}</p>`;
+  return `<article class="asset">${frame}<div class="body">
+<h3>Asset #${idx + 1} · ${img.notAnalyzed ? 'not analyzed' : `${img.qualityScore}%`}</h3>
+<p class="muted">${escapeHtml(img.url.startsWith('data:') ? 'Inline image' : img.url)}</p>
+${body}
+${img.metrics ? `<p class="muted">Measured: ${escapeHtml(summarizeMetrics(img.metrics))}</p>` : ''}
+${img.preprocessing ? `<p class="muted">Preprocessed: ${escapeHtml(summarizePreprocessing(img.preprocessing))}</p>` : ''}
+</div></article>`;
+}
+
+/**
+ * Single-file HTML report: styles are inlined and images embedded as data
+ * URIs where the audit stored them, so the file can be mailed or archived
+ * and still opens offline.
+ */
+export function buildHtmlReport(result: AnalysisResult, date = new Date()): string {
+  const subject = result.upload ? result.upload.productName || 'Uploaded photography' : result.url;
+  const tiles = [
+    ['Brand consistency', `${result.summary.brandConsistency}%`],
+    ['Average quality', `${averageQuality(result.images)}%`],
+    ...(result.brandComplianceSummary ? [['Brand compliance', `${result.brandComplianceSummary.score}%`]] : []),
+    ['Assets audited', String(result.images.length)]
+  ];
+  const meta = [date.toISOString().slice(0, 10), result.model, result.profile && `${result.profile.name} profile`].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Visual Audit: ${escapeHtml(subject)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<header>
+<p class="label" style="color:#c7d2fe">Visual Audit Report</p>
+<h1>${escapeHtml(subject)}</h1>
+<p>${escapeHtml(meta)}</p>
+<div class="tiles">${tiles.map(([label, value]) => `<div class="tile"><span class="label">${label}</span><b>${value}</b></div>`).join('')}</div>
+</header>
+${summarySection(result)}
+${brandSection(result)}
+${layoutSection(result)}
+<section><h2>Action Items</h2>${list(result.summary.marketingActionables)}<h3>Optimization Roadmap</h3>${list(result.summary.visualRoadmap, true)}</section>
+${benchmarkSection(result)}
+<section><h2>Asset Audit</h2><div class="assets">${result.images.map((img, idx) => assetCard(result, img, idx)).join('\n')}</div></section>
+<footer>Generated by VisualSense</footer>
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,310 @@
+/**
+ * String-based HTML scanning so the same extraction rules run in the browser
+ * and under Node, where `DOMParser` is not available.
+ */
+import { DeviceKind } from "../types.ts";
+
+export type CandidateSource = 'json-ld' | 'og:image' | 'twitter:image' | 'picture' | 'img' | 'background';
+
+export interface ImageCandidate {
+  url: string;
+  source: CandidateSource;
+  score: number;
+  /** Human-readable explanation of why the image was picked and ranked. */
+  reasons: string[];
+  /** Width from a `w` srcset descriptor, `width` attribute or Magento cache path, when known. */
+  width?: number;
+  /** Page variants the candidate was found on, when mobile and desktop were both fetched. */
+  devices?: DeviceKind[];
+}
+
+export interface ExtractOptions {
+  /** Maximum number of ranked candidates to return. */
+  maxCandidates?: number;
+  /** When set, only URLs matching at least one pattern are kept. Strings match case-insensitively as substrings. */
+  include?: (string | RegExp)[];
+  /** URLs matching any pattern are dropped. Defaults to {@link DEFAULT_EXCLUDE}. */
+  exclude?: (string | RegExp)[];
+  /**
+   * CSS viewport width to resolve `<picture>` art direction for: only the
+   * source a browser of that width would pick is kept. By default every
+   * source is a candidate.
+   */
+  viewportWidth?: number;
+}
+
+export const DEFAULT_EXCLUDE: (string | RegExp)[] = [
+  'icon', 'logo', 'sprite', 'favicon', 'placeholder', 'spinner', 'badge', /\/pixel\b/i,
+  // Interface graphics and spacers, which come as SVG or GIF.
+  /\/(loading|loader|arrow|chevron|caret|close|spacer|blank|transparent)[\w-]*\.(svg|gif)(\?|$)/i
+];
+
+const SOURCE_SCORES: Record<CandidateSource, number> = {
+  'json-ld': 100,
+  'og:image': 90,
+  'twitter:image': 80,
+  picture: 60,
+  img: 50,
+  background: 30
+};
+
+/** Formats the models accept, plus those preprocessing converts (SVG, GIF, BMP, AVIF). */
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'avif', 'heic', 'heif', 'svg', 'gif', 'bmp'];
+const PRODUCT_HINT = /(product|pdp|zoom|large|hero|main|master|original)/i;
+
+const ATTR_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+export function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(ATTR_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+export function findTags(html: string, tagName: string): Record<string, string>[] {
+  const pattern = new RegExp(`<${tagName}\\b[^>]*>`, 'gi');
+  return Array.from(html.matchAll(pattern), (match) => parseAttributes(match[0]));
+}
+
+function findBlocks(html: string, tagName: string): { attrs: Record<string, string>; body: string }[] {
+  const pattern = new RegExp(`<${tagName}\\b([^>]*)>([\\s\\S]*?)</${tagName}>`, 'gi');
+  return Array.from(html.matchAll(pattern), (match) => ({ attrs: parseAttributes(match[1]), body: match[2] }));
+}
+
+/**
+ * Parses a `srcset` value into URL/descriptor pairs, tokenizing as the HTML
+ * spec does: a URL runs up to whitespace (so CDN URLs with inline commas
+ * survive) and its descriptors run up to the next comma outside parentheses.
+ */
+export function parseSrcset(srcset: string): { url: string; width?: number; density?: number }[] {
+  const entries: { url: string; width?: number; density?: number }[] = [];
+  let pos = 0;
+  while (pos < srcset.length) {
+    while (pos < srcset.length && /[\s,]/.test(srcset[pos])) pos++;
+    const urlStart = pos;
+    while (pos < srcset.length && !/\s/.test(srcset[pos])) pos++;
+    let url = srcset.slice(urlStart, pos);
+    let descriptor = '';
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      const descriptorStart = pos;
+      let depth = 0;
+      for (; pos < srcset.length && (depth > 0 || srcset[pos] !== ','); pos++) {
+        if (srcset[pos] === '(') depth++;
+        else if (srcset[pos] === ')') depth = Math.max(0, depth - 1);
+      }
+      descriptor = srcset.slice(descriptorStart, pos).trim();
+    }
+    if (!url) continue;
+    const value = parseFloat(descriptor);
+    if (descriptor.endsWith('w')) entries.push({ url, width: value });
+    else if (descriptor.endsWith('x')) entries.push({ url, density: value });
+    else entries.push({ url });
+  }
+  return entries;
+}
+
+/** Picks the largest srcset entry, preferring width descriptors over pixel densities. */
+export function pickLargestFromSrcset(srcset: string): { url: string; width?: number } | null {
+  const entries = parseSrcset(srcset);
+  if (entries.length === 0) return null;
+  const ranked = [...entries].sort((a, b) =>
+    (b.width ?? 0) - (a.width ?? 0) || (b.density ?? 1) - (a.density ?? 1)
+  );
+  return ranked[0].width || ranked[0].density ? ranked[0] : entries[entries.length - 1];
+}
+
+/**
+ * Evaluates the width conditions of a media query list (`min-width`,
+ * `max-width` in px or em) for a viewport; `print` never matches and other
+ * features are assumed to match.
+ */
+export function mediaMatchesWidth(media: string, width: number): boolean {
+  return media.split(',').some((query) => {
+    if (/^\s*(only\s+)?print\b/i.test(query)) return false;
+    const negated = /^\s*not\s/i.test(query);
+    const matches = Array.from(query.matchAll(/\(\s*(min|max)-width\s*:\s*([\d.]+)\s*(px|r?em)?\s*\)/gi)).every(([, bound, value, unit]) => {
+      const px = parseFloat(value) * (unit && unit.toLowerCase() !== 'px' ? 16 : 1);
+      return bound.toLowerCase() === 'min' ? width >= px : width <= px;
+    });
+    return negated ? !matches : matches;
+  });
+}
+
+function matchesPattern(url: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? url.toLowerCase().includes(pattern.toLowerCase()) : pattern.test(url);
+}
+
+function isLikelyImage(url: URL): boolean {
+  const ext = url.pathname.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+  // Extension-less CDN URLs are common for product media, so only reject known non-image types.
+  return !ext || IMAGE_EXTENSIONS.includes(ext);
+}
+
+/** Magento serves resized copies of a catalog image from `/media/catalog/product/cache/<hash>/…/<file>`. */
+const MAGENTO_CACHE = /\/media\/catalog\/product\/cache\/(?:.+\/)?([^/]+)$/i;
+
+/** One key for every cached size of a Magento catalog image; any other URL is its own key. */
+function renditionKey(url: URL): string {
+  const file = url.pathname.match(MAGENTO_CACHE)?.[1];
+  return file ? `${url.origin}/media/catalog/product/${file}` : url.href;
+}
+
+/** Width in a Magento cache path, e.g. 700 for `…/image/700x700/…` or 1800 for `…/image/1800x/…`. */
+function renditionWidth(url: URL): number | undefined {
+  if (!MAGENTO_CACHE.test(url.pathname)) return undefined;
+  const size = url.pathname.match(/\/(\d+)x\d*\//)?.[1];
+  return size ? Number(size) : undefined;
+}
+
+function collectJsonLdImages(node: unknown, out: string[]): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectJsonLdImages(child, out));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+  const obj = node as Record<string, unknown>;
+  const types = ([] as unknown[]).concat(obj['@type'] ?? []);
+  if (types.includes('Product') || types.includes('ProductGroup')) {
+    ([] as unknown[]).concat(obj.image ?? []).forEach((image) => {
+      if (typeof image === 'string') out.push(image);
+      else if (image && typeof image === 'object') {
+        const ref = (image as Record<string, unknown>).contentUrl ?? (image as Record<string, unknown>).url;
+        if (typeof ref === 'string') out.push(ref);
+      }
+    });
+  }
+  if (obj['@graph']) collectJsonLdImages(obj['@graph'], out);
+  if (obj.hasVariant) collectJsonLdImages(obj.hasVariant, out);
+}
+
+/**
+ * Scans a page for product imagery and returns ranked candidates with the
+ * reasons each was picked. Structured data (JSON-LD, Open Graph, Twitter
+ * cards) outranks `<picture>`/`<img>` markup, which outranks CSS backgrounds.
+ */
+export function extractImageCandidates(html: string, baseUrl: string, options: ExtractOptions = {}): ImageCandidate[] {
+  const { maxCandidates = 5, include, exclude = DEFAULT_EXCLUDE, viewportWidth } = options;
+  const base = findTags(html, 'base')[0]?.href;
+  let resolvedBase = baseUrl;
+  try { if (base) resolvedBase = new URL(base, baseUrl).href; } catch {}
+
+  const found = new Map<string, ImageCandidate>();
+
+  const add = (raw: string | undefined, source: CandidateSource, reason: string, extra: { width?: number; hint?: string } = {}) => {
+    if (!raw || raw.startsWith('data:') || raw.startsWith('blob:')) return;
+    let parsed: URL;
+    try { parsed = new URL(raw.trim(), resolvedBase); } catch { return; }
+    if (!parsed.protocol.startsWith('http') || !isLikelyImage(parsed)) return;
+
+    const url = parsed.href;
+    if (exclude.some((p) => matchesPattern(url, p))) return;
+    if (include && !include.some((p) => matchesPattern(url, p))) return;
+
+    const width = extra.width ?? renditionWidth(parsed);
+    let score = SOURCE_SCORES[source];
+    const reasons = [reason];
+    if (width !== undefined) {
+      if (width >= 1000) { score += 10; reasons.push(`high resolution (${width}w)`); }
+      else if (width < 150) { score -= 40; reasons.push(`small rendition (${width}w)`); }
+    }
+    if (PRODUCT_HINT.test(url) || (extra.hint && PRODUCT_HINT.test(extra.hint))) {
+      score += 5;
+      reasons.push('product keyword in URL or alt text');
+    }
+
+    // Sizes of one Magento image share a key, and the entry keeps the largest.
+    const key = renditionKey(parsed);
+    const existing = found.get(key);
+    if (existing) {
+      // Assets referenced from several places are more likely to be the hero.
+      existing.score = Math.max(existing.score, score) + 5;
+      if (existing.url === url) {
+        existing.reasons.push(`also ${reason}`);
+        if (existing.width === undefined) existing.width = width;
+      } else if ((width ?? 0) > (existing.width ?? 0)) {
+        existing.reasons.push(`also ${reason}, which is larger (${width}w) and used instead`);
+        existing.url = url;
+        existing.width = width;
+      } else {
+        existing.reasons.push(`also ${reason} at a smaller size`);
+      }
+      return;
+    }
+    found.set(key, { url, source, score, reasons, width });
+  };
+
+  findBlocks(html, 'script')
+    .filter(({ attrs }) => attrs.type?.toLowerCase() === 'application/ld+json')
+    .forEach(({ body }) => {
+      try {
+        const images: string[] = [];
+        collectJsonLdImages(JSON.parse(body), images);
+        images.forEach((src) => add(src, 'json-ld', 'JSON-LD Product.image'));
+      } catch {}
+    });
+
+  findTags(html, 'meta').forEach((meta) => {
+    const key = (meta.property || meta.name || '').toLowerCase();
+    if (key === 'og:image' || key === 'og:image:secure_url') add(meta.content, 'og:image', `${key} meta tag`);
+    if (key === 'twitter:image' || key === 'twitter:image:src') add(meta.content, 'twitter:image', `${key} meta tag`);
+  });
+
+  // `<img>` fallbacks a browser at `viewportWidth` would replace with a matching source.
+  const hiddenFallbacks = new Set<string>();
+  findBlocks(html, 'picture').forEach(({ body }) => {
+    const sources = findTags(body, 'source');
+    if (viewportWidth !== undefined) {
+      const shown = sources.find((source) => !source.media || mediaMatchesWidth(source.media, viewportWidth));
+      const largest = shown && pickLargestFromSrcset(shown.srcset || shown['data-srcset'] || '');
+      if (largest) {
+        add(largest.url, 'picture', `<picture> source for a ${viewportWidth}px viewport${shown.media ? ` (${shown.media})` : ''}`, { width: largest.width });
+        findTags(body, 'img').forEach((img) => hiddenFallbacks.add(JSON.stringify(img)));
+      }
+      return;
+    }
+    sources.forEach((source) => {
+      const largest = pickLargestFromSrcset(source.srcset || source['data-srcset'] || '');
+      if (largest) add(largest.url, 'picture', '<picture> source (largest srcset candidate)', { width: largest.width });
+    });
+  });
+
+  findTags(html, 'img').forEach((img) => {
+    if (hiddenFallbacks.has(JSON.stringify(img))) return;
+    const hint = img.alt || '';
+    const declaredWidth = parseInt(img.width, 10) || undefined;
+    if (img['data-zoom-src'] || img['data-zoom-image']) {
+      add(img['data-zoom-src'] || img['data-zoom-image'], 'img', '<img> zoom source', { width: 1000, hint });
+    }
+    const largest = pickLargestFromSrcset(img.srcset || img['data-srcset'] || '');
+    if (largest) add(largest.url, 'img', '<img> largest srcset candidate', { width: largest.width, hint });
+    const lazy = img['data-src'] || img['data-lazy-src'] || img['data-original'];
+    if (lazy) add(lazy, 'img', '<img> lazy-load source', { width: declaredWidth, hint });
+    else if (!largest) add(img.src, 'img', '<img> src', { width: declaredWidth, hint });
+  });
+
+  const cssSources = [
+    ...findTags(html, '[a-z][a-z0-9-]*').map((attrs) => attrs.style).filter(Boolean),
+    ...findBlocks(html, 'style').map(({ body }) => body)
+  ];
+  cssSources.forEach((css) => {
+    for (const match of css.matchAll(/background(?:-image)?\s*:[^;}]*?url\(\s*(['"]?)([^'")]+)\1\s*\)/gi)) {
+      add(match[2], 'background', 'CSS background-image');
+    }
+  });
+
+  return Array.from(found.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxCandidates);
+}
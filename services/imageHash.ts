@@ -0,0 +1,83 @@
+/**
+ * Pixel access and perceptual hashing for encoded assets. Decoding relies on
+ * `createImageBitmap` and canvas, so under Node these helpers return null and
+ * callers fall back to URL or byte-level comparison.
+ */
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+  /** RGBA pixels at `width` x `height`. */
+  data: Uint8ClampedArray;
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function canDecodeImages(): boolean {
+  return typeof createImageBitmap !== 'undefined' && (typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined');
+}
+
+/** Decodes and resamples an image to the given size (default: natural size). */
+export async function decodeImage(base64: string, mimeType: string, size?: { width: number; height: number }): Promise<DecodedImage | null> {
+  if (!canDecodeImages()) return null;
+  try {
+    const bitmap = await createImageBitmap(new Blob([base64ToBytes(base64)], { type: mimeType }));
+    const width = size?.width ?? bitmap.width;
+    const height = size?.height ?? bitmap.height;
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height)
+      : Object.assign(document.createElement('canvas'), { width, height });
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const decoded = { width, height, naturalWidth: bitmap.width, naturalHeight: bitmap.height, data };
+    bitmap.close();
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 64-bit difference hash (dHash) as 16 hex characters. Robust to resizing and
+ * recompression, so the same photo at different srcset sizes hashes alike.
+ */
+export async function computePerceptualHash(base64: string, mimeType: string): Promise<string | undefined> {
+  const image = await decodeImage(base64, mimeType, { width: 9, height: 8 });
+  if (!image) return undefined;
+
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return image.data[i] * 0.299 + image.data[i + 1] * 0.587 + image.data[i + 2] * 0.114;
+  };
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+    let xor = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+/** Hashes at or under this Hamming distance are treated as the same photo. */
+export const SIMILAR_HASH_DISTANCE = 10;
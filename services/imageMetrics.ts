@@ -0,0 +1,250 @@
+import { ImageMetrics, ImagePreprocessing } from "../types.ts";
+import { DecodedImage, base64ToBytes, decodeImage } from "./imageHash.ts";
+
+/** Longest edge used for pixel statistics; keeps the pass fast on large assets. */
+const ANALYSIS_EDGE = 512;
+/** Laplacian variance below which an image reads as soft at the analysis size. */
+const BLUR_THRESHOLD = 100;
+/** Share of near-white border pixels required for marketplace white-background rules. */
+const WHITE_BACKGROUND_SHARE = 0.95;
+const PALETTE_SIZE = 5;
+
+/**
+ * Reads pixel dimensions from PNG, JPEG, GIF and WebP headers without
+ * decoding, so resolution is known even where canvas is unavailable.
+ */
+export function readImageDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const u16be = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+  const u16le = (i: number) => bytes[i] | (bytes[i + 1] << 8);
+  const u32be = (i: number) => ((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0;
+  const ascii = (i: number, n: number) => String.fromCharCode(...bytes.subarray(i, i + n));
+
+  if (bytes[0] === 0x89 && ascii(1, 3) === 'PNG') return { width: u32be(16), height: u32be(20) };
+  if (ascii(0, 3) === 'GIF') return { width: u16le(6), height: u16le(8) };
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const chunk = ascii(12, 4);
+    if (chunk === 'VP8 ') return { width: u16le(26) & 0x3fff, height: u16le(28) & 0x3fff };
+    if (chunk === 'VP8L') {
+      const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)), height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) };
+    }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let i = 2;
+    while (i + 9 < bytes.length) {
+      if (bytes[i] !== 0xff) { i++; continue; }
+      const marker = bytes[i + 1];
+      // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) do not.
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: u16be(i + 7), height: u16be(i + 5) };
+      }
+      i += 2 + u16be(i + 2);
+    }
+  }
+  return null;
+}
+
+function luminance(data: Uint8ClampedArray, i: number): number {
+  return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+}
+
+/** Variance of the 4-neighbour Laplacian over the luminance channel. */
+function laplacianVariance(image: DecodedImage): number {
+  const { width, height, data } = image;
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      const value =
+        luminance(data, i - 4) + luminance(data, i + 4) +
+        luminance(data, i - width * 4) + luminance(data, i + width * 4) -
+        4 * luminance(data, i);
+      sum += value;
+      sumSq += value * value;
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+function toHex(rgb: number[]): string {
+  return `#${rgb.map((v) => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+/**
+ * K-means over a strided pixel sample. Centroids are seeded from evenly
+ * spaced samples sorted by luminance, so the same image always yields the
+ * same palette.
+ */
+function kMeansPalette(image: DecodedImage, k = PALETTE_SIZE, iterations = 8): { color: string; share: number }[] {
+  const { data } = image;
+  const total = data.length / 4;
+  const stride = Math.max(1, Math.floor(total / 4000));
+  const samples: number[][] = [];
+  for (let p = 0; p < total; p += stride) {
+    const i = p * 4;
+    if (data[i + 3] < 128) continue;
+    samples.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  if (samples.length === 0) return [];
+
+  const sorted = [...samples].sort((a, b) => (a[0] * 0.299 + a[1] * 0.587 + a[2] * 0.114) - (b[0] * 0.299 + b[1] * 0.587 + b[2] * 0.114));
+  let centroids = Array.from({ length: Math.min(k, sorted.length) }, (_, c) => [...sorted[Math.floor(((c + 0.5) * sorted.length) / k)]]);
+  let assignments = new Array<number>(samples.length).fill(0);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    assignments = samples.map((s) => {
+      let best = 0;
+      let bestDist = Infinity;
+      centroids.forEach((c, idx) => {
+        const dist = (s[0] - c[0]) ** 2 + (s[1] - c[1]) ** 2 + (s[2] - c[2]) ** 2;
+        if (dist < bestDist) { bestDist = dist; best = idx; }
+      });
+      return best;
+    });
+    centroids = centroids.map((c, idx) => {
+      const members = samples.filter((_, s) => assignments[s] === idx);
+      if (members.length === 0) return c;
+      return [0, 1, 2].map((ch) => members.reduce((acc, m) => acc + m[ch], 0) / members.length);
+    });
+  }
+
+  return centroids
+    .map((c, idx) => ({ color: toHex(c), share: assignments.filter((a) => a === idx).length / samples.length }))
+    .filter((entry) => entry.share > 0)
+    .sort((a, b) => b.share - a.share)
+    .map((entry) => ({ ...entry, share: Math.round(entry.share * 100) / 100 }));
+}
+
+/** Share of pixels in a 4% border band that are near white (all channels >= 245). */
+function borderWhiteness(image: DecodedImage): number {
+  const { width, height, data } = image;
+  const band = Math.max(1, Math.round(Math.min(width, height) * 0.04));
+  let white = 0;
+  let n = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= band && x < width - band && y >= band && y < height - band) continue;
+      const i = (y * width + x) * 4;
+      if (data[i] >= 245 && data[i + 1] >= 245 && data[i + 2] >= 245) white++;
+      n++;
+    }
+  }
+  return n ? white / n : 0;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Objective measurements for an encoded asset. Size and resolution always
+ * resolve; pixel statistics need a canvas and are omitted under Node.
+ */
+export async function computeImageMetrics(base64: string, mimeType: string): Promise<ImageMetrics> {
+  const bytes = base64ToBytes(base64);
+  const dims = readImageDimensions(bytes);
+  const metrics: ImageMetrics = { fileSizeBytes: bytes.length };
+  if (dims) {
+    metrics.width = dims.width;
+    metrics.height = dims.height;
+    metrics.aspectRatio = round(dims.width / dims.height);
+    metrics.bitsPerPixel = round((bytes.length * 8) / (dims.width * dims.height));
+  }
+
+  const natural = dims || (await decodeImage(base64, mimeType, { width: 1, height: 1 }).then((d) => d && { width: d.naturalWidth, height: d.naturalHeight }));
+  if (!natural) return metrics;
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(natural.width, natural.height));
+  const image = await decodeImage(base64, mimeType, {
+    width: Math.max(1, Math.round(natural.width * scale)),
+    height: Math.max(1, Math.round(natural.height * scale))
+  });
+  if (!image) return metrics;
+
+  if (!dims) {
+    metrics.width = image.naturalWidth;
+    metrics.height = image.naturalHeight;
+    metrics.aspectRatio = round(image.naturalWidth / image.naturalHeight);
+    metrics.bitsPerPixel = round((bytes.length * 8) / (image.naturalWidth * image.naturalHeight));
+  }
+
+  let shadows = 0;
+  let highlights = 0;
+  let lumaSum = 0;
+  const pixels = image.width * image.height;
+  for (let i = 0; i < image.data.length; i += 4) {
+    const l = luminance(image.data, i);
+    lumaSum += l;
+    if (l <= 5) shadows++;
+    if (l >= 250) highlights++;
+  }
+
+  const sharpness = laplacianVariance(image);
+  const whiteness = borderWhiteness(image);
+  return {
+    ...metrics,
+    sharpness: Math.round(sharpness),
+    blurry: sharpness < BLUR_THRESHOLD,
+    meanLuminance: Math.round(lumaSum / pixels),
+    shadowClipping: round(shadows / pixels, 3),
+    highlightClipping: round(highlights / pixels, 3),
+    palette: kMeansPalette(image),
+    backgroundWhiteness: round(whiteness),
+    whiteBackground: whiteness >= WHITE_BACKGROUND_SHARE
+  };
+}
+
+/**
+ * Metrics of a prepared copy with the size figures of the asset as
+ * published: its upright pixel size before downscaling and its file size.
+ */
+export function withPublishedSize(metrics: ImageMetrics, size: { width: number; height: number }, fileSizeBytes: number): ImageMetrics {
+  return {
+    ...metrics,
+    fileSizeBytes,
+    width: size.width,
+    height: size.height,
+    aspectRatio: round(size.width / size.height),
+    bitsPerPixel: round((fileSizeBytes * 8) / (size.width * size.height))
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** One-line summary of the measured values, for text exports and logs. */
+export function summarizeMetrics(metrics: ImageMetrics): string {
+  const pct = (value: number) => `${Math.round(value * 1000) / 10}%`;
+  return [
+    metrics.width && metrics.height ? `${metrics.width}×${metrics.height} (${metrics.aspectRatio}:1)` : null,
+    formatBytes(metrics.fileSizeBytes),
+    metrics.bitsPerPixel !== undefined ? `${metrics.bitsPerPixel} bpp` : null,
+    metrics.sharpness !== undefined ? `sharpness ${metrics.sharpness}${metrics.blurry ? ' (blurry)' : ''}` : null,
+    metrics.shadowClipping !== undefined && metrics.highlightClipping !== undefined
+      ? `clipping ${pct(metrics.shadowClipping)} shadows / ${pct(metrics.highlightClipping)} highlights`
+      : null,
+    metrics.backgroundWhiteness !== undefined ? `white border ${pct(metrics.backgroundWhiteness)}` : null,
+    metrics.palette?.length ? `palette ${metrics.palette.map((p) => p.color).join(', ')}` : null
+  ].filter(Boolean).join(' · ');
+}
+
+/** One line on what was changed before the asset was sent, for reports. */
+export function summarizePreprocessing(info: ImagePreprocessing): string {
+  const format = (mimeType: string) => mimeType.replace(/^image\/(x-ms-)?/, '').replace('+xml', '').toUpperCase();
+  const camera = info.exif && [info.exif.Make, info.exif.Model].filter(Boolean).join(' ');
+  const duplicates = info.duplicateUrls?.length || 0;
+  return [
+    info.convertedFrom ? `converted from ${format(info.convertedFrom)}` : null,
+    info.originalSize ? `downscaled from ${info.originalSize.width}×${info.originalSize.height}` : null,
+    info.exif ? `EXIF removed${camera ? ` (${camera})` : ''}${info.exif.GPS ? ', had GPS location' : ''}` : null,
+    duplicates ? `${duplicates} near-duplicate${duplicates === 1 ? '' : 's'} folded in` : null
+  ].filter(Boolean).join(' · ');
+}
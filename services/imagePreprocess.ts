@@ -0,0 +1,376 @@
+import { ImagePreprocessing } from "../types.ts";
+import { EncodedImage } from "./visionProvider.ts";
+import { MAX_IMAGE_EDGE, arrayBufferToBase64 } from "./geminiService.ts";
+import { base64ToBytes, computePerceptualHash, hammingDistance } from "./imageHash.ts";
+import { readImageDimensions } from "./imageMetrics.ts";
+
+/** Formats both vision providers accept as sent. */
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+/**
+ * Formats converted before sending, and what they become: graphics keep
+ * transparency as PNG, photographic formats become JPEG on white.
+ */
+const CONVERTED_TYPES: Record<string, string> = {
+  'image/svg+xml': 'image/png',
+  'image/gif': 'image/png',
+  'image/avif': 'image/jpeg',
+  'image/bmp': 'image/jpeg',
+  'image/x-ms-bmp': 'image/jpeg'
+};
+
+/**
+ * dHash distance within which two assets count as the same picture. Tighter
+ * than the diff threshold: srcset sizes of one photo land at 0-3, while
+ * different angles of a product on white can fall under 10.
+ */
+const DUPLICATE_HASH_DISTANCE = 4;
+/** Relative aspect-ratio difference still treated as the same framing. */
+const DUPLICATE_ASPECT_TOLERANCE = 0.02;
+const JPEG_QUALITY = 0.9;
+/** EXIF orientations that turn the picture a quarter, so viewers swap its stored width and height. */
+const QUARTER_TURN_ORIENTATIONS = [5, 6, 7, 8];
+
+export interface PreprocessOptions {
+  /** Longest edge sent to the model; larger assets are downscaled. Default 2048. */
+  maxEdge?: number;
+  /** Audit near-identical assets separately instead of only the largest of them. */
+  keepDuplicates?: boolean;
+}
+
+interface PreparedImage {
+  image: EncodedImage;
+  /** The asset as received, when preprocessing changed its bytes. */
+  original?: EncodedImage;
+  info: ImagePreprocessing;
+  /** Upright pixel size of the original, where known. */
+  size?: { width: number; height: number };
+}
+
+export interface PreprocessedImages {
+  images: EncodedImage[];
+  /** Assets as received, by URL, for those whose bytes were changed. */
+  originals: Record<string, EncodedImage>;
+  /** What was done to each asset, by URL; assets left untouched have no entry. */
+  preprocessing: Record<string, ImagePreprocessing>;
+  /** Upright pixel size of each asset before downscaling, by URL, where known. */
+  sizes: Record<string, { width: number; height: number }>;
+}
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x920a: 'FocalLength',
+  0xa434: 'LensModel'
+};
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+/** Byte size of each TIFF field type read here: ASCII, SHORT, LONG, RATIONAL. */
+const TIFF_TYPE_SIZES: Record<number, number> = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+/** Marker segments before the scan data, as [start, end) byte ranges. */
+function jpegSegments(bytes: Uint8Array): { marker: number; start: number; end: number }[] {
+  const segments: { marker: number; start: number; end: number }[] = [];
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return segments;
+  let i = 2;
+  while (i + 4 <= bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1];
+    if (marker === 0xff) { i++; continue; }
+    // SOS starts the entropy-coded data; nothing after it is metadata.
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = i + 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+    segments.push({ marker, start: i, end });
+    i = end;
+  }
+  return segments;
+}
+
+function formatExifValue(name: string, value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  if (name === 'ExposureTime') return value > 0 && value < 1 ? `1/${Math.round(1 / value)}s` : `${rounded}s`;
+  if (name === 'FNumber') return `f/${rounded}`;
+  if (name === 'FocalLength') return `${rounded}mm`;
+  return String(rounded);
+}
+
+/** The TIFF structure inside an Exif APP1 segment: IFD0 and the Exif sub-IFD, plus whether GPS data is present. */
+function readTiffTags(tiff: DataView): Record<string, string> {
+  const tags: Record<string, string> = {};
+  if (tiff.byteLength < 8) return tags;
+  const little = tiff.getUint16(0) === 0x4949;
+  const u16 = (offset: number) => tiff.getUint16(offset, little);
+  const u32 = (offset: number) => tiff.getUint32(offset, little);
+
+  const readValue = (entry: number, name: string): string | undefined => {
+    const type = u16(entry + 2);
+    const count = u32(entry + 4);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size || count === 0) return undefined;
+    const offset = size * count <= 4 ? entry + 8 : u32(entry + 8);
+    if (offset + size * count > tiff.byteLength) return undefined;
+    if (type === 2) {
+      const chars = new Uint8Array(tiff.buffer, tiff.byteOffset + offset, count);
+      const text = new TextDecoder().decode(chars).replace(/\0[\s\S]*$/, '').trim();
+      return text || undefined;
+    }
+    if (type === 3) return formatExifValue(name, u16(offset));
+    if (type === 4) return formatExifValue(name, u32(offset));
+    const denominator = u32(offset + 4);
+    return denominator ? formatExifValue(name, u32(offset) / denominator) : undefined;
+  };
+
+  const readIfd = (offset: number, nested: boolean) => {
+    if (offset + 2 > tiff.byteLength) return;
+    const count = u16(offset);
+    for (let n = 0; n < count; n++) {
+      const entry = offset + 2 + n * 12;
+      if (entry + 12 > tiff.byteLength) return;
+      const tag = u16(entry);
+      if (tag === EXIF_IFD_POINTER && !nested) readIfd(u32(entry + 8), true);
+      else if (tag === GPS_IFD_POINTER) tags.GPS = 'location embedded';
+      else if (EXIF_TAGS[tag]) {
+        const value = readValue(entry, EXIF_TAGS[tag]);
+        if (value) tags[EXIF_TAGS[tag]] = value;
+      }
+    }
+  };
+
+  readIfd(u32(4), false);
+  return tags;
+}
+
+/** EXIF tags of a JPEG, or undefined when it carries none. */
+export function readJpegExif(bytes: Uint8Array): Record<string, string> | undefined {
+  const segment = jpegSegments(bytes).find(
+    (s) => s.marker === 0xe1 && String.fromCharCode(...bytes.subarray(s.start + 4, s.start + 10)) === 'Exif\0\0'
+  );
+  if (!segment) return undefined;
+  try {
+    const tags = readTiffTags(new DataView(bytes.buffer, bytes.byteOffset + segment.start + 10, segment.end - segment.start - 10));
+    return Object.keys(tags).length ? tags : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Drops the APP1 (EXIF, XMP) and APP13 (IPTC) segments of a JPEG without
+ * re-encoding it. ICC profiles are kept so colours render as published.
+ * Returns the input when there is nothing to remove.
+ */
+export function stripJpegMetadata(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const removed = jpegSegments(bytes).filter((s) => s.marker === 0xe1 || s.marker === 0xed);
+  if (removed.length === 0) return bytes;
+  const kept: Uint8Array[] = [];
+  let from = 0;
+  for (const segment of removed) {
+    kept.push(bytes.subarray(from, segment.start));
+    from = segment.end;
+  }
+  kept.push(bytes.subarray(from));
+  const stripped = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  kept.reduce((offset, part) => (stripped.set(part, offset), offset + part.length), 0);
+  return stripped;
+}
+
+/** The declared size of an SVG, from width/height or else its viewBox. */
+function svgSize(markup: string): { width: number; height: number } | null {
+  const root = markup.match(/<svg\b[^>]*>/i)?.[0] || '';
+  const attr = (name: string) => Number(root.match(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(px)?\\s*["']`, 'i'))?.[1]);
+  const width = attr('width');
+  const height = attr('height');
+  if (width > 0 && height > 0) return { width, height };
+  const viewBox = root.match(/viewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+  if (viewBox && Number(viewBox[1]) > 0 && Number(viewBox[2]) > 0) return { width: Number(viewBox[1]), height: Number(viewBox[2]) };
+  return null;
+}
+
+/** Conversion and resizing draw on a DOM canvas; SVG needs an `<img>` to render. */
+export function canRasterize(): boolean {
+  return typeof document !== 'undefined' && typeof createImageBitmap !== 'undefined';
+}
+
+/**
+ * Decodes an image for drawing. Bitmaps are decoded with their EXIF
+ * orientation applied; SVGs have no native resolution and are rendered with
+ * their longest edge at `maxEdge`.
+ */
+async function decodeForCanvas(image: EncodedImage, maxEdge: number): Promise<{ source: CanvasImageSource; width: number; height: number; release(): void }> {
+  const bytes = base64ToBytes(image.base64);
+  const blob = new Blob([bytes], { type: image.mimeType });
+  if (image.mimeType !== 'image/svg+xml') {
+    const bitmap = await createImageBitmap(blob);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+  }
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+  } catch (e) {
+    URL.revokeObjectURL(url);
+    throw e;
+  }
+  const declared = svgSize(new TextDecoder().decode(bytes)) || { width: img.naturalWidth || 1, height: img.naturalHeight || 1 };
+  const scale = maxEdge / Math.max(declared.width, declared.height);
+  return {
+    source: img,
+    width: Math.max(1, Math.round(declared.width * scale)),
+    height: Math.max(1, Math.round(declared.height * scale)),
+    release: () => URL.revokeObjectURL(url)
+  };
+}
+
+/**
+ * Redraws an image into a supported format within `maxEdge`, or returns null
+ * when it is already supported, within the limit and `force` is not set.
+ * Assets that do not need converting are also left alone when they cannot
+ * be decoded (HEIC outside Safari).
+ */
+async function rasterize(image: EncodedImage, maxEdge: number, force: boolean) {
+  const target = CONVERTED_TYPES[image.mimeType];
+  let decoded: Awaited<ReturnType<typeof decodeForCanvas>>;
+  try {
+    decoded = await decodeForCanvas(image, maxEdge);
+  } catch {
+    if (target) throw new Error(`${image.mimeType} could not be decoded for conversion.`);
+    return null;
+  }
+  try {
+    const scale = Math.min(1, maxEdge / Math.max(decoded.width, decoded.height));
+    if (!target && !force && scale === 1) return null;
+    const width = Math.max(1, Math.round(decoded.width * scale));
+    const height = Math.max(1, Math.round(decoded.height * scale));
+    const mimeType = target || (image.mimeType === 'image/png' ? 'image/png' : 'image/jpeg');
+    const canvas = Object.assign(document.createElement('canvas'), { width, height });
+    const ctx = canvas.getContext('2d')!;
+    if (mimeType === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(decoded.source, 0, 0, width, height);
+    const encoded = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, JPEG_QUALITY));
+    if (!encoded) throw new Error("Image could not be re-encoded.");
+    return {
+      base64: arrayBufferToBase64(await encoded.arrayBuffer()),
+      mimeType,
+      size: { width: decoded.width, height: decoded.height },
+      downscaled: scale < 1
+    };
+  } finally {
+    decoded.release();
+  }
+}
+
+/**
+ * Converts one asset into a format the models accept, downscales it to
+ * `maxEdge` and strips its metadata, recording what was done. Re-encoding
+ * drops metadata on its own; otherwise JPEG metadata segments are cut from
+ * the bytes, which also works under Node. A JPEG whose EXIF orientation
+ * rotates it keeps its metadata where it cannot be redrawn upright.
+ */
+async function preprocessImage(image: EncodedImage, maxEdge: number): Promise<PreparedImage> {
+  const converted = image.mimeType in CONVERTED_TYPES;
+  if (!converted && !SUPPORTED_IMAGE_TYPES.includes(image.mimeType)) {
+    throw new Error(`Unsupported image type: ${image.mimeType || 'unknown'}`);
+  }
+  const bytes = base64ToBytes(image.base64);
+  const exif = image.mimeType === 'image/jpeg' ? readJpegExif(bytes) : undefined;
+  const orientation = Number(exif?.Orientation || 1);
+  const rotated = orientation > 1;
+  const info: ImagePreprocessing = exif ? { exif } : {};
+
+  if (canRasterize()) {
+    const raster = await rasterize(image, maxEdge, rotated);
+    if (raster) {
+      if (converted) info.convertedFrom = image.mimeType;
+      if (raster.downscaled) info.originalSize = raster.size;
+      return { image: { ...image, base64: raster.base64, mimeType: raster.mimeType }, original: image, info, size: raster.size };
+    }
+  } else if (converted) {
+    throw new Error(`${image.mimeType} has to be converted first, which needs a browser canvas; audit it in the web app.`);
+  }
+
+  const stored = readImageDimensions(bytes) || undefined;
+  // Without a canvas a rotated JPEG keeps its orientation flag, and viewers show it turned.
+  const size = stored && QUARTER_TURN_ORIENTATIONS.includes(orientation) ? { width: stored.height, height: stored.width } : stored;
+  const stripped = image.mimeType === 'image/jpeg' && !rotated ? stripJpegMetadata(bytes) : bytes;
+  if (stripped === bytes) return { image, info, size };
+  return { image: { ...image, base64: arrayBufferToBase64(stripped.buffer) }, original: image, info, size };
+}
+
+function isDuplicate(a: PreparedImage, hashA: string | undefined, b: PreparedImage, hashB: string | undefined): boolean {
+  if (a.image.base64 === b.image.base64) return true;
+  if (!hashA || !hashB || !a.size || !b.size || hammingDistance(hashA, hashB) > DUPLICATE_HASH_DISTANCE) return false;
+  const ratioA = a.size.width / a.size.height;
+  const ratioB = b.size.width / b.size.height;
+  return Math.abs(ratioA - ratioB) / ratioA <= DUPLICATE_ASPECT_TOLERANCE;
+}
+
+const pixelCount = (item: PreparedImage) => (item.size ? item.size.width * item.size.height : 0);
+
+/**
+ * Groups near-identical assets and keeps the largest of each group, in the
+ * position of the group's first asset. Without a canvas only byte-identical
+ * assets are grouped.
+ */
+async function dropDuplicates(items: PreparedImage[], onDuplicate: (url: string, keptUrl: string) => void): Promise<PreparedImage[]> {
+  const hashes = await Promise.all(items.map(({ image }) => computePerceptualHash(image.base64, image.mimeType)));
+  const groups: number[][] = [];
+  items.forEach((item, idx) => {
+    const group = groups.find(([first]) => isDuplicate(items[first], hashes[first], item, hashes[idx]));
+    if (group) group.push(idx);
+    else groups.push([idx]);
+  });
+  return groups.map((group) => {
+    const keep = group.reduce((best, idx) => (pixelCount(items[idx]) > pixelCount(items[best]) ? idx : best));
+    const duplicateUrls = group.filter((idx) => idx !== keep).map((idx) => items[idx].image.url);
+    duplicateUrls.forEach((url) => onDuplicate(url, items[keep].image.url));
+    return duplicateUrls.length ? { ...items[keep], info: { ...items[keep].info, duplicateUrls } } : items[keep];
+  });
+}
+
+/**
+ * Prepares downloaded or uploaded assets for the model: converts SVG, AVIF,
+ * GIF and BMP, downscales, strips metadata and folds near-duplicates into
+ * one asset. Assets that cannot be used are reported through `onRejected`
+ * and left out.
+ */
+export async function preprocessImages(
+  images: EncodedImage[],
+  options: PreprocessOptions & { onRejected?: (url: string, reason: string) => void } = {}
+): Promise<PreprocessedImages> {
+  const maxEdge = options.maxEdge || MAX_IMAGE_EDGE;
+  const prepared = await Promise.all(
+    images.map(async (image): Promise<PreparedImage | null> => {
+      try {
+        return await preprocessImage(image, maxEdge);
+      } catch (e: any) {
+        options.onRejected?.(image.url, e.message);
+        return null;
+      }
+    })
+  );
+  let kept = prepared.filter((p): p is PreparedImage => p !== null);
+  if (!options.keepDuplicates) {
+    kept = await dropDuplicates(kept, (url, keptUrl) => options.onRejected?.(url, `near-duplicate of ${keptUrl}`));
+  }
+
+  const result: PreprocessedImages = { images: [], originals: {}, preprocessing: {}, sizes: {} };
+  for (const { image, original, info, size } of kept) {
+    result.images.push(image);
+    if (original) result.originals[image.url] = original;
+    if (Object.keys(info).length) result.preprocessing[image.url] = info;
+    if (size) result.sizes[image.url] = size;
+  }
+  return result;
+}
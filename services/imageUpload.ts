@@ -0,0 +1,130 @@
+import { AnalysisResult, AuditProfile, AuditProgressEvent, BrandGuide, UploadDetails } from "../types.ts";
+import { downscaleImage } from "./geminiService.ts";
+import { auditEncodedImages } from "./auditPipeline.ts";
+import { EncodedImage } from "./visionProvider.ts";
+import { PreprocessOptions } from "./imagePreprocess.ts";
+import { readZipEntries } from "./zipArchive.ts";
+
+const UPLOAD_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml'
+};
+
+/** Accept list for file inputs. */
+export const UPLOAD_ACCEPT = [...new Set(Object.values(UPLOAD_TYPES)), ...Object.keys(UPLOAD_TYPES).map((ext) => `.${ext}`), '.zip', 'application/zip'].join(',');
+
+/** Most images sent in one audit; more would exceed provider request limits. */
+export const MAX_UPLOAD_IMAGES = 10;
+
+export interface UploadedImage {
+  /** Path relative to the selected folder or zip, or the file name. */
+  name: string;
+  blob: Blob;
+}
+
+function uploadType(name: string, type: string): string | null {
+  if (Object.values(UPLOAD_TYPES).includes(type)) return type;
+  return UPLOAD_TYPES[name.split('.').pop()?.toLowerCase() || ''] || null;
+}
+
+const isHidden = (name: string) => name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+
+/**
+ * Expands zips and keeps supported images, sorted by path so a shoot folder
+ * is audited in its natural order. Skipped entries are reported by name.
+ */
+export async function collectUploadImages(files: File[], onSkipped?: (name: string, reason: string) => void): Promise<UploadedImage[]> {
+  const images: UploadedImage[] = [];
+  for (const file of files) {
+    const name = file.webkitRelativePath || file.name;
+    if (isHidden(name)) continue;
+    if (/\.zip$/i.test(name) || file.type === 'application/zip') {
+      try {
+        for (const entry of await readZipEntries(await file.arrayBuffer())) {
+          if (isHidden(entry.name)) continue;
+          const type = uploadType(entry.name, '');
+          if (type) images.push({ name: `${name}/${entry.name}`, blob: new Blob([entry.data], { type }) });
+          else onSkipped?.(entry.name, 'unsupported file type');
+        }
+      } catch (e: any) {
+        onSkipped?.(name, e.message);
+      }
+      continue;
+    }
+    const type = uploadType(name, file.type);
+    if (type) images.push({ name, blob: file.type === type ? file : new Blob([file], { type }) });
+    else onSkipped?.(name, 'unsupported file type');
+  }
+  return images.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+}
+
+export interface AuditUploadOptions {
+  providerId?: string;
+  profile?: AuditProfile;
+  brandGuide?: BrandGuide;
+  productName?: string;
+  category?: string;
+  onStatus?: (message: string) => void;
+  onAssetRejected?: (name: string, reason: string) => void;
+  onProgress?: (event: AuditProgressEvent) => void;
+  signal?: AbortSignal;
+  /** Request a new model reply even when the same images were audited before. */
+  fresh?: boolean;
+  preprocess?: PreprocessOptions;
+}
+
+/**
+ * Audits local product photography through the same pipeline as a page
+ * audit. The result's `url` is `upload://<product-slug>` so history, search
+ * and comparisons treat repeated shoots of one product as the same subject.
+ */
+export async function auditUpload(files: File[], options: AuditUploadOptions = {}): Promise<AnalysisResult> {
+  const status = options.onStatus || (() => {});
+  const productName = options.productName?.trim() || undefined;
+  const category = options.category?.trim() || undefined;
+  const subjectUrl = `upload://${slugify(productName || 'untitled')}`;
+
+  status('Reading uploaded files...');
+  const rejected = (name: string, reason: string) => {
+    options.onAssetRejected?.(name, reason);
+    options.onProgress?.({ type: 'asset-rejected', url: name, reason });
+  };
+  const uploads = await collectUploadImages(files, rejected);
+  if (uploads.length === 0) throw new Error("No JPEG, PNG, WebP, HEIC, AVIF, GIF, BMP or SVG images found in the upload.");
+  uploads.slice(MAX_UPLOAD_IMAGES).forEach((u) => rejected(u.name, `only the first ${MAX_UPLOAD_IMAGES} images are audited`));
+
+  status(`Downscaling ${Math.min(uploads.length, MAX_UPLOAD_IMAGES)} assets for AI context...`);
+  const encoded = await Promise.all(
+    uploads.slice(0, MAX_UPLOAD_IMAGES).map(async (upload): Promise<EncodedImage | null> => {
+      try {
+        return { url: `${subjectUrl}/${upload.name}`, ...(await downscaleImage(upload.blob, options.preprocess?.maxEdge)) };
+      } catch (e: any) {
+        rejected(upload.name, e.message);
+        return null;
+      }
+    })
+  );
+  const images = encoded.filter((i): i is EncodedImage => i !== null);
+  if (images.length === 0) throw new Error("None of the uploaded images could be decoded.");
+
+  const subject = [
+    productName ? `the product "${productName}"` : 'a product',
+    category && `(category: ${category})`,
+    'from unpublished product photography supplied by the brand'
+  ].filter(Boolean).join(' ');
+  const upload: UploadDetails = { productName, category, fileCount: images.length };
+  const result = await auditEncodedImages(subjectUrl, images, { providerId: options.providerId, profile: options.profile, brandGuide: options.brandGuide, onStatus: status, subject, signal: options.signal, fresh: options.fresh, preprocess: options.preprocess, onProgress: options.onProgress });
+  return { ...result, upload };
+}
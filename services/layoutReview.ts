@@ -0,0 +1,76 @@
+import { AuditUsage, LayoutAnnotation, LayoutAudit, PageScreenshot, ValidationIssue } from "../types.ts";
+import { buildLayoutSchema } from "./analysisSchema.ts";
+import { AnalysisValidationError, buildRepairPrompt, normalizeRegionBox, validateAgainstSchema } from "./analysisValidation.ts";
+import { getProvider } from "./visionProvider.ts";
+import { checkBudget, trackResponse } from "./usageAccounting.ts";
+
+/** Follow-up requests allowed when the review fails validation. */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+function layoutPrompt(pageUrl: string, screenshots: PageScreenshot[]): string {
+  return `Act as a senior e-commerce UX and typography reviewer. The screenshots show ${pageUrl}:
+${screenshots.map((s) => `- ${s.id}: ${s.viewport} viewport, ${s.kind === 'fold' ? 'above the fold' : `full page${s.truncated ? ' (cut off)' : ''}`}, ${s.width}×${s.height} CSS px`).join('\n')}
+
+Return:
+- "typographyNotes": typefaces, scale, weights, line length and legibility on both viewports
+- "layoutAnalysis": grid, spacing, alignment, what sits above the fold and how the mobile layout adapts
+- "hierarchyNotes": whether price, product name, imagery and the primary call to action read in the right order
+- "annotations": up to 12 specific regions, each tied to a screenshot id, with a box in fractions (0-1) of that screenshot's width and height, a short label, "issue" or "strength", and a one-sentence note.`;
+}
+
+/**
+ * Sends page screenshots to the vision provider for layout, typography and
+ * hierarchy findings. Annotations on unknown screenshots or with unusable
+ * boxes are dropped.
+ */
+export async function reviewLayout(pageUrl: string, screenshots: PageScreenshot[], options: { providerId?: string; signal?: AbortSignal } = {}): Promise<LayoutAudit> {
+  const provider = getProvider(options.providerId);
+  if (!provider.isConfigured()) throw new Error(`${provider.label} is not configured. Check its API key or endpoint.`);
+  const sent = screenshots.filter((s) => s.base64);
+  if (sent.length === 0) throw new Error("No screenshots to review.");
+
+  const schema = buildLayoutSchema(sent.map((s) => s.id));
+  const prompt = layoutPrompt(pageUrl, sent);
+  const images = sent.map((s) => ({ id: s.id, url: `screenshot://${s.id}`, base64: s.base64!, mimeType: s.mimeType }));
+  let request = prompt;
+  let issues: ValidationIssue[] = [];
+  let usage: AuditUsage | undefined;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    checkBudget(provider.model, { prompt: request, images });
+    const startedAt = Date.now();
+    const response = await provider.generate({
+      prompt: request,
+      images,
+      schema,
+      temperature: 0.4,
+      signal: options.signal
+    });
+    usage = trackResponse(usage, { prompt: request, images }, response, Date.now() - startedAt);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text || '{}');
+    } catch {
+      issues = [{ path: '$', message: 'is not valid JSON', severity: 'error' }];
+      request = buildRepairPrompt(prompt, response.text, issues);
+      continue;
+    }
+
+    const outcome = validateAgainstSchema<Omit<LayoutAudit, 'screenshots' | 'model'>>(parsed, schema, attempt === MAX_REPAIR_ATTEMPTS);
+    issues = outcome.issues;
+    if (outcome.valid && outcome.output) {
+      const ids = new Set(sent.map((s) => s.id));
+      const annotations = outcome.output.annotations
+        .filter((a) => ids.has(a.screenshotId))
+        .map((a) => {
+          const box = normalizeRegionBox(a.box);
+          return box && { ...a, box, kind: a.kind === 'strength' ? 'strength' : 'issue' };
+        })
+        .filter((a): a is LayoutAnnotation => a !== null);
+      return { ...outcome.output, annotations, screenshots, model: response.model, usage };
+    }
+    request = buildRepairPrompt(prompt, response.text, issues);
+  }
+  throw new AnalysisValidationError(issues);
+}
@@ -0,0 +1,128 @@
+import { Type } from "@google/genai";
+import { SchemaNode } from "./analysisSchema.ts";
+import { VisionProvider } from "./visionProvider.ts";
+
+const PALETTE = ['#F8FAFC', '#0F172A', '#4F46E5', '#E11D48', '#F59E0B', '#10B981', '#64748B', '#D6C7B0'];
+const LIGHTING = ['Soft diffused studio light', 'Hard directional key light', 'Natural window light', 'Flat on-camera flash'];
+const COMPOSITION = ['Centered hero on seamless backdrop', 'Rule-of-thirds lifestyle scene', 'Tight detail crop', 'Flat lay grid'];
+
+/** FNV-1a, so the same input always yields the same fake audit. */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(list: T[], seed: number): T {
+  return list[seed % list.length];
+}
+
+/** Placeholder values for the profile-specific parts of the schema. */
+function mockValue(node: SchemaNode, seed: number): unknown {
+  switch (node.type) {
+    case Type.NUMBER: return seed % 10;
+    case Type.BOOLEAN: return seed % 2 === 0;
+    case Type.ARRAY: return [mockValue(node.items!, seed)];
+    case Type.OBJECT: return Object.fromEntries(Object.entries(node.properties || {}).map(([key, child]) => [key, mockValue(child, seed)]));
+    default: return 'Not evaluated by the mock provider.';
+  }
+}
+
+/** Characters per streamed chunk, and the pause between chunks, so progress UIs have something to show. */
+const STREAM_CHUNK = 400;
+const STREAM_DELAY_MS = 25;
+
+/** Feeds `text` to `onText` in chunks, as a streaming provider would. */
+async function streamText(text: string, onText: (text: string) => void, signal?: AbortSignal): Promise<void> {
+  for (let end = STREAM_CHUNK; ; end += STREAM_CHUNK) {
+    signal?.throwIfAborted();
+    onText(text.slice(0, end));
+    if (end >= text.length) return;
+    await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY_MS));
+  }
+}
+
+/** Screenshot review with a few fixed regions on each screenshot. */
+function mockLayoutReview(screenshotIds: string[]) {
+  return {
+    typographyNotes: 'Not evaluated by the mock provider.',
+    layoutAnalysis: 'Not evaluated by the mock provider.',
+    hierarchyNotes: 'Not evaluated by the mock provider.',
+    annotations: screenshotIds.flatMap((screenshotId) => [
+      { screenshotId, box: { x: 0.05, y: 0.02, width: 0.9, height: 0.1 }, label: 'Header', kind: 'strength', note: 'Mock annotation.' },
+      { screenshotId, box: { x: 0.05, y: 0.2, width: 0.5, height: 0.45 }, label: 'Hero image', kind: 'issue', note: 'Mock annotation.' }
+    ])
+  };
+}
+
+/**
+ * Offline provider returning a deterministic audit derived from the image
+ * URLs and bytes. Needs no API key, so the full app can run in tests and demos.
+ */
+export function createMockProvider(): VisionProvider {
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    model: 'mock-vision-1',
+    isConfigured: () => true,
+    async generate({ images, schema, signal, onText }) {
+      if (schema.properties?.annotations) {
+        return { text: JSON.stringify(mockLayoutReview(images.map((img) => img.id || img.url))), model: 'mock-vision-1' };
+      }
+      const criteria = schema.properties?.images.items?.properties?.criteriaScores?.items?.properties?.criterion.enum || [];
+      const brandRules = schema.properties?.images.items?.properties?.brandFindings?.items?.properties?.rule.enum || [];
+      const profileFields = schema.properties?.summary.properties?.profileFields;
+      const analyses = images.map((img, idx) => {
+        const seed = hashString(img.url + img.base64.slice(0, 256));
+        return {
+          id: img.id || String(idx + 1),
+          dominantColors: [pick(PALETTE, seed), pick(PALETTE, seed >>> 3), pick(PALETTE, seed >>> 6)],
+          composition: pick(COMPOSITION, seed >>> 9),
+          lighting: pick(LIGHTING, seed >>> 12),
+          mood: 'Neutral',
+          aesthetic: 'Minimal commercial',
+          qualityScore: 55 + (seed % 41),
+          description: `Mock analysis of asset ${idx + 1}.`,
+          howToImprove: 'Increase resolution and use a consistent seamless background.',
+          regions: [
+            { box: { x: 0.6, y: 0.55, width: 0.3, height: 0.35 }, label: 'Harsh shadow', category: 'lighting', severity: pick(['low', 'medium', 'high'], seed >>> 15), note: 'Mock region finding.' },
+            { box: { x: 0, y: 0.1, width: 0.12, height: 0.6 }, label: 'Cropped product edge', category: 'cropping', severity: 'medium', note: 'Mock region finding.' }
+          ],
+          ...(criteria.length > 0 && {
+            criteriaScores: criteria.map((criterion, ci) => ({ criterion, score: 50 + ((seed >>> ci) % 51), note: 'Mock criterion score.' }))
+          }),
+          ...(brandRules.length > 0 && {
+            brandFindings: brandRules.map((rule, ri) => ({ rule, pass: ((seed >>> ri) & 3) !== 0, note: 'Mock brand finding.' }))
+          })
+        };
+      });
+
+      const seed = hashString(images.map((img) => img.url).join('|'));
+      const result = {
+        images: analyses,
+        summary: {
+          brandConsistency: 50 + (seed % 46),
+          creativeStyle: 'Clean Minimalist',
+          typographyNotes: 'Not evaluated by the mock provider.',
+          layoutAnalysis: 'Not evaluated by the mock provider.',
+          marketingActionables: ['Unify background colour across assets', 'Add lifestyle context shots'],
+          overallAesthetic: 'Minimal commercial',
+          visualRoadmap: ['Audit lighting setup', 'Standardise crops', 'Reshoot hero image', 'Add detail shots', 'Refresh lifestyle imagery'],
+          competitors: [
+            { name: 'Competitor A', strengths: ['Consistent lighting'], visualTakeaway: 'Uniform white backgrounds.', marketPosition: 'Mass market' },
+            { name: 'Competitor B', strengths: ['Strong lifestyle imagery'], visualTakeaway: 'Product shown in context.', marketPosition: 'Premium' },
+            { name: 'Competitor C', strengths: ['High-resolution zoom'], visualTakeaway: 'Detail crops on every PDP.', marketPosition: 'Mid market' }
+          ],
+          ...(profileFields && { profileFields: mockValue(profileFields, seed) })
+        }
+      };
+
+      const text = JSON.stringify(result);
+      if (onText) await streamText(text, onText, signal);
+      return { text, model: 'mock-vision-1' };
+    }
+  };
+}
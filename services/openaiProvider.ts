@@ -0,0 +1,107 @@
+import { toJsonSchema } from "./analysisSchema.ts";
+import { readEnv } from "./env.ts";
+import { VisionProvider, VisionResponse } from "./visionProvider.ts";
+import { fetchWithRetry } from "./retry.ts";
+
+type CompletionUsage = { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+function readUsage(usage: CompletionUsage): VisionResponse['usage'] {
+  return usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+}
+
+/**
+ * Reads a chat completions event stream, calling `onText` with the content
+ * received so far. Returns the full content, the model that answered and the
+ * token usage when the server sends it in the final event.
+ */
+async function readCompletionStream(response: Response, fallbackModel: string, onText: (text: string) => void): Promise<VisionResponse> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let model = fallbackModel;
+  let usage: CompletionUsage;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (!data || data === '[DONE]') continue;
+      const event = JSON.parse(data);
+      model = event.model || model;
+      usage = event.usage || usage;
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return { text, model, ...(usage && { usage: readUsage(usage) }) };
+}
+
+/**
+ * Adapter for any endpoint implementing the OpenAI chat completions API
+ * (OpenAI itself, Azure, OpenRouter, vLLM, Ollama, ...).
+ */
+export function createOpenAiProvider(
+  model = readEnv('OPENAI_MODEL') || 'gpt-4o-mini',
+  baseUrl = readEnv('OPENAI_BASE_URL') || 'https://api.openai.com/v1'
+): VisionProvider {
+  const getApiKey = () => readEnv('OPENAI_API_KEY');
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    model,
+    isConfigured: () => Boolean(getApiKey() || readEnv('OPENAI_BASE_URL')),
+    async generate({ prompt, images, references = [], schema, temperature, signal, onText }) {
+      const apiKey = getApiKey();
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const response = await fetchWithRetry(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          temperature,
+          ...(onText && { stream: true, stream_options: { include_usage: true } }),
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'visual_audit', strict: true, schema: toJsonSchema(schema) }
+          },
+          messages: [{
+            role: 'user',
+            content: [
+              ...references.flatMap(({ label, image }) => [
+                { type: 'text', text: label },
+                { type: 'image_url', image_url: { url: `data:${image.mimeType || 'image/jpeg'};base64,${image.base64}` } }
+              ]),
+              ...images.flatMap((img) => [
+                ...(img.id ? [{ type: 'text', text: `Image id: ${img.id}` }] : []),
+                {
+                  type: 'image_url',
+                  image_url: { url: `data:${img.mimeType || 'image/jpeg'};base64,${img.base64}` }
+                }
+              ]),
+              { type: 'text', text: prompt }
+            ]
+          }]
+        })
+      });
+      if (!response.ok) throw new Error(`Endpoint rejected the request (${response.status})`);
+
+      // Some compatible servers ignore `stream` and answer with a single JSON body.
+      if (onText && response.headers.get('content-type')?.includes('text/event-stream')) {
+        const streamed = await readCompletionStream(response, model, onText);
+        return { ...streamed, text: streamed.text || '{}' };
+      }
+      const data = await response.json();
+      return { text: data.choices?.[0]?.message?.content || '{}', model: data.model || model, ...(data.usage && { usage: readUsage(data.usage) }) };
+    }
+  };
+}
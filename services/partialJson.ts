@@ -0,0 +1,61 @@
+/**
+ * Objects already complete in the array under `key` of a JSON object that is
+ * still being streamed, e.g. the finished `images` entries while the model is
+ * writing the rest of its reply. Only a top-level key is matched; items that
+ * fail to parse are skipped.
+ */
+export function completedArrayItems(text: string, key: string): unknown[] {
+  const items: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = '';
+  let expectArray = false;
+  let arrayDepth = -1;
+  let itemStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') {
+        inString = false;
+        lastString = text.slice(stringStart, i + 1);
+      }
+      continue;
+    }
+    switch (c) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        expectArray = false;
+        break;
+      case ':':
+        expectArray = depth === 1 && arrayDepth === -1 && lastString === JSON.stringify(key);
+        break;
+      case '[':
+      case '{':
+        if (c === '[' && expectArray) arrayDepth = depth + 1;
+        else if (c === '{' && depth === arrayDepth) itemStart = i;
+        expectArray = false;
+        depth++;
+        break;
+      case ']':
+      case '}':
+        depth--;
+        if (depth === arrayDepth && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(text.slice(itemStart, i + 1)));
+          } catch {}
+          itemStart = -1;
+        }
+        if (arrayDepth !== -1 && depth < arrayDepth) return items;
+        break;
+      default:
+        if (!/\s/.test(c)) expectArray = false;
+    }
+  }
+  return items;
+}
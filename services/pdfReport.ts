@@ -0,0 +1,595 @@
+import { jsPDF } from 'jspdf';
+import { AnalysisResult, ImageAnalysis, PdfBranding, RegionBox, RegionSeverity } from '../types.ts';
+import { summarizeMetrics, summarizePreprocessing } from './imageMetrics.ts';
+import { benchmarkScores, findBenchmarkFor } from './competitorBenchmark.ts';
+import { BRAND_RULE_LABELS } from './brandGuide.ts';
+import { parseHex } from './auditDiff.ts';
+
+type Rgb = [number, number, number];
+
+const MARGIN = 18;
+/** Space kept free at the top and bottom of content pages for the running header and footer. */
+const HEADER = 10;
+const FOOTER = 12;
+/** Points to millimetres, for turning font sizes into line heights. */
+const PT = 0.3528;
+
+const INDIGO: Rgb = [79, 70, 229];
+const SLATE_900: Rgb = [15, 23, 42];
+const SLATE_600: Rgb = [71, 85, 105];
+const SLATE_400: Rgb = [148, 163, 184];
+const SLATE_100: Rgb = [241, 245, 249];
+const WHITE: Rgb = [255, 255, 255];
+const TONES: Record<RegionSeverity | 'issue' | 'strength', Rgb> = {
+  high: [244, 63, 94],
+  medium: [245, 158, 11],
+  low: [14, 165, 233],
+  issue: [244, 63, 94],
+  strength: [16, 185, 129]
+};
+
+/** jsPDF formats for the image types the audit stores; anything else is drawn as a placeholder. */
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/jpg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WEBP',
+  'image/gif': 'GIF'
+};
+
+/**
+ * The built-in PDF fonts only cover Latin-1. Typographic punctuation from
+ * model output is mapped to ASCII and anything else outside the set dropped,
+ * so it does not render as garbage.
+ */
+function clean(text: string): string {
+  return text
+    .replace(/[‘’‛]/g, "'")
+    .replace(/[“”‟]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '·')
+    .replace(/[^\x09\x0A\x0D\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+function subjectOf(result: AnalysisResult): string {
+  if (result.upload) return result.upload.productName || 'Uploaded photography';
+  try {
+    return new URL(result.url).hostname;
+  } catch {
+    return result.url;
+  }
+}
+
+interface Section {
+  title: string;
+  page: number;
+}
+
+interface Marker {
+  number: number;
+  box: RegionBox;
+  color: Rgb;
+}
+
+/**
+ * Flowing layout over jsPDF: keeps a cursor, wraps text to the content width
+ * and starts a new page whenever the next block would not fit.
+ */
+function createWriter(pdf: jsPDF, primary: Rgb, accent: Rgb) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const width = pageWidth - MARGIN * 2;
+  const top = MARGIN + HEADER;
+  const bottom = pageHeight - MARGIN - FOOTER;
+  const sections: Section[] = [];
+  let y = top;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = top;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom && y > top) newPage();
+  };
+  const setText = (size: number, style: 'normal' | 'bold' | 'italic', color: Rgb) => {
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+  };
+
+  const paragraph = (
+    text: string,
+    { size = 10, style = 'normal', color = SLATE_600, indent = 0, after = 2 }: { size?: number; style?: 'normal' | 'bold' | 'italic'; color?: Rgb; indent?: number; after?: number } = {}
+  ) => {
+    setText(size, style, color);
+    const lineHeight = size * PT * 1.4;
+    const lines: string[] = pdf.splitTextToSize(clean(text), width - indent);
+    lines.forEach((line) => {
+      ensureSpace(lineHeight);
+      pdf.text(line, MARGIN + indent, y, { baseline: 'top' });
+      y += lineHeight;
+    });
+    y += after;
+  };
+
+  /** Section titles start a new page and are recorded for the table of contents. */
+  const section = (title: string) => {
+    newPage();
+    sections.push({ title, page: pdf.getNumberOfPages() });
+    setText(20, 'bold', primary);
+    pdf.text(clean(title), MARGIN, y, { baseline: 'top' });
+    y += 10;
+    pdf.setDrawColor(...accent);
+    pdf.setLineWidth(0.8);
+    pdf.line(MARGIN, y, MARGIN + 24, y);
+    y += 8;
+  };
+
+  const heading = (text: string, color: Rgb = SLATE_900) => {
+    ensureSpace(18);
+    y += 2;
+    paragraph(text, { size: 13, style: 'bold', color, after: 2 });
+  };
+
+  const label = (text: string) => paragraph(text.toUpperCase(), { size: 7, style: 'bold', color: SLATE_400, after: 1 });
+
+  const bullets = (items: string[], numbered = false) => {
+    items.forEach((item, idx) => {
+      setText(10, 'bold', accent);
+      ensureSpace(6);
+      pdf.text(numbered ? `${idx + 1}.` : '·', MARGIN + 1, y, { baseline: 'top' });
+      paragraph(item, { indent: 7, after: 1.5 });
+    });
+    y += 1;
+  };
+
+  /** Row of boxed key figures, e.g. scores. */
+  const tiles = (items: { label: string; value: string }[]) => {
+    const gap = 4;
+    const tileWidth = (width - gap * (items.length - 1)) / items.length;
+    ensureSpace(24);
+    items.forEach((item, idx) => {
+      const x = MARGIN + idx * (tileWidth + gap);
+      pdf.setFillColor(...SLATE_100);
+      pdf.roundedRect(x, y, tileWidth, 22, 3, 3, 'F');
+      setText(7, 'bold', SLATE_400);
+      pdf.text(clean(item.label.toUpperCase()), x + 4, y + 4, { baseline: 'top' });
+      setText(18, 'bold', primary);
+      pdf.text(clean(item.value), x + 4, y + 10, { baseline: 'top' });
+    });
+    y += 28;
+  };
+
+  const swatches = (colors: string[]) => {
+    const parsed = colors.map((c) => ({ color: c, rgb: parseHex(c) })).filter((c) => c.rgb);
+    if (parsed.length === 0) return;
+    ensureSpace(8);
+    let x = MARGIN;
+    parsed.forEach(({ color, rgb }) => {
+      pdf.setFillColor(...rgb!);
+      pdf.setDrawColor(...SLATE_400);
+      pdf.setLineWidth(0.1);
+      pdf.rect(x, y, 5, 5, 'FD');
+      setText(8, 'normal', SLATE_600);
+      pdf.text(clean(color), x + 6.5, y + 0.6, { baseline: 'top' });
+      x += 6.5 + pdf.getTextWidth(clean(color)) + 5;
+    });
+    y += 9;
+  };
+
+  /** Table with wrapped cells; the header row repeats after a page break. */
+  const table = (headers: string[], rows: string[][], columns: number[]) => {
+    const total = columns.reduce((a, b) => a + b, 0);
+    const widths = columns.map((c) => (c / total) * width);
+    const drawRow = (cells: string[], header: boolean) => {
+      setText(8, header ? 'bold' : 'normal', header ? WHITE : SLATE_600);
+      const wrapped = cells.map((cell, idx) => pdf.splitTextToSize(clean(cell), widths[idx] - 4) as string[]);
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * 8 * PT * 1.35 + 4;
+      if (!header && y + height > bottom) {
+        newPage();
+        drawRow(headers, true);
+        setText(8, 'normal', SLATE_600);
+      }
+      pdf.setFillColor(...(header ? accent : WHITE));
+      pdf.setDrawColor(...SLATE_100);
+      pdf.setLineWidth(0.2);
+      pdf.rect(MARGIN, y, width, height, header ? 'F' : 'S');
+      let x = MARGIN;
+      wrapped.forEach((lines, idx) => {
+        pdf.text(lines, x + 2, y + 2, { baseline: 'top', lineHeightFactor: 1.35 });
+        x += widths[idx];
+      });
+      y += height;
+    };
+    ensureSpace(20);
+    drawRow(headers, true);
+    rows.forEach((row) => drawRow(row, false));
+    y += 5;
+  };
+
+  /**
+   * Embeds a base64 image scaled into the given box, with numbered region
+   * outlines on top. Images jsPDF cannot decode become a labelled placeholder
+   * rather than failing the whole report.
+   */
+  const image = (base64: string | undefined, mimeType: string | undefined, maxWidth: number, maxHeight: number, markers: Marker[] = [], x = MARGIN) => {
+    const format = mimeType && IMAGE_FORMATS[mimeType];
+    let size: { width: number; height: number } | null = null;
+    const data = base64 && format ? `data:${mimeType};base64,${base64}` : '';
+    if (data) {
+      try {
+        const props = pdf.getImageProperties(data);
+        const scale = Math.min(maxWidth / props.width, maxHeight / props.height);
+        size = { width: props.width * scale, height: props.height * scale };
+      } catch {
+        size = null;
+      }
+    }
+
+    if (!size) {
+      ensureSpace(30);
+      pdf.setFillColor(...SLATE_100);
+      pdf.rect(x, y, maxWidth, 26, 'F');
+      setText(8, 'bold', SLATE_400);
+      pdf.text(base64 ? 'IMAGE FORMAT NOT EMBEDDABLE' : 'IMAGE NOT STORED WITH THIS AUDIT', x + maxWidth / 2, y + 13, { align: 'center', baseline: 'middle' });
+      y += 30;
+      return;
+    }
+
+    ensureSpace(size.height + 4);
+    try {
+      pdf.addImage(data, format!, x, y, size.width, size.height, undefined, 'FAST');
+    } catch {
+      pdf.setFillColor(...SLATE_100);
+      pdf.rect(x, y, size.width, size.height, 'F');
+    }
+    markers.forEach(({ number, box, color }) => {
+      const bx = x + box.x * size!.width;
+      const by = y + box.y * size!.height;
+      pdf.setDrawColor(...color);
+      pdf.setLineWidth(0.6);
+      pdf.rect(bx, by, box.width * size!.width, box.height * size!.height, 'S');
+      pdf.setFillColor(...color);
+      pdf.circle(bx, by, 2.4, 'F');
+      setText(7, 'bold', WHITE);
+      pdf.text(String(number), bx, by, { align: 'center', baseline: 'middle' });
+    });
+    y += size.height + 4;
+  };
+
+  return {
+    pdf,
+    width,
+    sections,
+    ensureSpace,
+    section,
+    heading,
+    label,
+    paragraph,
+    bullets,
+    tiles,
+    swatches,
+    table,
+    image
+  };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+function averageQuality(images: ImageAnalysis[]): number {
+  const analyzed = images.filter((img) => !img.notAnalyzed);
+  return Math.round(analyzed.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(analyzed.length, 1));
+}
+
+function keyFigures(result: AnalysisResult): { label: string; value: string }[] {
+  return [
+    { label: 'Brand consistency', value: `${result.summary.brandConsistency}%` },
+    { label: 'Average quality', value: `${averageQuality(result.images)}%` },
+    ...(result.brandComplianceSummary ? [{ label: 'Brand compliance', value: `${result.brandComplianceSummary.score}%` }] : []),
+    { label: 'Assets audited', value: String(result.images.length) }
+  ];
+}
+
+function drawCover(pdf: jsPDF, result: AnalysisResult, branding: PdfBranding, primary: Rgb, accent: Rgb, date: Date) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  pdf.setFillColor(...primary);
+  pdf.rect(0, 0, pageWidth, 110, 'F');
+  pdf.setFillColor(...accent);
+  pdf.rect(0, 110, pageWidth, 3, 'F');
+
+  if (branding.logo && IMAGE_FORMATS[branding.logo.mimeType]) {
+    try {
+      const data = `data:${branding.logo.mimeType};base64,${branding.logo.base64}`;
+      const props = pdf.getImageProperties(data);
+      const scale = Math.min(50 / props.width, 20 / props.height);
+      pdf.setFillColor(...WHITE);
+      pdf.roundedRect(MARGIN - 3, 17, props.width * scale + 6, props.height * scale + 6, 2, 2, 'F');
+      pdf.addImage(data, IMAGE_FORMATS[branding.logo.mimeType], MARGIN, 20, props.width * scale, props.height * scale);
+    } catch {
+      // An unreadable logo leaves the cover without one.
+    }
+  }
+
+  pdf.setTextColor(...WHITE);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(9);
+  pdf.text('VISUAL AUDIT REPORT', MARGIN, 58, { baseline: 'top' });
+  pdf.setFontSize(28);
+  const title: string[] = pdf.splitTextToSize(clean(subjectOf(result)), pageWidth - MARGIN * 2);
+  pdf.text(title.slice(0, 2), MARGIN, 66, { baseline: 'top', lineHeightFactor: 1.15 });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  if (!result.upload) pdf.text(clean(result.url).slice(0, 110), MARGIN, 98, { baseline: 'top' });
+
+  let y = 126;
+  const details = [
+    ['Date', date.toISOString().slice(0, 10)],
+    ...(result.model ? [['Model', `${result.model}${result.provider ? ` (${result.provider})` : ''}`]] : []),
+    ...(result.profile ? [['Profile', result.profile.name]] : []),
+    ...(result.brandGuide?.name ? [['Brand guide', result.brandGuide.name]] : [])
+  ];
+  details.forEach(([name, value]) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    pdf.setTextColor(...SLATE_400);
+    pdf.text(name.toUpperCase(), MARGIN, y, { baseline: 'top' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.setTextColor(...SLATE_900);
+    pdf.text(clean(value), MARGIN + 32, y - 0.6, { baseline: 'top' });
+    y += 8;
+  });
+
+  y += 8;
+  const figures = keyFigures(result);
+  const gap = 4;
+  const tileWidth = (pageWidth - MARGIN * 2 - gap * (figures.length - 1)) / figures.length;
+  figures.forEach((figure, idx) => {
+    const x = MARGIN + idx * (tileWidth + gap);
+    pdf.setFillColor(...SLATE_100);
+    pdf.roundedRect(x, y, tileWidth, 30, 3, 3, 'F');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.setTextColor(...SLATE_400);
+    pdf.text(figure.label.toUpperCase(), x + 4, y + 5, { baseline: 'top' });
+    pdf.setFontSize(24);
+    pdf.setTextColor(...primary);
+    pdf.text(figure.value, x + 4, y + 13, { baseline: 'top' });
+  });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(...SLATE_400);
+  pdf.text(clean(`Prepared by ${branding.companyName || 'VisualSense'}`), MARGIN, pageHeight - MARGIN, { baseline: 'bottom' });
+}
+
+function summarySection(w: Writer, result: AnalysisResult) {
+  const { summary } = result;
+  w.section('Executive Summary');
+  w.tiles(keyFigures(result));
+  w.label('Creative style');
+  w.paragraph(summary.creativeStyle, { size: 12, style: 'bold', color: SLATE_900, after: 4 });
+  w.label('Overall aesthetic');
+  w.paragraph(summary.overallAesthetic, { after: 4 });
+  if (result.validationIssues?.length) {
+    w.paragraph(`${result.validationIssues.length} problems in the model output were repaired or left incomplete; see the JSON export for details.`, { size: 8, style: 'italic', color: SLATE_400 });
+  }
+
+  if (summary.profileFields) {
+    w.heading(`${result.profile?.name || 'Profile'} Findings`);
+    w.table(
+      ['Field', 'Value'],
+      Object.entries(summary.profileFields).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)]),
+      [1, 3]
+    );
+  }
+}
+
+function brandSection(w: Writer, result: AnalysisResult) {
+  const summary = result.brandComplianceSummary;
+  if (!summary) return;
+  w.section(`Brand Compliance${result.brandGuide?.name ? `: ${result.brandGuide.name}` : ''}`);
+  w.paragraph(`${summary.score}% of checks passed across ${result.images.length} assets.`, { size: 12, style: 'bold', color: SLATE_900, after: 4 });
+  w.table(['Rule', 'Passed', 'Share'], summary.rules.map((r) => [BRAND_RULE_LABELS[r.rule], `${r.passed}/${r.total}`, `${Math.round((r.passed / Math.max(r.total, 1)) * 100)}%`]), [3, 1, 1]);
+  if (result.brandGuide?.palette.length) {
+    w.label('Brand palette');
+    w.swatches(result.brandGuide.palette);
+  }
+}
+
+function layoutSection(w: Writer, result: AnalysisResult) {
+  const { layout, summary } = result;
+  w.section('Layout & Typography');
+  if (!layout) {
+    if (result.layoutError) w.paragraph(`Screenshots unavailable: ${result.layoutError}`, { size: 8, style: 'italic', color: SLATE_400 });
+    w.label('Typography');
+    w.paragraph(summary.typographyNotes, { after: 4 });
+    w.label('Layout');
+    w.paragraph(summary.layoutAnalysis);
+    return;
+  }
+
+  w.label('Typography');
+  w.paragraph(layout.typographyNotes, { after: 4 });
+  w.label('Layout');
+  w.paragraph(layout.layoutAnalysis, { after: 4 });
+  w.label('Hierarchy');
+  w.paragraph(layout.hierarchyNotes, { after: 4 });
+
+  // Full-page captures are too tall to read at page width, so only the
+  // above-the-fold shots are drawn; their annotations keep the on-screen numbering.
+  const numbered = layout.annotations.map((annotation, idx) => ({ annotation, number: idx + 1 }));
+  layout.screenshots.filter((s) => s.kind === 'fold').forEach((shot) => {
+    const own = numbered.filter(({ annotation }) => annotation.screenshotId === shot.id);
+    w.ensureSpace(100);
+    w.heading(`${shot.viewport === 'desktop' ? 'Desktop' : 'Mobile'}, above the fold`);
+    w.image(shot.base64, shot.mimeType, shot.viewport === 'mobile' ? w.width * 0.45 : w.width, 150, own.map(({ annotation, number }) => ({ number, box: annotation.box, color: TONES[annotation.kind] })));
+  });
+
+  if (numbered.length) {
+    w.heading('Annotations');
+    w.table(
+      ['#', 'Screenshot', 'Kind', 'Finding'],
+      numbered.map(({ annotation, number }) => [String(number), annotation.screenshotId, annotation.kind, `${annotation.label}: ${annotation.note}`]),
+      [0.4, 1.3, 0.9, 5]
+    );
+  }
+}
+
+function actionSection(w: Writer, result: AnalysisResult) {
+  w.section('Action Items');
+  w.bullets(result.summary.marketingActionables);
+  w.heading('Optimization Roadmap');
+  w.bullets(result.summary.visualRoadmap, true);
+}
+
+function benchmarkSection(w: Writer, result: AnalysisResult) {
+  const { summary } = result;
+  if (!result.benchmarks?.length && summary.competitors.length === 0) return;
+  w.section('Competitive Benchmarking');
+  if (result.benchmarks?.length) {
+    const share = (value: number | undefined) => (value === undefined ? '-' : `${Math.round(value * 100)}%`);
+    const rows = [benchmarkScores(result, 'This page'), ...result.benchmarks.filter((b) => b.audit).map((b) => benchmarkScores(b.audit!))];
+    w.table(
+      ['Page', 'Brand sync', 'Avg quality', 'Median long edge', 'Sharp', 'White bg'],
+      [
+        ...rows.map((s) => [s.label, `${s.brandConsistency}%`, `${s.averageQuality}%`, s.medianLongEdge === undefined ? '-' : `${s.medianLongEdge}px`, share(s.sharpShare), share(s.whiteBackgroundShare)]),
+        ...result.benchmarks.filter((b) => !b.audit).map((b) => [b.url, `failed: ${b.error}`, '', '', '', ''])
+      ],
+      [3, 1, 1, 1.3, 0.8, 0.8]
+    );
+  }
+  summary.competitors.forEach((comp) => {
+    w.heading(`${comp.name}${findBenchmarkFor(comp, result.benchmarks) ? '' : ' (unverified model suggestion)'}`);
+    w.paragraph(`${comp.marketPosition}. ${comp.visualTakeaway}`);
+    w.bullets(comp.strengths);
+  });
+}
+
+function assetSection(w: Writer, result: AnalysisResult) {
+  w.section('Asset Audit');
+  result.images.forEach((img, idx) => {
+    if (idx > 0) w.ensureSpace(120);
+    w.heading(`Asset #${idx + 1}${img.notAnalyzed ? ' (not analyzed)' : ` · ${img.qualityScore}%`}`);
+    const regions = img.regions || [];
+    w.image(img.base64, img.mimeType, w.width, 95, regions.map((r, ri) => ({ number: ri + 1, box: r.box, color: TONES[r.severity] })));
+    w.paragraph(img.url.startsWith('data:') ? 'Inline image' : img.url, { size: 7, color: SLATE_400 });
+
+    if (img.notAnalyzed) {
+      w.paragraph('The model returned no analysis for this asset.', { style: 'italic' });
+    } else {
+      w.table(
+        ['Aspect', 'Assessment'],
+        [
+          ['Lighting', img.lighting],
+          ['Composition', img.composition],
+          ['Mood', img.mood],
+          ...(img.criteriaScores || []).map((cs) => [result.profile?.criteria.find((c) => c.id === cs.criterion)?.label || cs.criterion, `${cs.score}: ${cs.note}`]),
+          ...(img.brandCompliance?.findings || []).map((f) => [BRAND_RULE_LABELS[f.rule], `${f.pass ? 'Pass' : 'Fail'}: ${f.note}`])
+        ],
+        [1, 4]
+      );
+      w.label('Dominant colors');
+      w.swatches(img.dominantColors);
+      if (regions.length) {
+        w.label('Located issues');
+        w.bullets(regions.map((r) => `${r.label} [${r.severity}, ${r.category}]: ${r.note}`), true);
+      }
+    }
+    if (img.metrics) w.paragraph(`Measured: ${summarizeMetrics(img.metrics)}`, { size: 8, color: SLATE_400 });
+    if (img.preprocessing) w.paragraph(`Preprocessed: ${summarizePreprocessing(img.preprocessing)}`, { size: 8, color: SLATE_400 });
+    if (!img.notAnalyzed) {
+      w.label('How to improve');
+      w.paragraph(img.howToImprove, { style: 'bold', color: SLATE_900, after: 6 });
+    }
+  });
+}
+
+/** Adds the contents page after the cover, linking each entry to its section. */
+function insertContents(pdf: jsPDF, sections: Section[], primary: Rgb) {
+  pdf.insertPage(2);
+  const width = pdf.internal.pageSize.getWidth();
+  let y = MARGIN + HEADER;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(20);
+  pdf.setTextColor(...primary);
+  pdf.text('Contents', MARGIN, y, { baseline: 'top' });
+  y += 18;
+
+  sections.forEach(({ title, page }, idx) => {
+    // Every section moved back one page when the contents page went in.
+    const target = page + 1;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(11);
+    pdf.setTextColor(...SLATE_900);
+    const text = clean(`${idx + 1}.  ${title}`);
+    pdf.text(text, MARGIN, y, { baseline: 'top' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(...SLATE_600);
+    pdf.text(String(target), width - MARGIN, y, { baseline: 'top', align: 'right' });
+    pdf.setDrawColor(...SLATE_100);
+    pdf.setLineWidth(0.3);
+    pdf.line(MARGIN + pdf.getTextWidth(text) + 14, y + 3, width - MARGIN - 10, y + 3);
+    pdf.link(MARGIN, y - 1, width - MARGIN * 2, 7, { pageNumber: target });
+    y += 10;
+  });
+}
+
+function drawFrames(pdf: jsPDF, result: AnalysisResult, branding: PdfBranding, accent: Rgb) {
+  const width = pdf.internal.pageSize.getWidth();
+  const height = pdf.internal.pageSize.getHeight();
+  const total = pdf.getNumberOfPages();
+  const owner = clean(branding.companyName || 'VisualSense');
+  const subject = clean(subjectOf(result));
+
+  for (let page = 2; page <= total; page++) {
+    pdf.setPage(page);
+    pdf.setDrawColor(...accent);
+    pdf.setLineWidth(0.4);
+    pdf.line(MARGIN, MARGIN, width - MARGIN, MARGIN);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.setTextColor(...SLATE_400);
+    pdf.text(owner.toUpperCase(), MARGIN, MARGIN - 2, { baseline: 'bottom' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(subject, width - MARGIN, MARGIN - 2, { baseline: 'bottom', align: 'right' });
+
+    pdf.setDrawColor(...SLATE_100);
+    pdf.line(MARGIN, height - MARGIN - 4, width - MARGIN, height - MARGIN - 4);
+    pdf.setFontSize(8);
+    pdf.text(`Visual audit · ${subject}`, MARGIN, height - MARGIN, { baseline: 'bottom' });
+    pdf.text(`${page} / ${total}`, width - MARGIN, height - MARGIN, { baseline: 'bottom', align: 'right' });
+  }
+}
+
+/**
+ * Multi-page A4 report drawn with jsPDF primitives: cover, linked contents,
+ * one section per part of the audit, embedded images with their located
+ * issues outlined, and numbered pages. Text stays selectable and long audits
+ * paginate instead of being shrunk onto one page.
+ */
+export function buildPdfReport(result: AnalysisResult, branding: PdfBranding = {}, date = new Date()): jsPDF {
+  const primary = (branding.primaryColor && parseHex(branding.primaryColor)) || INDIGO;
+  const accent = (branding.accentColor && parseHex(branding.accentColor)) || primary;
+  const pdf = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4', compress: true });
+  pdf.setProperties({
+    title: clean(`Visual audit: ${subjectOf(result)}`),
+    subject: clean(result.url),
+    creator: clean(branding.companyName || 'VisualSense')
+  });
+
+  drawCover(pdf, result, branding, primary, accent, date);
+  const w = createWriter(pdf, primary, accent);
+  summarySection(w, result);
+  brandSection(w, result);
+  layoutSection(w, result);
+  actionSection(w, result);
+  benchmarkSection(w, result);
+  assetSection(w, result);
+  insertContents(pdf, w.sections, primary);
+  drawFrames(pdf, result, branding, accent);
+  return pdf;
+}
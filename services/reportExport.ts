@@ -0,0 +1,314 @@
+import type { jsPDF } from 'jspdf';
+import { AnalysisResult, ImageAnalysis, PdfBranding, RegionBox, SiteAuditReport } from '../types.ts';
+import { summarizeMetrics, summarizePreprocessing } from './imageMetrics.ts';
+import { benchmarkScores, findBenchmarkFor } from './competitorBenchmark.ts';
+import { BRAND_RULE_LABELS } from './brandGuide.ts';
+import { buildPdfReport } from './pdfReport.ts';
+import { buildHtmlReport } from './htmlReport.ts';
+import { summarizeUsage } from './usageAccounting.ts';
+import { DEVICE_PROFILES } from './deviceVariants.ts';
+
+export type ExportFormat = 'json' | 'md' | 'pdf' | 'html' | 'csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  md: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+};
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  body: string | ArrayBuffer;
+}
+
+/**
+ * `visualsense-<hostname>-<yyyy-mm-dd>.<ext>`, or the product name in place
+ * of the hostname for uploads.
+ */
+export function exportFilename(subject: AnalysisResult | string, format: ExportFormat, date = new Date(), suffix = ''): string {
+  let name: string;
+  if (typeof subject !== 'string' && subject.upload) {
+    name = subject.upload.productName || 'upload';
+  } else {
+    const url = typeof subject === 'string' ? subject : subject.url;
+    try {
+      name = new URL(url).hostname;
+    } catch {
+      name = 'audit';
+    }
+  }
+  const slug = name.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^[-.]+|[-.]+$/g, '') || 'audit';
+  return `visualsense-${slug}${suffix}-${date.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/** JSON export without the inlined base64 payloads, which dwarf the audit itself. */
+export function toJson(result: AnalysisResult): string {
+  const strip = (r: AnalysisResult) => ({ ...r, images: r.images.map(({ base64, ...img }) => img) });
+  const benchmarks = result.benchmarks?.map((b) => (b.audit ? { ...b, audit: strip(b.audit) } : b));
+  const examples = (list: { name: string; mimeType: string }[]) => list.map(({ name, mimeType }) => ({ name, mimeType }));
+  const brandGuide = result.brandGuide && { ...result.brandGuide, doExamples: examples(result.brandGuide.doExamples), dontExamples: examples(result.brandGuide.dontExamples) };
+  const layout = result.layout && { ...result.layout, screenshots: result.layout.screenshots.map(({ base64, ...s }) => s) };
+  return JSON.stringify({ ...strip(result), ...(benchmarks && { benchmarks }), ...(brandGuide && { brandGuide }), ...(layout && { layout }) }, null, 2);
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Box position in words a reader can find without the overlay, e.g. `x 60%, y 55%, 30% × 35%`. */
+function regionPosition(box: RegionBox): string {
+  return `x ${pct(box.x)}, y ${pct(box.y)}, ${pct(box.width)} × ${pct(box.height)}`;
+}
+
+function brandComplianceSection(result: AnalysisResult): string[] {
+  const summary = result.brandComplianceSummary;
+  if (!summary) return [];
+  return [
+    `## Brand Compliance${result.brandGuide?.name ? `: ${result.brandGuide.name}` : ''}`,
+    `**Compliance:** ${summary.score}% of checks passed`,
+    '',
+    '| Rule | Passed |',
+    '| --- | --- |',
+    ...summary.rules.map((r) => `| ${BRAND_RULE_LABELS[r.rule]} | ${r.passed}/${r.total} |`),
+    ''
+  ];
+}
+
+function layoutSection(result: AnalysisResult): string[] {
+  const { layout } = result;
+  if (!layout) return result.layoutError ? ['## Layout & Typography', `_Screenshots unavailable: ${result.layoutError}_`, ''] : [];
+  return [
+    '## Layout & Typography',
+    `_Reviewed from ${layout.screenshots.length} desktop and mobile screenshots_`,
+    '',
+    `**Typography:** ${layout.typographyNotes}`,
+    '',
+    `**Layout:** ${layout.layoutAnalysis}`,
+    '',
+    `**Hierarchy:** ${layout.hierarchyNotes}`,
+    '',
+    ...layout.annotations.map((a) => `- ${a.kind === 'issue' ? 'Issue' : 'Strength'} · ${a.screenshotId} · **${a.label}:** ${a.note}`),
+    ''
+  ];
+}
+
+function deviceSection(result: AnalysisResult): string[] {
+  const { devices } = result;
+  if (!devices) return [];
+  const aspect = (value: number | undefined) => (value === undefined ? '–' : `${value}:1`);
+  return [
+    '## Mobile vs Desktop',
+    devices.markupDiffers ? '_The store serves mobile browsers HTML with different images._\n' : '',
+    ...devices.variants.flatMap((v) => [
+      `### ${DEVICE_PROFILES[v.device].label} (${v.imageUrls.length} assets${v.averageQuality !== undefined ? `, ${v.averageQuality}% average quality` : ''})`,
+      ...v.findings.map((f) => `- ${f}`),
+      ''
+    ]),
+    ...(devices.crops.length
+      ? [
+        '| Position | Desktop aspect | Mobile aspect | Relation | Note |',
+        '| --- | --- | --- | --- | --- |',
+        ...devices.crops.map((c) => `| ${c.rank} | ${aspect(c.desktopAspect)} | ${aspect(c.mobileAspect)} | ${c.relation} | ${c.note} |`),
+        ''
+      ]
+      : [])
+  ];
+}
+
+function benchmarkTable(result: AnalysisResult): string[] {
+  if (!result.benchmarks?.length) return [];
+  const fmt = (value: number | undefined, suffix = '') => (value === undefined ? '–' : `${value}${suffix}`);
+  const share = (value: number | undefined) => (value === undefined ? '–' : `${Math.round(value * 100)}%`);
+  const rows = [benchmarkScores(result, 'This page'), ...result.benchmarks.filter((b) => b.audit).map((b) => benchmarkScores(b.audit!))];
+  return [
+    '| Page | Brand sync | Avg quality | Median long edge | Sharp | White background |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...rows.map((s) => `| ${s.label} | ${s.brandConsistency}% | ${s.averageQuality}% | ${fmt(s.medianLongEdge, 'px')} | ${share(s.sharpShare)} | ${share(s.whiteBackgroundShare)} |`),
+    ...result.benchmarks.filter((b) => !b.audit).map((b) => `| ${b.url} | failed: ${b.error} | | | | |`),
+    ''
+  ];
+}
+
+export function toMarkdown(result: AnalysisResult): string {
+  const { summary } = result;
+  const lines: string[] = [
+    `# Visual Audit: ${result.url}`,
+    '',
+    result.model ? `_Model: ${result.model}${result.profile ? ` · Profile: ${result.profile.name}` : ''}_\n` : '',
+    result.usage ? `_Usage: ${summarizeUsage(result.usage)}_\n` : '',
+    `**Brand consistency:** ${summary.brandConsistency}%  `,
+    `**Creative style:** ${summary.creativeStyle}`,
+    '',
+    ...(summary.profileFields
+      ? [
+        `## ${result.profile?.name || 'Profile'} Findings`,
+        ...Object.entries(summary.profileFields).map(([name, value]) => `- **${name}:** ${Array.isArray(value) ? value.join(', ') : value}`),
+        ''
+      ]
+      : []),
+    ...brandComplianceSection(result),
+    ...layoutSection(result),
+    ...deviceSection(result),
+    '## Action Items',
+    ...summary.marketingActionables.map((item) => `- ${item}`),
+    '',
+    '## Optimization Roadmap',
+    ...summary.visualRoadmap.map((step, idx) => `${idx + 1}. ${step}`),
+    '',
+    '## Competitive Benchmarking',
+    ...benchmarkTable(result),
+    ...summary.competitors.flatMap((comp) => [
+      `### ${comp.name}${findBenchmarkFor(comp, result.benchmarks) ? '' : ' (unverified model suggestion)'}`,
+      `${comp.marketPosition}. ${comp.visualTakeaway}`,
+      ...comp.strengths.map((s) => `- ${s}`),
+      ''
+    ]),
+    '## Asset Audit',
+    ...result.images.flatMap((img, idx) => [
+      `### Asset #${idx + 1} (${img.notAnalyzed ? 'not analyzed' : `${img.qualityScore}%`})`,
+      /^https?:\/\//i.test(img.url) ? `![Asset ${idx + 1}](${img.url})` : '',
+      '',
+      ...(img.notAnalyzed
+        ? ['_The model returned no analysis for this asset._']
+        : [
+          `- **Lighting:** ${img.lighting}`,
+          `- **Composition:** ${img.composition}`,
+          `- **Colors:** ${img.dominantColors.join(', ')}`,
+          ...(img.criteriaScores || []).map((cs) => `- **${result.profile?.criteria.find((c) => c.id === cs.criterion)?.label || cs.criterion}:** ${cs.score} (${cs.note})`),
+          ...(img.brandCompliance?.findings || []).map((f) => `- **${BRAND_RULE_LABELS[f.rule]}:** ${f.pass ? 'pass' : 'fail'} (${f.note})`),
+          ...(img.regions?.length ? ['- **Located issues:**', ...img.regions.map((r, ri) => `  ${ri + 1}. ${r.label} [${r.severity} · ${r.category}] at ${regionPosition(r.box)}: ${r.note}`)] : [])
+        ]),
+      img.metrics ? `- **Measured:** ${summarizeMetrics(img.metrics)}` : '',
+      img.preprocessing ? `- **Preprocessed:** ${summarizePreprocessing(img.preprocessing)}` : '',
+      img.devices ? `- **Shown on:** ${img.devices.map((d) => DEVICE_PROFILES[d].label.toLowerCase()).join(', ')}` : '',
+      '',
+      img.notAnalyzed ? '' : `> ${img.howToImprove}`,
+      ''
+    ])
+  ];
+  return lines.filter((line, idx) => line !== '' || lines[idx - 1] !== '').join('\n');
+}
+
+/** Paginated PDF report built from the audit data, usable where the DOM is not. */
+export function toPdf(result: AnalysisResult, branding?: PdfBranding): jsPDF {
+  return buildPdfReport(result, branding);
+}
+
+const CSV_COLUMNS = ['page', 'url', 'qualityScore', 'lighting', 'mood', 'composition', 'colors', 'width', 'height', 'fileSizeBytes', 'sharpness', 'blurry', 'whiteBackground', 'brandCompliance', 'locatedIssues'];
+
+function csvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) return '';
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas; model output must stay text.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(result: AnalysisResult): string[] {
+  return result.images.map((img: ImageAnalysis) => [
+    result.url,
+    img.url.startsWith('data:') ? 'inline image' : img.url,
+    img.notAnalyzed ? undefined : img.qualityScore,
+    img.notAnalyzed ? undefined : img.lighting,
+    img.notAnalyzed ? undefined : img.mood,
+    img.notAnalyzed ? undefined : img.composition,
+    img.dominantColors.join(' '),
+    img.metrics?.width,
+    img.metrics?.height,
+    img.metrics?.fileSizeBytes,
+    img.metrics?.sharpness,
+    img.metrics?.blurry,
+    img.metrics?.whiteBackground,
+    img.brandCompliance?.score,
+    img.regions?.length
+  ].map(csvCell).join(','));
+}
+
+/** One row per audited image with the model's critique and the local measurements. */
+export function toCsv(result: AnalysisResult | AnalysisResult[]): string {
+  const results = Array.isArray(result) ? result : [result];
+  return [CSV_COLUMNS.join(','), ...results.flatMap(csvRows)].join('\r\n') + '\r\n';
+}
+
+/** Single-file HTML with styles and images inlined. */
+export function toHtml(result: AnalysisResult): string {
+  return buildHtmlReport(result);
+}
+
+/**
+ * Renders an audit in any export format with its conventional filename, for
+ * browser downloads and headless runners alike.
+ */
+export function renderExport(result: AnalysisResult, format: ExportFormat, options: { branding?: PdfBranding; date?: Date } = {}): ExportedFile {
+  const date = options.date ?? new Date();
+  const { mimeType } = EXPORT_FORMATS[format];
+  const filename = exportFilename(result, format, date);
+  switch (format) {
+    case 'pdf':
+      return { filename, mimeType, body: buildPdfReport(result, options.branding, date).output('arraybuffer') };
+    case 'html':
+      return { filename, mimeType, body: buildHtmlReport(result, date) };
+    case 'csv':
+      return { filename, mimeType, body: toCsv(result) };
+    case 'md':
+      return { filename, mimeType, body: toMarkdown(result) };
+    default:
+      return { filename, mimeType, body: toJson(result) };
+  }
+}
+
+/** Site reports export as JSON, Markdown or a CSV covering every page. */
+export function renderSiteExport(report: SiteAuditReport, format: 'json' | 'md' | 'csv', date = new Date()): ExportedFile {
+  const { mimeType } = EXPORT_FORMATS[format];
+  const filename = exportFilename(report.startUrl, format, date, '-site');
+  if (format === 'csv') return { filename, mimeType, body: toCsv(report.pages) };
+  if (format === 'md') return { filename, mimeType, body: siteReportToMarkdown(report) };
+  const pages = report.pages.map((page) => ({ ...page, images: page.images.map(({ base64, ...img }) => img) }));
+  return { filename, mimeType, body: JSON.stringify({ ...report, pages }, null, 2) };
+}
+
+/** The images of every finished audit in a batch, as one CSV. */
+export function renderBatchExport(results: AnalysisResult[], date = new Date()): ExportedFile {
+  return { filename: `visualsense-batch-${date.toISOString().slice(0, 10)}.csv`, mimeType: EXPORT_FORMATS.csv.mimeType, body: toCsv(results) };
+}
+
+/** Saves an export through a temporary download link. Browser only. */
+export function downloadExport(file: ExportedFile) {
+  const blob = new Blob([file.body], { type: file.mimeType });
+  const link = Object.assign(document.createElement('a'), { href: URL.createObjectURL(blob), download: file.filename });
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(link.href);
+}
+
+export function siteReportToMarkdown(report: SiteAuditReport): string {
+  const { rollup } = report;
+  return [
+    `# Site Visual Audit: ${report.startUrl}`,
+    '',
+    `**Pages audited:** ${rollup.pageCount} (${report.failures.length} failed)  `,
+    `**Assets audited:** ${rollup.imageCount}  `,
+    `**Average brand consistency:** ${rollup.averageBrandConsistency}% (spread ${rollup.brandConsistencySpread})  `,
+    `**Average quality:** ${rollup.averageQuality}%`,
+    '',
+    '## Quality Distribution',
+    ...rollup.qualityDistribution.map((b) => `- ${b.label}: ${b.count}`),
+    '',
+    '## Recurring Issues',
+    ...(rollup.recurringIssues.length
+      ? rollup.recurringIssues.map((issue) => `- **${issue.theme}** on ${issue.pageCount} pages${issue.examples[0] ? `: ${issue.examples[0]}` : ''}`)
+      : ['- None']),
+    '',
+    '## Pages',
+    '| Page | Brand consistency | Avg quality | Assets |',
+    '| --- | --- | --- | --- |',
+    ...report.pages.map((page) => {
+      const analyzed = page.images.filter((img) => !img.notAnalyzed);
+      const quality = Math.round(analyzed.reduce((acc, img) => acc + img.qualityScore, 0) / Math.max(analyzed.length, 1));
+      return `| ${page.url} | ${page.summary.brandConsistency}% | ${quality}% | ${page.images.length} |`;
+    }),
+    ...report.failures.map((f) => `| ${f.url} | failed: ${f.error} | | |`)
+  ].join('\n');
+}
@@ -0,0 +1,119 @@
+/** Statuses that mean "try again later" rather than "this request is wrong". */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Stops retrying and cuts any backoff wait short when aborted. */
+  signal?: AbortSignal | null;
+  /** Called before each wait, e.g. to surface "rate limited, retrying in 4s". */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'onRetry' | 'signal'>> = { retries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/** An HTTP failure with the status, and the server's `Retry-After` when it sent one. */
+export class HttpStatusError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/** `Retry-After` as seconds or an HTTP date, in milliseconds. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** The error `fetch` and the provider SDKs throw when their signal is aborted. */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error)?.name === 'AbortError';
+}
+
+/**
+ * The `TypeError` `fetch` throws when the request never got a response, as
+ * worded by Node ("fetch failed"), Chromium, Firefox and Safari. Other
+ * `TypeError`s are bugs and are not worth retrying.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError && /^(fetch failed|Failed to fetch|NetworkError when attempting to fetch resource|Load failed)/.test(error.message);
+}
+
+/**
+ * Rate limits, overloaded or unreachable upstreams and network failures.
+ * Provider SDK errors expose the HTTP status as `status`; Gemini's quota
+ * errors also name it in the message.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUSES.has(status);
+  if (isNetworkError(error)) return true;
+  if (error instanceof TypeError) return false;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test((error as Error)?.message || '');
+}
+
+/** Exponential backoff with full jitter, capped, or the server's requested wait. */
+function backoff(attempt: number, error: unknown, options: Required<Omit<RetryOptions, 'onRetry' | 'signal'>>): number {
+  const requested = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+  if (typeof requested === 'number') return Math.min(requested, options.maxDelayMs);
+  return Math.round(Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/** Runs `task`, retrying retryable failures with backoff. Other errors surface immediately. */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const settings = { ...DEFAULT_RETRY, ...options };
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= settings.retries || options.signal?.aborted || !isRetryable(error)) throw error;
+      const delay = backoff(attempt, error, settings);
+      options.onRetry?.(attempt + 1, delay, error);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * `fetch` that retries network failures and retryable statuses. When the
+ * retries run out the last response is returned as-is, so callers keep their
+ * own handling of non-OK responses. Aborting `init.signal` also ends the retries.
+ * A 502 or 504 from the fetch proxy carrying `X-Proxy-Retryable: false` (an
+ * unknown host, a bad certificate, a timed-out upstream) is returned at once.
+ */
+export async function fetchWithRetry(input: string, init?: RequestInit, options: RetryOptions = {}): Promise<Response> {
+  const retries = options.retries ?? DEFAULT_RETRY.retries;
+  let attempts = 0;
+  return withRetry(async () => {
+    attempts++;
+    const response = await fetch(input, init);
+    const retryable = RETRYABLE_STATUSES.has(response.status) && response.headers.get('x-proxy-retryable') !== 'false';
+    if (retryable && attempts <= retries) {
+      throw new HttpStatusError(`Request failed (${response.status})`, response.status, parseRetryAfter(response.headers.get('retry-after')));
+    }
+    return response;
+  }, { signal: init?.signal, ...options });
+}
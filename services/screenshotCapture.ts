@@ -0,0 +1,29 @@
+import { PageScreenshot } from "../types.ts";
+import { readEnv } from "./env.ts";
+
+/** Screenshot endpoint mounted by the Vite dev server or `npm run proxy`. */
+export const DEFAULT_CAPTURE_BASE = '/api/capture?url=';
+
+export type PageCapturer = (url: string, signal?: AbortSignal) => Promise<PageScreenshot[]>;
+
+async function captureViaEndpoint(url: string, signal?: AbortSignal): Promise<PageScreenshot[]> {
+  const response = await fetch(`${readEnv('CAPTURE_BASE') || DEFAULT_CAPTURE_BASE}${encodeURIComponent(url)}`, { signal });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(`Screenshot capture failed (${response.status}): ${body.error || 'no details'}`);
+  return body.screenshots;
+}
+
+let capturer: PageCapturer = captureViaEndpoint;
+
+/**
+ * Replaces how pages are captured. The browser goes through the capture
+ * endpoint; the CLI drives the headless browser in-process.
+ */
+export function setPageCapturer(next: PageCapturer): void {
+  capturer = next;
+}
+
+/** Desktop and mobile screenshots, above the fold and full page. */
+export function capturePageScreenshots(url: string, signal?: AbortSignal): Promise<PageScreenshot[]> {
+  return capturer(url, signal);
+}
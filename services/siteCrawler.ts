@@ -0,0 +1,206 @@
+import { AnalysisResult, AuditProgressEvent, RecurringIssue, SiteAuditReport, SiteRollup } from "../types.ts";
+import { AuditPageOptions, auditPage } from "./auditPipeline.ts";
+import { fetchViaProxy, proxyFetchHtml, readPageResponse } from "./geminiService.ts";
+import { cachedFetch } from "./auditCache.ts";
+import { findTags } from "./imageExtraction.ts";
+
+export interface CrawlOptions {
+  /** Link hops followed from the start page; 0 audits the start page only. */
+  maxDepth?: number;
+  maxPages?: number;
+  /** Paths considered worth auditing. Defaults to {@link PRODUCT_PATH_PATTERN}. */
+  linkPattern?: RegExp;
+  onStatus?: (message: string) => void;
+  /** Reports each crawled page; audit events come from the audit options. */
+  onProgress?: (event: AuditProgressEvent) => void;
+  /** Stops the crawl and aborts the page fetch in flight. */
+  signal?: AbortSignal;
+  /** Refetch crawled pages instead of using cached copies. */
+  fresh?: boolean;
+}
+
+export const PRODUCT_PATH_PATTERN = /\/(products?|p|pd|item|items|dp|collections?|category|categories|c|shop|catalog|store)(\/|$)|-p-\d+|\.html?$/i;
+
+const SKIP_PATH_PATTERN = /\/(cart|checkout|account|login|register|search|wishlist|policies|pages\/(contact|faq))(\/|$)|\.(jpg|jpeg|png|gif|webp|svg|pdf|zip|css|js)$/i;
+
+function isSitemap(url: string): boolean {
+  return /sitemap[^/]*\.xml(\?|$)/i.test(url);
+}
+
+function normalizePageUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    url.hash = '';
+    return url.protocol.startsWith('http') ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Reads `<loc>` entries from a sitemap, descending into sitemap indexes. */
+async function readSitemap(url: string, limit: number, signal?: AbortSignal, depth = 0): Promise<string[]> {
+  const xml = await proxyFetchHtml(url, signal);
+  const locs = Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi), (m) => m[1].replace(/&amp;/g, '&'));
+  if (!/<sitemapindex/i.test(xml) || depth > 1) return locs.slice(0, limit);
+
+  const pages: string[] = [];
+  for (const child of locs) {
+    if (pages.length >= limit) break;
+    try {
+      pages.push(...await readSitemap(child, limit - pages.length, signal, depth + 1));
+    } catch {
+      signal?.throwIfAborted();
+    }
+  }
+  return pages;
+}
+
+/**
+ * Discovers same-origin product and category pages, breadth-first from a
+ * start URL or directly from a sitemap. Returns the URLs with any HTML
+ * already fetched so the audit step does not download pages twice.
+ */
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<{ url: string; html?: string }[]> {
+  const { maxDepth = 1, maxPages = 10, linkPattern = PRODUCT_PATH_PATTERN, signal } = options;
+  const status = options.onStatus || (() => {});
+  const origin = new URL(startUrl).origin;
+
+  if (isSitemap(startUrl)) {
+    status('Reading sitemap...');
+    const urls = (await readSitemap(startUrl, maxPages * 5, signal))
+      .filter((u) => u.startsWith(origin) && linkPattern.test(new URL(u).pathname) && !SKIP_PATH_PATTERN.test(u));
+    return Array.from(new Set(urls)).slice(0, maxPages).map((url) => ({ url }));
+  }
+
+  const pages: { url: string; html?: string }[] = [];
+  const seen = new Set([normalizePageUrl(startUrl, startUrl)!]);
+  let frontier = [startUrl];
+
+  for (let depth = 0; depth <= maxDepth && frontier.length > 0 && pages.length < maxPages; depth++) {
+    const next: string[] = [];
+    for (const url of frontier) {
+      if (pages.length >= maxPages) break;
+      status(`Crawling page ${pages.length + 1} of up to ${maxPages}...`);
+      let html: string;
+      try {
+        html = await cachedFetch('page', url, (init) => fetchViaProxy(url, { ...init, signal }), readPageResponse, { fresh: options.fresh, onProgress: options.onProgress });
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        // Nothing can be discovered without the start page, so its failure ends the crawl.
+        if (depth === 0) throw new Error(`Could not fetch the start page ${url}: ${error.message}`);
+        continue;
+      }
+      pages.push({ url, html });
+      options.onProgress?.({ type: 'page-fetched', url, bytes: html.length });
+      if (depth === maxDepth) continue;
+
+      findTags(html, 'a').forEach(({ href }) => {
+        const link = href && normalizePageUrl(href, url);
+        if (!link || seen.has(link)) return;
+        const parsed = new URL(link);
+        if (parsed.origin !== origin || SKIP_PATH_PATTERN.test(parsed.pathname) || !linkPattern.test(parsed.pathname)) return;
+        seen.add(link);
+        next.push(link);
+      });
+    }
+    frontier = next;
+  }
+  return pages;
+}
+
+const ISSUE_THEMES: Record<string, RegExp> = {
+  'Lighting': /\b(lighting|light|shadow|exposure|highlight|dark)\b/i,
+  'Background': /\b(background|backdrop|clutter|seamless)\b/i,
+  'Cropping & Framing': /\b(crop|cropped|framing|frame|composition|centered|negative space)\b/i,
+  'Resolution & Sharpness': /\b(resolution|blurry|blur|sharp|pixelat|compression|low-res)\b/i,
+  'Color Consistency': /\b(colou?r|white balance|palette|tone|grading)\b/i,
+  'Lifestyle Context': /\b(lifestyle|context|in-use|model|scene)\b/i,
+  'Detail Shots': /\b(detail|close-up|zoom|texture|macro)\b/i,
+  'Angles & Coverage': /\b(angle|360|back view|side view|coverage)\b/i
+};
+
+function pageFindings(page: AnalysisResult): string[] {
+  return [
+    ...page.images.map((img) => img.howToImprove),
+    ...(page.summary.marketingActionables || []),
+    ...(page.summary.visualRoadmap || [])
+  ].filter(Boolean);
+}
+
+function average(values: number[]): number {
+  return values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+}
+
+/** Aggregates per-page audits into site-wide consistency, quality and issue figures. */
+export function buildSiteRollup(pages: AnalysisResult[]): SiteRollup {
+  const consistency = pages.map((p) => p.summary.brandConsistency);
+  const qualities = pages.flatMap((p) => p.images.filter((img) => !img.notAnalyzed).map((img) => img.qualityScore));
+
+  const buckets = [
+    { label: 'Poor (0-49)', min: 0, max: 49 },
+    { label: 'Fair (50-69)', min: 50, max: 69 },
+    { label: 'Good (70-84)', min: 70, max: 84 },
+    { label: 'Excellent (85-100)', min: 85, max: 100 }
+  ];
+
+  const recurringIssues: RecurringIssue[] = Object.entries(ISSUE_THEMES)
+    .map(([theme, pattern]) => {
+      const matching = pages.map((p) => pageFindings(p).filter((f) => pattern.test(f)));
+      return {
+        theme,
+        pageCount: matching.filter((m) => m.length > 0).length,
+        examples: Array.from(new Set(matching.flat())).slice(0, 3)
+      };
+    })
+    .filter((issue) => issue.pageCount >= Math.min(2, pages.length))
+    .sort((a, b) => b.pageCount - a.pageCount);
+
+  const colorPages = new Map<string, number>();
+  pages.forEach((p) => {
+    new Set(p.images.flatMap((img) => img.dominantColors.map((c) => c.toUpperCase()))).forEach((color) => {
+      colorPages.set(color, (colorPages.get(color) || 0) + 1);
+    });
+  });
+
+  return {
+    pageCount: pages.length,
+    imageCount: qualities.length,
+    averageBrandConsistency: average(consistency),
+    brandConsistencySpread: consistency.length ? Math.max(...consistency) - Math.min(...consistency) : 0,
+    averageQuality: average(qualities),
+    qualityDistribution: buckets.map(({ label, min, max }) => ({
+      label,
+      count: qualities.filter((q) => q >= min && q <= max).length
+    })),
+    recurringIssues,
+    sitePalette: Array.from(colorPages, ([color, pageCount]) => ({ color, pageCount }))
+      .sort((a, b) => b.pageCount - a.pageCount)
+      .slice(0, 8)
+  };
+}
+
+/** Crawls a site, audits every discovered page and rolls the results up. */
+export async function auditSite(
+  startUrl: string,
+  crawlOptions: CrawlOptions = {},
+  auditOptions: AuditPageOptions = {}
+): Promise<SiteAuditReport> {
+  const status = crawlOptions.onStatus || (() => {});
+  const discovered = await crawlSite(startUrl, crawlOptions);
+  if (discovered.length === 0) throw new Error("No auditable pages found. Check the start URL or sitemap.");
+
+  const pages: AnalysisResult[] = [];
+  const failures: { url: string; error: string }[] = [];
+  for (const [idx, page] of discovered.entries()) {
+    status(`Auditing page ${idx + 1} of ${discovered.length}...`);
+    try {
+      pages.push(await auditPage(page.url, { ...auditOptions, html: page.html }));
+    } catch (error: any) {
+      if (auditOptions.signal?.aborted) throw error;
+      failures.push({ url: page.url, error: error.message });
+    }
+  }
+  if (pages.length === 0) throw new Error(`All ${discovered.length} pages failed to audit. First error: ${failures[0]?.error}`);
+
+  return { startUrl, pages, failures, rollup: buildSiteRollup(pages) };
+}
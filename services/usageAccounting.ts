@@ -0,0 +1,306 @@
+import { AuditUsage } from "../types.ts";
+import { readEnv } from "./env.ts";
+import { base64ToBytes } from "./imageHash.ts";
+import { readImageDimensions } from "./imageMetrics.ts";
+import { EncodedImage, VisionRequest, VisionResponse } from "./visionProvider.ts";
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** List prices when this table was written; override them with `MODEL_PRICES` or {@link setModelPrice}. */
+const prices = new Map<string, ModelPrice>([
+  ['gemini-3-pro-preview', { inputPerMillion: 2, outputPerMillion: 12 }],
+  ['gemini-3-flash-preview', { inputPerMillion: 0.5, outputPerMillion: 3 }],
+  ['gemini-2.5-pro', { inputPerMillion: 1.25, outputPerMillion: 10 }],
+  ['gemini-2.5-flash', { inputPerMillion: 0.3, outputPerMillion: 2.5 }],
+  ['gemini-2.5-flash-lite', { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+  ['gpt-4o', { inputPerMillion: 2.5, outputPerMillion: 10 }],
+  ['gpt-4o-mini', { inputPerMillion: 0.15, outputPerMillion: 0.6 }],
+  ['gpt-4.1', { inputPerMillion: 2, outputPerMillion: 8 }],
+  ['gpt-4.1-mini', { inputPerMillion: 0.4, outputPerMillion: 1.6 }],
+  ['mock-vision-1', { inputPerMillion: 0, outputPerMillion: 0 }]
+]);
+let envPricesLoaded = false;
+
+/** Checks a `{ "<model>": { "inputPerMillion": n, "outputPerMillion": n } }` price table. */
+export function parseModelPrices(data: unknown): Record<string, ModelPrice> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('Invalid price table: not a JSON object');
+  for (const [model, price] of Object.entries(data as Record<string, any>)) {
+    const valid = ['inputPerMillion', 'outputPerMillion'].every((k) => typeof price?.[k] === 'number' && price[k] >= 0);
+    if (!valid) throw new Error(`Invalid price table: "${model}" needs non-negative "inputPerMillion" and "outputPerMillion"`);
+  }
+  return data as Record<string, ModelPrice>;
+}
+
+export function setModelPrice(model: string, price: ModelPrice): void {
+  prices.set(model, price);
+}
+
+// Read on first use rather than at import, so a bad value fails the audit with a clear message.
+function loadEnvPrices(): void {
+  if (envPricesLoaded) return;
+  envPricesLoaded = true;
+  const env = readEnv('MODEL_PRICES');
+  if (env) Object.entries(parseModelPrices(JSON.parse(env))).forEach(([model, price]) => setModelPrice(model, price));
+}
+
+export function listModelPrices(): [string, ModelPrice][] {
+  loadEnvPrices();
+  return Array.from(prices.entries());
+}
+
+/**
+ * The exact model first, then the longest listed prefix, so dated snapshots
+ * such as `gpt-4o-mini-2024-07-18` resolve to their family's price.
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  loadEnvPrices();
+  const name = model.replace(/^models\//, '');
+  if (prices.has(name)) return prices.get(name);
+  const prefix = Array.from(prices.keys())
+    .filter((known) => name.startsWith(known))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices.get(prefix) : undefined;
+}
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | undefined {
+  const price = getModelPrice(model);
+  return price && (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1e6;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
+
+/** One line for reports and logs, e.g. `12.4k in / 2.1k out tokens · 1 request · 8.2s · $0.0125`. */
+export function summarizeUsage(usage: AuditUsage): string {
+  const k = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+  return [
+    `${k(usage.inputTokens)} in / ${k(usage.outputTokens)} out tokens`,
+    `${usage.requests} request${usage.requests === 1 ? '' : 's'}${usage.cachedRequests ? ` + ${usage.cachedRequests} cached` : ''}`,
+    `${(usage.latencyMs / 1000).toFixed(1)}s`,
+    usage.costUsd !== undefined ? formatUsd(usage.costUsd) : 'no price for this model',
+    usage.downsized && `budget: ${usage.downsized}`
+  ].filter(Boolean).join(' · ');
+}
+
+/** Roughly four characters per token. */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const TILE_EDGE = 768;
+const TOKENS_PER_TILE = 258;
+
+/**
+ * Counts 768px tiles at 258 tokens each, as Gemini does; other providers
+ * bill images on a similar scale. Unreadable sizes count as four tiles.
+ */
+export function estimateImageTokens(image: { base64: string }): number {
+  const size = readImageDimensions(base64ToBytes(image.base64));
+  if (!size) return 4 * TOKENS_PER_TILE;
+  return Math.ceil(size.width / TILE_EDGE) * Math.ceil(size.height / TILE_EDGE) * TOKENS_PER_TILE;
+}
+
+/** Reply length assumed before a request is sent: the summary plus one entry per image. */
+const OUTPUT_BASE_TOKENS = 1500;
+const OUTPUT_TOKENS_PER_IMAGE = 600;
+
+/** The parts of a request that decide its size. */
+export type RequestShape = Pick<VisionRequest, 'prompt' | 'images' | 'references'>;
+
+export function estimateRequestTokens({ prompt, images, references = [] }: RequestShape): { inputTokens: number; outputTokens: number } {
+  const sent = [...images, ...references.map((r) => r.image)];
+  return {
+    inputTokens: estimateTextTokens(prompt) + sent.reduce((sum, img) => sum + estimateImageTokens(img), 0),
+    outputTokens: OUTPUT_BASE_TOKENS + OUTPUT_TOKENS_PER_IMAGE * images.length
+  };
+}
+
+/** Usage summed over many requests or audits. */
+export interface UsageTotals {
+  audits: number;
+  requests: number;
+  cachedRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+  /** Requests or audits on a model without a price; `costUsd` leaves them out. */
+  unpriced: number;
+}
+
+export const EMPTY_TOTALS: UsageTotals = { audits: 0, requests: 0, cachedRequests: 0, inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0, unpriced: 0 };
+
+export function addTotals(totals: UsageTotals, delta: Partial<UsageTotals>): UsageTotals {
+  const next = { ...totals };
+  for (const key of Object.keys(EMPTY_TOTALS) as (keyof UsageTotals)[]) next[key] += delta[key] ?? 0;
+  return next;
+}
+
+/** Totals of the usage stored with audits, e.g. across the whole history. Audits without usage are skipped. */
+export function totalUsage(usages: (AuditUsage | undefined)[]): UsageTotals {
+  return usages.reduce<UsageTotals>((totals, usage) => !usage ? totals : addTotals(totals, {
+    audits: 1,
+    requests: usage.requests,
+    cachedRequests: usage.cachedRequests,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    images: usage.imageCount,
+    costUsd: usage.costUsd ?? 0,
+    unpriced: usage.costUsd === undefined ? 1 : 0
+  }), EMPTY_TOTALS);
+}
+
+let session = EMPTY_TOTALS;
+const listeners = new Set<(totals: UsageTotals) => void>();
+
+/** Adds to the totals of this page load or CLI run, which the budget is checked against. */
+export function recordUsage(delta: Partial<UsageTotals>): void {
+  session = addTotals(session, delta);
+  listeners.forEach((listener) => listener(session));
+}
+
+export function getSessionUsage(): UsageTotals {
+  return session;
+}
+
+/** Calls `listener` whenever the session totals change; returns the unsubscribe function. */
+export function subscribeUsage(listener: (totals: UsageTotals) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Adds one model response to an audit's usage and to the session. Providers
+ * that report no token counts are estimated from the request and reply
+ * text; cached replies cost nothing and are only counted.
+ */
+export function trackResponse(
+  usage: AuditUsage | undefined,
+  request: RequestShape,
+  response: VisionResponse,
+  latencyMs: number
+): AuditUsage {
+  const current = usage || { model: response.model, inputTokens: 0, outputTokens: 0, imageCount: request.images.length, requests: 0, cachedRequests: 0, latencyMs: 0 };
+  if (response.cached) {
+    recordUsage({ cachedRequests: 1 });
+    return { ...current, cachedRequests: current.cachedRequests + 1, latencyMs: current.latencyMs + latencyMs };
+  }
+
+  const tokens = response.usage || {
+    inputTokens: estimateRequestTokens(request).inputTokens,
+    outputTokens: estimateTextTokens(response.text)
+  };
+  const cost = estimateCost(response.model, tokens.inputTokens, tokens.outputTokens);
+  recordUsage({ requests: 1, ...tokens, costUsd: cost ?? 0, unpriced: cost === undefined ? 1 : 0 });
+  return {
+    ...current,
+    model: response.model,
+    inputTokens: current.inputTokens + tokens.inputTokens,
+    outputTokens: current.outputTokens + tokens.outputTokens,
+    requests: current.requests + 1,
+    latencyMs: current.latencyMs + latencyMs,
+    ...((cost !== undefined || current.costUsd !== undefined) && { costUsd: (current.costUsd ?? 0) + (cost ?? 0) })
+  };
+}
+
+/**
+ * One audit's usage with that of a follow-up review (e.g. the layout review)
+ * added. The image count stays the audit's own; screenshots are not assets.
+ */
+export function mergeUsage(usage: AuditUsage | undefined, extra: AuditUsage | undefined): AuditUsage | undefined {
+  if (!usage || !extra) return usage || extra;
+  return {
+    ...usage,
+    inputTokens: usage.inputTokens + extra.inputTokens,
+    outputTokens: usage.outputTokens + extra.outputTokens,
+    requests: usage.requests + extra.requests,
+    cachedRequests: usage.cachedRequests + extra.cachedRequests,
+    latencyMs: usage.latencyMs + extra.latencyMs,
+    ...((usage.costUsd !== undefined || extra.costUsd !== undefined) && { costUsd: (usage.costUsd ?? 0) + (extra.costUsd ?? 0) })
+  };
+}
+
+export interface UsageBudget {
+  /** Most this session may spend on model requests, in US dollars. */
+  limitUsd: number;
+  /** When the next request would go over: refuse it, or first try fewer and smaller images. */
+  onExceeded: 'refuse' | 'downsize';
+}
+
+let budget: UsageBudget | null = null;
+
+/** Sets the session budget; `null` removes the limit. */
+export function setBudget(next: UsageBudget | null): void {
+  budget = next;
+}
+
+export function getBudget(): UsageBudget | null {
+  return budget;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly estimateUsd: number, readonly remainingUsd: number) {
+    super(`Budget exceeded: the next model request would cost about ${formatUsd(estimateUsd)}, but ${formatUsd(Math.max(0, remainingUsd))} of the budget is left.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function requestCost(model: string, request: RequestShape): number | undefined {
+  const { inputTokens, outputTokens } = estimateRequestTokens(request);
+  return estimateCost(model, inputTokens, outputTokens);
+}
+
+/** Throws when a request of this size would take the session over budget. Models without a price are not limited. */
+export function checkBudget(model: string, request: RequestShape): void {
+  if (!budget) return;
+  const cost = requestCost(model, request);
+  const remaining = budget.limitUsd - session.costUsd;
+  if (cost !== undefined && cost > remaining) throw new BudgetExceededError(cost, remaining);
+}
+
+/** Long edges tried, largest first, before images are dropped. */
+const DOWNSIZE_EDGES = [1024, 512];
+
+/**
+ * The audited images to send so the request fits the budget. `refuse` throws
+ * as soon as it does not fit; `downsize` first lowers the resolution, then
+ * drops images from the end, and throws only when one small image is still
+ * too expensive. `downscale` may return an image unchanged where it cannot
+ * be re-encoded (e.g. under Node), which leaves dropping images.
+ */
+export async function fitToBudget(
+  model: string,
+  request: RequestShape,
+  downscale: (image: EncodedImage, maxEdge: number) => Promise<EncodedImage>
+): Promise<{ images: EncodedImage[]; downsized?: string }> {
+  const { images } = request;
+  if (!budget) return { images };
+  const remaining = budget.limitUsd - session.costUsd;
+  const cost = requestCost(model, request);
+  if (cost === undefined || cost <= remaining) return { images };
+  if (budget.onExceeded === 'refuse') throw new BudgetExceededError(cost, remaining);
+
+  const costWith = (sent: EncodedImage[]) => requestCost(model, { ...request, images: sent })!;
+  let smallest = images;
+  let scaledTo: number | undefined;
+  for (const edge of DOWNSIZE_EDGES) {
+    const scaled = await Promise.all(images.map((img) => downscale(img, edge)));
+    if (scaled.every((img, idx) => img.base64 === images[idx].base64)) break;
+    [smallest, scaledTo] = [scaled, edge];
+    if (costWith(smallest) <= remaining) return { images: smallest, downsized: `images downscaled to ${edge}px` };
+  }
+  for (let count = images.length - 1; count >= 1; count--) {
+    const kept = smallest.slice(0, count);
+    if (costWith(kept) <= remaining) {
+      return { images: kept, downsized: `${count} of ${images.length} images sent${scaledTo ? `, downscaled to ${scaledTo}px` : ''}` };
+    }
+  }
+  throw new BudgetExceededError(costWith(smallest.slice(0, 1)), remaining);
+}
@@ -0,0 +1,75 @@
+import { SchemaNode } from "./analysisSchema.ts";
+import { readEnv } from "./env.ts";
+import { createGeminiProvider } from "./geminiProvider.ts";
+import { createOpenAiProvider } from "./openaiProvider.ts";
+import { createMockProvider } from "./mockProvider.ts";
+
+export interface EncodedImage {
+  /** Label sent alongside the image; the model must echo it back in its entry. */
+  id?: string;
+  url: string;
+  base64: string;
+  mimeType: string;
+}
+
+export interface VisionRequest {
+  prompt: string;
+  images: EncodedImage[];
+  /** Labelled context images (e.g. brand examples) that are not audited themselves. */
+  references?: { label: string; image: EncodedImage }[];
+  schema: SchemaNode;
+  temperature?: number;
+  /** Aborts the request, including any retry wait. */
+  signal?: AbortSignal;
+  /** Streams the reply: called with the text received so far as it arrives. */
+  onText?: (text: string) => void;
+}
+
+export interface VisionResponse {
+  /** Raw JSON text as returned by the model, parsed by the caller. */
+  text: string;
+  model: string;
+  /** Token counts as reported by the provider. */
+  usage?: { inputTokens: number; outputTokens: number };
+  /** Served from the audit cache; nothing was sent to the provider. */
+  cached?: boolean;
+}
+
+export interface VisionProvider {
+  id: string;
+  label: string;
+  model: string;
+  isConfigured(): boolean;
+  generate(request: VisionRequest): Promise<VisionResponse>;
+}
+
+const providers = new Map<string, VisionProvider>();
+let activeProviderId = '';
+
+export function registerProvider(provider: VisionProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listProviders(): VisionProvider[] {
+  return Array.from(providers.values());
+}
+
+export function setActiveProvider(id: string): void {
+  if (!providers.has(id)) throw new Error(`Unknown vision provider: ${id}`);
+  activeProviderId = id;
+}
+
+/**
+ * Resolves a provider by explicit id, then the runtime selection, then the
+ * `VISION_PROVIDER` environment variable, defaulting to Gemini.
+ */
+export function getProvider(id?: string): VisionProvider {
+  const resolvedId = id || activeProviderId || readEnv('VISION_PROVIDER') || 'gemini';
+  const provider = providers.get(resolvedId);
+  if (!provider) throw new Error(`Unknown vision provider: ${resolvedId}`);
+  return provider;
+}
+
+registerProvider(createGeminiProvider());
+registerProvider(createOpenAiProvider());
+registerProvider(createMockProvider());
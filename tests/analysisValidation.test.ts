@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { buildRepairPrompt, normalizeHexColor, validateModelOutput } from '../services/analysisValidation.ts';
+
+const image = (overrides: Record<string, unknown> = {}) => ({
+  id: '1',
+  dominantColors: ['#ffffff'],
+  composition: 'centered',
+  lighting: 'soft',
+  mood: 'calm',
+  aesthetic: 'minimal',
+  qualityScore: 80,
+  description: 'A mug',
+  howToImprove: 'Tighter crop',
+  regions: [],
+  ...overrides
+});
+
+const summary = (overrides: Record<string, unknown> = {}) => ({
+  brandConsistency: 70,
+  creativeStyle: 'clean',
+  typographyNotes: '',
+  layoutAnalysis: '',
+  marketingActionables: ['Add lifestyle shots'],
+  overallAesthetic: 'minimal',
+  visualRoadmap: [],
+  competitors: [],
+  ...overrides
+});
+
+const paths = (issues: { path: string }[]) => issues.map((issue) => issue.path);
+
+describe('normalizeHexColor', () => {
+  it.each([
+    ['#fff', '#FFFFFF'],
+    ['1a2B3c', '#1A2B3C'],
+    ['rgb(255, 0, 16)', '#FF0010'],
+    ['rgba(0,0,0,0.5)', '#000000']
+  ])('normalizes %s to %s', (input, expected) => {
+    expect(normalizeHexColor(input)).toBe(expected);
+  });
+
+  it.each(['red', '#ggg', 'rgb(300, 0, 0)'])('rejects %s', (input) => {
+    expect(normalizeHexColor(input)).toBeNull();
+  });
+});
+
+describe('validateModelOutput', () => {
+  it('coerces numeric strings and rescales 0-1 scores', () => {
+    const { output, issues, valid } = validateModelOutput(
+      { images: [image({ qualityScore: '72' })], summary: summary({ brandConsistency: 0.65 }) },
+      { imageCount: 1 }
+    );
+    expect(valid).toBe(true);
+    expect(output!.images[0].qualityScore).toBe(72);
+    expect(output!.summary.brandConsistency).toBe(65);
+    expect(issues).toContainEqual(expect.objectContaining({ path: '$.images[0].qualityScore', severity: 'repaired' }));
+  });
+
+  it('normalizes colours and drops those that are not colours', () => {
+    const { output, issues } = validateModelOutput(
+      { images: [image({ dominantColors: ['#abc', 'rgb(0, 128, 255)', 'teal'] })], summary: summary() },
+      { imageCount: 1 }
+    );
+    expect(output!.images[0].dominantColors).toEqual(['#AABBCC', '#0080FF']);
+    expect(issues).toContainEqual(expect.objectContaining({ path: '$.images[0].dominantColors', severity: 'repaired' }));
+  });
+
+  it('drops unknown and duplicate ids when matching by id', () => {
+    const { output, issues, valid } = validateModelOutput(
+      { images: [image({ id: 'a' }), image({ id: 'zz' }), image({ id: 'a' }), image({ id: 'b' })], summary: summary() },
+      { imageCount: 2, imageIds: ['a', 'b'] }
+    );
+    expect(valid).toBe(true);
+    expect(output!.images.map((img) => img.id)).toEqual(['a', 'b']);
+    expect(paths(issues.filter((issue) => issue.message.includes('dropped')))).toEqual(['$.images[1].id', '$.images[2].id']);
+  });
+
+  it('reassigns empty and duplicate ids when not matching by id', () => {
+    const { output } = validateModelOutput(
+      { images: [image({ id: 'x' }), image({ id: 'x' }), image({ id: '' })], summary: summary() },
+      { imageCount: 3 }
+    );
+    expect(output!.images.map((img) => img.id)).toEqual(['x', '2', '3']);
+  });
+
+  it('reports issues at the index the entry had in the reply', () => {
+    const { issues } = validateModelOutput(
+      { images: ['not an image', image({ id: 'a', qualityScore: undefined }), image({ id: 'b', qualityScore: 140 })], summary: summary() },
+      { imageCount: 2, imageIds: ['a', 'b'] }
+    );
+    expect(paths(issues)).toContain('$.images[2].qualityScore');
+    expect(issues.find((issue) => issue.path === '$.images[2].qualityScore')!.message).toMatch(/clamped to 100/);
+  });
+
+  it('fails strict validation on a missing entry but only warns when lenient', () => {
+    const raw = { images: [image({ id: 'a' })], summary: summary() };
+    const expectations = { imageCount: 2, imageIds: ['a', 'b'] };
+    const strict = validateModelOutput(raw, expectations);
+    const lenient = validateModelOutput(raw, expectations, true);
+    expect(strict.valid).toBe(false);
+    expect(lenient.valid).toBe(true);
+    expect(lenient.issues).toContainEqual(expect.objectContaining({ path: '$.images', severity: 'warning' }));
+  });
+
+  it('fills missing strings when lenient and rejects them when strict', () => {
+    const raw = { images: [image({ mood: undefined })], summary: summary() };
+    expect(validateModelOutput(raw, { imageCount: 1 }).valid).toBe(false);
+    const lenient = validateModelOutput(raw, { imageCount: 1 }, true);
+    expect(lenient.valid).toBe(true);
+    expect(lenient.output!.images[0].mood).toBe('');
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists only the errors and quotes the previous reply', () => {
+    const prompt = buildRepairPrompt('Audit these images.', '{"images": []}', [
+      { path: '$.images', message: 'has 0 entries for 2 images', severity: 'error' },
+      { path: '$.summary.visualRoadmap', message: 'has 0 steps, expected 3', severity: 'warning' }
+    ]);
+    expect(prompt.startsWith('Audit these images.')).toBe(true);
+    expect(prompt).toContain('- $.images has 0 entries for 2 images');
+    expect(prompt).not.toContain('visualRoadmap');
+    expect(prompt).toContain('{"images": []}');
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { cachedGenerate, createMemoryCacheStore, hasCachedReply, setCacheStore } from '../services/auditCache.ts';
+import { ANALYSIS_SCHEMA } from '../services/analysisSchema.ts';
+import { VisionProvider, VisionRequest } from '../services/visionProvider.ts';
+
+/** Answers with the queued replies in turn and counts the requests it received. */
+function scriptedProvider(...replies: string[]): VisionProvider & { calls: number } {
+  const provider = {
+    id: 'scripted',
+    label: 'Scripted',
+    model: 'scripted-1',
+    calls: 0,
+    isConfigured: () => true,
+    generate: async () => ({ text: replies[Math.min(provider.calls++, replies.length - 1)], model: 'scripted-1' })
+  };
+  return provider;
+}
+
+const request = (overrides: Partial<VisionRequest> = {}): VisionRequest => ({
+  prompt: 'Audit these images.',
+  images: [{ url: 'https://cdn.example/mug.jpg', base64: 'AAAA', mimeType: 'image/jpeg' }],
+  schema: ANALYSIS_SCHEMA,
+  temperature: 0.2,
+  ...overrides
+});
+
+describe('cachedGenerate', () => {
+  beforeEach(() => setCacheStore(createMemoryCacheStore()));
+
+  it('answers a repeated request from the cache and replays it through onText', async () => {
+    const provider = scriptedProvider('{"images":[]}');
+    await cachedGenerate(provider, request(), { promptVersion: '5' });
+    let streamed = '';
+    const hit = await cachedGenerate(provider, request({ onText: (text) => { streamed = text; } }), { promptVersion: '5' });
+    expect(provider.calls).toBe(1);
+    expect(hit).toMatchObject({ text: '{"images":[]}', cached: true });
+    expect(streamed).toBe('{"images":[]}');
+  });
+
+  it.each([
+    ['the prompt', request({ prompt: 'Audit these images for a luxury brand.' }), '5'],
+    ['the profile temperature', request({ temperature: 0.7 }), '5'],
+    ['an image', request({ images: [{ url: 'https://cdn.example/mug.jpg', base64: 'BBBB', mimeType: 'image/jpeg' }] }), '5'],
+    ['the prompt version', request(), '6']
+  ])('asks again when %s changes', async (_, changed, promptVersion) => {
+    const provider = scriptedProvider('{"images":[]}');
+    await cachedGenerate(provider, request(), { promptVersion: '5' });
+    const response = await cachedGenerate(provider, changed, { promptVersion });
+    expect(provider.calls).toBe(2);
+    expect(response.cached).toBeUndefined();
+  });
+
+  it('asks again when fresh is set, and stores the new reply', async () => {
+    const provider = scriptedProvider('{"v":1}', '{"v":2}');
+    await cachedGenerate(provider, request());
+    await cachedGenerate(provider, request(), { fresh: true });
+    expect((await cachedGenerate(provider, request())).text).toBe('{"v":2}');
+    expect(provider.calls).toBe(2);
+  });
+
+  it('does not store a reply that accept rejects', async () => {
+    const provider = scriptedProvider('{"images":"oops"}', '{"images":[]}');
+    const accept = (text: string) => Array.isArray(JSON.parse(text).images);
+    await cachedGenerate(provider, request(), { accept });
+    expect(await hasCachedReply(provider, request())).toBe(false);
+    const retried = await cachedGenerate(provider, request(), { accept });
+    expect(provider.calls).toBe(2);
+    expect(retried.text).toBe('{"images":[]}');
+    expect(await hasCachedReply(provider, request())).toBe(true);
+  });
+
+  it('does not store a reply that is not JSON by default', async () => {
+    const provider = scriptedProvider('I cannot help with that.');
+    await cachedGenerate(provider, request());
+    await cachedGenerate(provider, request());
+    expect(provider.calls).toBe(2);
+  });
+
+  it('asks again when a stored reply no longer passes accept', async () => {
+    const provider = scriptedProvider('{"images":[]}', '{"images":[{"id":"1"}]}');
+    await cachedGenerate(provider, request());
+    const response = await cachedGenerate(provider, request(), { accept: (text) => JSON.parse(text).images.length > 0 });
+    expect(provider.calls).toBe(2);
+    expect(response.cached).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, ImageAnalysis } from '../types.ts';
+import { diffAudits } from '../services/auditDiff.ts';
+
+const image = (url: string, overrides: Partial<ImageAnalysis> = {}): ImageAnalysis => ({
+  id: url,
+  url,
+  dominantColors: ['#FFFFFF'],
+  composition: '',
+  lighting: '',
+  mood: '',
+  aesthetic: '',
+  qualityScore: 60,
+  description: '',
+  howToImprove: '',
+  ...overrides
+});
+
+const audit = (images: ImageAnalysis[], visualRoadmap: string[] = []): AnalysisResult => ({
+  url: 'https://shop.example/products/mug',
+  images,
+  summary: {
+    brandConsistency: 70,
+    creativeStyle: '',
+    typographyNotes: '',
+    layoutAnalysis: '',
+    marketingActionables: [],
+    overallAesthetic: '',
+    visualRoadmap,
+    competitors: []
+  }
+});
+
+describe('diffAudits image matching', () => {
+  it.each([
+    {
+      name: 'a CDN cache-buster change',
+      before: image('https://cdn.example/mug.jpg?v=1700000000', { qualityScore: 55 }),
+      after: image('https://cdn.example/mug.jpg?v=1710000000', { qualityScore: 72 }),
+      matchedBy: 'url'
+    },
+    {
+      name: 'a re-encoded image under a new name',
+      before: image('https://cdn.example/mug.jpg', { qualityScore: 55, perceptualHash: 'ffff0000ffff0000' }),
+      after: image('https://cdn.example/mug-v2.webp', { qualityScore: 72, perceptualHash: 'ffff0000ffff0003' }),
+      matchedBy: 'perceptual-hash'
+    },
+    {
+      name: 'identical bytes under a new name',
+      before: image('https://cdn.example/a.jpg', { qualityScore: 55, base64: 'AAAA' }),
+      after: image('https://cdn.example/b.jpg', { qualityScore: 72, base64: 'AAAA' }),
+      matchedBy: 'content'
+    }
+  ])('matches $name', ({ before, after, matchedBy }) => {
+    const { images } = diffAudits(audit([before]), audit([after]));
+    expect(images).toEqual([expect.objectContaining({
+      status: 'matched',
+      matchedBy,
+      beforeUrl: before.url,
+      afterUrl: after.url,
+      quality: { before: 55, after: 72, delta: 17 }
+    })]);
+  });
+
+  it('does not match images whose hashes are far apart', () => {
+    const before = image('https://cdn.example/mug.jpg', { perceptualHash: 'ffffffffffffffff' });
+    const after = image('https://cdn.example/plate.jpg', { perceptualHash: '0000000000000000' });
+    const { images } = diffAudits(audit([before]), audit([after]));
+    expect(images.map((img) => img.status).sort()).toEqual(['added', 'removed']);
+  });
+
+  it('prefers the exact URL over a query-stripped one', () => {
+    const before = [image('https://cdn.example/mug.jpg?w=400'), image('https://cdn.example/mug.jpg?w=800')];
+    const after = [image('https://cdn.example/mug.jpg?w=800')];
+    const { images } = diffAudits(audit(before), audit(after));
+    expect(images.find((img) => img.status === 'matched')!.beforeUrl).toBe('https://cdn.example/mug.jpg?w=800');
+    expect(images.find((img) => img.status === 'removed')!.beforeUrl).toBe('https://cdn.example/mug.jpg?w=400');
+  });
+});
+
+describe('diffAudits roadmap', () => {
+  it('sorts items into resolved, persisted and introduced', () => {
+    const before = audit([], [
+      'Replace the cluttered lifestyle backgrounds with plain studio backdrops',
+      'Add scale references next to every product'
+    ]);
+    const after = audit([], [
+      'Replace cluttered lifestyle backgrounds with plain studio backdrops',
+      'Shoot a consistent hero angle across the catalogue'
+    ]);
+    expect(diffAudits(before, after).roadmap).toEqual({
+      resolved: ['Add scale references next to every product'],
+      persisted: ['Replace the cluttered lifestyle backgrounds with plain studio backdrops'],
+      introduced: ['Shoot a consistent hero angle across the catalogue']
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { auditPage } from '../services/auditPipeline.ts';
+import { createMemoryCacheStore, setCacheStore } from '../services/auditCache.ts';
+import { setProxyBase } from '../services/geminiService.ts';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 300"><rect width="400" height="300" fill="#eee"/></svg>';
+
+/**
+ * A minimal JPEG stored 200×100 whose EXIF orientation (6) turns it upright
+ * to 100×200. Only the headers matter: nothing here decodes the scan data.
+ */
+function rotatedJpeg(): Buffer {
+  const tiff = [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, 0x01, 0x00, 0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00];
+  const exif = [...Buffer.from('Exif\0\0'), ...tiff];
+  return Buffer.from([
+    0xff, 0xd8,
+    0xff, 0xe1, 0x00, exif.length + 2, ...exif,
+    0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x64, 0x00, 0xc8, 0x03, 0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+    0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0xff, 0xd9
+  ]);
+}
+
+describe('auditPage on a fixture site', () => {
+  let server: http.Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    const page = readFileSync(new URL('./fixtures/pages/svg-product.html', import.meta.url));
+    const files: Record<string, [string, Buffer]> = {
+      '/product': ['text/html', page],
+      '/media/lounge-chair.svg': ['image/svg+xml; charset=utf-8', Buffer.from(SVG)],
+      '/media/lounge-chair-side.jpg': ['image/jpeg', rotatedJpeg()]
+    };
+    server = http.createServer((req, res) => {
+      const file = files[req.url || ''];
+      if (!file) return res.writeHead(404).end();
+      res.writeHead(200, { 'Content-Type': file[0] }).end(file[1]);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    setProxyBase(null);
+    setCacheStore(createMemoryCacheStore());
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('passes SVG product images on to preprocessing and measures rotated JPEGs upright', async () => {
+    const candidates: string[] = [];
+    const rejected: Record<string, string> = {};
+    const result = await auditPage(`${origin}/product`, {
+      providerId: 'mock',
+      onCandidates: (found) => candidates.push(...found.map((c) => c.url)),
+      onAssetRejected: (url, reason) => { rejected[url] = reason; }
+    });
+
+    expect(candidates).toEqual([`${origin}/media/lounge-chair.svg`, `${origin}/media/lounge-chair-side.jpg`]);
+    // Node has no canvas, so preprocessing is where the SVG stops; in the browser it is rasterized there.
+    expect(rejected[`${origin}/media/lounge-chair.svg`]).toMatch(/image\/svg\+xml has to be converted first/);
+
+    const [photo] = result.images;
+    expect(photo.url).toBe(`${origin}/media/lounge-chair-side.jpg`);
+    expect(photo.metrics).toMatchObject({ width: 100, height: 200, aspectRatio: 0.5 });
+    expect(photo.preprocessing?.exif?.Orientation).toBe('6');
+  });
+});
@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readEnv } from '../services/env.ts';
+
+describe('readEnv', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('prefers the process environment', () => {
+    vi.stubEnv('FETCH_PROXY_BASE', 'http://shell/api/fetch?url=');
+    vi.stubEnv('VITE_FETCH_PROXY_BASE', 'http://build/api/fetch?url=');
+    expect(readEnv('FETCH_PROXY_BASE')).toBe('http://shell/api/fetch?url=');
+  });
+
+  it('falls back to the VITE_ build-time variable', () => {
+    vi.stubEnv('FETCH_PROXY_BASE', '');
+    vi.stubEnv('VITE_FETCH_PROXY_BASE', 'http://build/api/fetch?url=');
+    expect(readEnv('FETCH_PROXY_BASE')).toBe('http://build/api/fetch?url=');
+  });
+
+  it('returns an empty string when neither is set', () => {
+    expect(readEnv('UNSET_VISUALSENSE_VARIABLE')).toBe('');
+  });
+});
@@ -0,0 +1,124 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ProxyError, createFetchProxyHandler, isPrivateAddress, proxyFetch, proxyOptionsFromEnv } from '../server/fetchProxy.ts';
+import { fetchWithRetry } from '../services/retry.ts';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+    '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1',
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '::ffff:c0a8:101', '::7f00:1', '::127.0.0.1',
+    '64:ff9b::7f00:1', '64:ff9b::a00:1', '2002:7f00:1::1', '2001:0:4136:e378:8000:63bf:80ff:fffe'
+  ])('refuses %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:5db8:d822', '64:ff9b::808:808'])('allows %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('proxyFetch against a local fixture site', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://fixture');
+      const to = url.searchParams.get('to');
+      if (url.pathname === '/redirect' && to) {
+        res.writeHead(302, { Location: to }).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<h1>fixture</h1>');
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  const refusal = (url: string, options = {}) => proxyFetch(url, options).then(
+    () => { throw new Error(`${url} was fetched`); },
+    (error: ProxyError) => error.status
+  );
+
+  it('refuses loopback by IP literal and by hostname', async () => {
+    expect(await refusal(`http://127.0.0.1:${port}/`)).toBe(403);
+    expect(await refusal(`http://localhost:${port}/`)).toBe(403);
+  });
+
+  it('refuses IPv4-mapped and NAT64 IPv6 literals of loopback', async () => {
+    expect(await refusal(`http://[::ffff:127.0.0.1]:${port}/`)).toBe(403);
+    expect(await refusal(`http://[::ffff:7f00:1]:${port}/`)).toBe(403);
+    expect(await refusal(`http://[64:ff9b::7f00:1]:${port}/`)).toBe(403);
+  });
+
+  it('serves a host listed in allowPrivateHosts', async () => {
+    const response = await proxyFetch(`http://localhost:${port}/`, { allowPrivateHosts: ['localhost'] });
+    expect(response.status).toBe(200);
+    expect(response.body.toString()).toBe('<h1>fixture</h1>');
+  });
+
+  it('checks every redirect hop against the private ranges', async () => {
+    const options = { allowPrivateHosts: ['localhost'] };
+    const redirect = (to: string) => `http://localhost:${port}/redirect?to=${encodeURIComponent(to)}`;
+    expect(await refusal(redirect(`http://127.0.0.1:${port}/`), options)).toBe(403);
+    expect(await refusal(redirect(`http://[::ffff:127.0.0.1]:${port}/`), options)).toBe(403);
+    expect(await refusal(redirect('http://169.254.169.254/latest/meta-data/'), options)).toBe(403);
+    expect(await refusal(redirect('http://[::ffff:a9fe:a9fe]/latest/meta-data/'), options)).toBe(403);
+  });
+
+  it('serves everything with allowPrivateNetwork', async () => {
+    const response = await proxyFetch(`http://127.0.0.1:${port}/redirect?to=/`, { allowPrivateNetwork: true });
+    expect(response.status).toBe(200);
+    expect(response.finalUrl).toBe(`http://127.0.0.1:${port}/`);
+  });
+});
+
+describe('proxy failures', () => {
+  let proxy: http.Server;
+  let proxyPort: number;
+  let closedPort: number;
+  let requests = 0;
+
+  beforeAll(async () => {
+    // A port that was just released has nothing listening on it.
+    const probe = http.createServer();
+    await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+    closedPort = (probe.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => probe.close(() => resolve()));
+
+    const handler = createFetchProxyHandler({ allowPrivateHosts: ['127.0.0.1'] });
+    proxy = http.createServer((req, res) => {
+      requests++;
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    proxyPort = (proxy.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => proxy.close(() => resolve())));
+
+  it('marks a refused upstream connection as not worth retrying', async () => {
+    const target = encodeURIComponent(`http://127.0.0.1:${closedPort}/`);
+    const response = await fetchWithRetry(`http://127.0.0.1:${proxyPort}/api/fetch?url=${target}`, undefined, { baseDelayMs: 1 });
+    expect(response.status).toBe(502);
+    expect(response.headers.get('x-proxy-retryable')).toBe('false');
+    expect(requests).toBe(1);
+  });
+});
+
+describe('proxyOptionsFromEnv', () => {
+  it('names PROXY_COOKIES when it is not valid JSON', () => {
+    expect(() => proxyOptionsFromEnv({ PROXY_COOKIES: '{example.com: consent=1}' })).toThrow(/PROXY_COOKIES is not valid JSON/);
+    expect(() => proxyOptionsFromEnv({ PROXY_COOKIES: '["consent=1"]' })).toThrow(/PROXY_COOKIES must be a JSON object/);
+  });
+
+  it('reads cookies and private host exceptions', () => {
+    const options = proxyOptionsFromEnv({ PROXY_COOKIES: '{"example.com":"consent=1"}', PROXY_ALLOW_PRIVATE_HOSTS: 'localhost, fixture.test' });
+    expect(options.cookies).toEqual({ 'example.com': 'consent=1' });
+    expect(options.allowPrivateHosts).toEqual(['localhost', 'fixture.test']);
+  });
+});
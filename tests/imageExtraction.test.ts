@@ -0,0 +1,117 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { ExtractOptions, extractImageCandidates, parseSrcset, pickLargestFromSrcset } from '../services/imageExtraction.ts';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/storefronts/${name}.html`, import.meta.url), 'utf8');
+
+const candidateUrls = (name: string, pageUrl: string, options: ExtractOptions = {}) =>
+  extractImageCandidates(fixture(name), pageUrl, { maxCandidates: 10, ...options }).map((c) => c.url);
+
+describe('parseSrcset', () => {
+  it('splits compact srcsets without whitespace after the comma', () => {
+    expect(parseSrcset('/s.jpg 200w,/l.jpg 1600w')).toEqual([
+      { url: '/s.jpg', width: 200 },
+      { url: '/l.jpg', width: 1600 }
+    ]);
+    expect(pickLargestFromSrcset('/s.jpg 200w,/l.jpg 1600w')).toEqual({ url: '/l.jpg', width: 1600 });
+  });
+
+  it('keeps commas inside URLs', () => {
+    expect(parseSrcset('https://cdn.test/w_400,h_300/a.jpg 400w, https://cdn.test/w_800,h_600/a.jpg 800w')).toEqual([
+      { url: 'https://cdn.test/w_400,h_300/a.jpg', width: 400 },
+      { url: 'https://cdn.test/w_800,h_600/a.jpg', width: 800 }
+    ]);
+  });
+
+  it('reads density descriptors, bare URLs and trailing commas', () => {
+    expect(parseSrcset('a.jpg, b.jpg 2x,')).toEqual([{ url: 'a.jpg' }, { url: 'b.jpg', density: 2 }]);
+    expect(parseSrcset('  ')).toEqual([]);
+  });
+});
+
+describe('extractImageCandidates on storefront fixtures', () => {
+  it('Shopify: JSON-LD gallery first, then the largest compact srcset rendition', () => {
+    expect(candidateUrls('shopify', 'https://shop.example.com/products/organic-tee')).toEqual([
+      'https://shop.example.com/cdn/shop/files/tee-front.jpg?v=1700',
+      'https://shop.example.com/cdn/shop/files/tee-back.jpg?v=1700',
+      'https://shop.example.com/cdn/shop/files/tee-front.jpg?v=1700&width=1946',
+      'https://shop.example.com/cdn/shop/files/tee-back.jpg?v=1700&width=120'
+    ]);
+  });
+
+  it('WooCommerce: merges the full-size image found in JSON-LD, og:image, srcset and data-src', () => {
+    const [hero, ...rest] = extractImageCandidates(fixture('woocommerce'), 'https://goods.example.com/product/pour-over-set/', { maxCandidates: 10 });
+    expect(hero.url).toBe('https://goods.example.com/wp-content/uploads/2024/03/pour-over-set.jpg');
+    expect(hero.source).toBe('json-ld');
+    expect(hero.width).toBe(1200);
+    expect(hero.reasons).toContain('also og:image meta tag');
+    expect(rest.map((c) => c.url)).toEqual([
+      'https://goods.example.com/wp-content/uploads/2024/03/pour-over-detail-600x600.jpg',
+      'https://goods.example.com/wp-content/uploads/2024/03/pour-over-detail.jpg',
+      'https://goods.example.com/wp-content/uploads/2024/02/kettle-300x300.jpg'
+    ]);
+  });
+
+  it('Magento: resolves relative URLs against <base> and skips the logo', () => {
+    expect(candidateUrls('magento', 'https://store.example.com/hero-hoodie.html')).toEqual([
+      'https://store.example.com/media/catalog/product/cache/0d8a/image/700x700/e9c3970ab036de70892d86c6d221abfe/m/h/mh07-gray_main_1.jpg',
+      'https://store.example.com/media/catalog/product/cache/2765/image/240x300/mh05-white_main_1.jpg',
+      'https://store.example.com/media/wysiwyg/home/sale-banner.jpg'
+    ]);
+  });
+
+  it('Magento: folds cache sizes of one image into the largest, keeping the og:image rank', () => {
+    const [hero] = extractImageCandidates(fixture('magento'), 'https://store.example.com/hero-hoodie.html');
+    expect(hero).toMatchObject({ source: 'og:image', width: 700 });
+    expect(hero.url).toContain('/700x700/');
+    expect(hero.reasons).toContain('also <img> src, which is larger (700w) and used instead');
+  });
+
+  it('BigCommerce: reads ImageObject JSON-LD and ranks small thumbnails last', () => {
+    const candidates = extractImageCandidates(fixture('bigcommerce'), 'https://supply.example.com/weekender-bag/', { maxCandidates: 10 });
+    expect(candidates.map((c) => c.url)).toEqual([
+      'https://cdn11.bigcommerce.com/s-abc123/images/stencil/original/products/111/376/weekender__12345.1700000000.jpg?c=2',
+      'https://cdn11.bigcommerce.com/s-abc123/products/111/images/376/weekender__12345.1700000000.386.513.jpg?c=2',
+      'https://cdn11.bigcommerce.com/s-abc123/images/stencil/1280w/products/111/376/weekender__12345.1700000000.jpg?c=2',
+      'https://cdn11.bigcommerce.com/s-abc123/images/stencil/500x659/products/111/376/weekender__12345.1700000000.jpg?c=2',
+      'https://cdn11.bigcommerce.com/s-abc123/images/stencil/50x50/products/111/377/weekender-strap__12346.1700000000.jpg?c=2'
+    ]);
+    expect(candidates[4].reasons).toContain('small rendition (50w)');
+  });
+
+  it('Squarespace: folds og:image into twitter:image and finds inline background images', () => {
+    expect(candidateUrls('squarespace', 'https://studio.example.com/shop/p/linen-throw')).toEqual([
+      'http://static1.squarespace.com/static/5f1a/t/64b0/1689000000000/linen-throw.jpg?format=1500w',
+      'https://images.squarespace-cdn.com/content/v1/5f1a/linen-throw-main.jpg?format=2500w',
+      'https://images.squarespace-cdn.com/content/v1/5f1a/linen-throw-main.jpg',
+      'https://images.squarespace-cdn.com/content/v1/5f1a/studio-banner.jpg'
+    ]);
+  });
+
+  describe('Salesforce Commerce Cloud <picture> art direction', () => {
+    const pageUrl = 'https://www.example-outdoor.com/trail-runner-2.html';
+    const image = (name: string) => `https://www.example-outdoor.com/dw/image/v2/BCDE_PRD/on/demandware.static/-/Sites-master/default/dw1a2b3c/images/large/${name}`;
+
+    it('keeps every source without a viewport', () => {
+      expect(candidateUrls('salesforce-commerce', pageUrl)).toEqual([
+        image('TR2-blue.jpg?sw=1200'),
+        image('TR2-blue-mobile.jpg?sw=1125&sh=1406'),
+        image('TR2-blue.jpg?sw=1600'),
+        image('TR2-blue.jpg?sw=800')
+      ]);
+    });
+
+    it('keeps only the source a phone or desktop browser would pick', () => {
+      expect(candidateUrls('salesforce-commerce', pageUrl, { viewportWidth: 390 })).toEqual([image('TR2-blue.jpg?sw=1200'), image('TR2-blue-mobile.jpg?sw=1125&sh=1406')]);
+      expect(candidateUrls('salesforce-commerce', pageUrl, { viewportWidth: 1440 })).toEqual([image('TR2-blue.jpg?sw=1200'), image('TR2-blue.jpg?sw=1600')]);
+    });
+  });
+
+  it('honours maxCandidates and include patterns', () => {
+    expect(candidateUrls('shopify', 'https://shop.example.com/products/organic-tee', { maxCandidates: 2 })).toHaveLength(2);
+    expect(candidateUrls('shopify', 'https://shop.example.com/products/organic-tee', { include: ['tee-back'] })).toEqual([
+      'https://shop.example.com/cdn/shop/files/tee-back.jpg?v=1700',
+      'https://shop.example.com/cdn/shop/files/tee-back.jpg?v=1700&width=120'
+    ]);
+  });
+});
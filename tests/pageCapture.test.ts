@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { FetchProxyOptions, ProxyError, checkResolvedTarget } from '../server/fetchProxy.ts';
+import { capturePage } from '../server/pageCapture.ts';
+
+// Refusals happen before a browser is launched, so these run without Chromium.
+const refusal = (url: string, options: FetchProxyOptions = {}) => capturePage(url, options).then(
+  () => { throw new Error(`expected ${url} to be refused`); },
+  (error: ProxyError) => error.status
+);
+
+describe('capturePage', () => {
+  it('refuses loopback by IP literal and by hostname', async () => {
+    expect(await refusal('http://127.0.0.1:8080/')).toBe(403);
+    expect(await refusal('http://localhost:8080/')).toBe(403);
+  });
+
+  it('refuses IPv4-mapped IPv6 literals of loopback and metadata addresses', async () => {
+    expect(await refusal('http://[::ffff:127.0.0.1]/')).toBe(403);
+    expect(await refusal('http://[::ffff:a9fe:a9fe]/latest/meta-data/')).toBe(403);
+  });
+
+  it('refuses schemes other than http and https', async () => {
+    expect(await refusal('file:///etc/passwd')).toBe(400);
+    expect(await refusal('ws://example.com/')).toBe(400);
+  });
+});
+
+describe('checkResolvedTarget', () => {
+  it('refuses hostnames that resolve to private addresses', async () => {
+    await expect(checkResolvedTarget(new URL('http://localhost/'), {})).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('passes hosts listed in allowPrivateHosts', async () => {
+    await expect(checkResolvedTarget(new URL('http://localhost/'), { allowPrivateHosts: ['localhost'] })).resolves.toBeUndefined();
+  });
+
+  it('passes public IP literals without a lookup', async () => {
+    await expect(checkResolvedTarget(new URL('http://93.184.216.34/'), {})).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { HttpStatusError, isRetryable, withRetry } from '../services/retry.ts';
+
+describe('isRetryable', () => {
+  it.each([
+    ['Node network failure', new TypeError('fetch failed')],
+    ['Chromium network failure', new TypeError('Failed to fetch')],
+    ['Firefox network failure', new TypeError('NetworkError when attempting to fetch resource.')],
+    ['Safari network failure', new TypeError('Load failed')],
+    ['rate limit', new HttpStatusError('Request failed (429)', 429)],
+    ['Gemini quota message', new Error('RESOURCE_EXHAUSTED: quota exceeded')]
+  ])('retries a %s', (_, error) => {
+    expect(isRetryable(error)).toBe(true);
+  });
+
+  it.each([
+    ['programming error', new TypeError("Cannot read properties of undefined (reading 'text')")],
+    ['bad request', new HttpStatusError('Request failed (400)', 400)],
+    ['abort', Object.assign(new Error('aborted'), { name: 'AbortError' })]
+  ])('does not retry a %s', (_, error) => {
+    expect(isRetryable(error)).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('surfaces a TypeError from the task after one attempt', async () => {
+    let attempts = 0;
+    const task = async () => {
+      attempts++;
+      throw new TypeError('onText is not a function');
+    };
+    await expect(withRetry(task, { baseDelayMs: 1 })).rejects.toThrow('onText is not a function');
+    expect(attempts).toBe(1);
+  });
+
+  it('retries network failures until the task succeeds', async () => {
+    let attempts = 0;
+    const task = async () => {
+      if (++attempts < 3) throw new TypeError('fetch failed');
+      return 'ok';
+    };
+    expect(await withRetry(task, { baseDelayMs: 1 })).toBe('ok');
+    expect(attempts).toBe(3);
+  });
+});
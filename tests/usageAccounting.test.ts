@@ -0,0 +1,93 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { BudgetExceededError, checkBudget, fitToBudget, getSessionUsage, recordUsage, setBudget, setModelPrice } from '../services/usageAccounting.ts';
+import { EncodedImage } from '../services/visionProvider.ts';
+
+/** Just enough of a PNG for its size to be read: signature and IHDR. */
+function png(width: number, height: number): string {
+  const bytes = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write('IHDR', 12, 'ascii');
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes.toString('base64');
+}
+
+const image = (name: string, edge: number): EncodedImage => ({ url: `https://cdn.example/${name}.png`, base64: png(edge, edge), mimeType: 'image/png' });
+
+/** Stands in for the canvas downscale: square images shrunk to `maxEdge`. */
+const downscale = async (img: EncodedImage, maxEdge: number) => ({ ...img, base64: png(maxEdge, maxEdge) });
+/** Node has no canvas, so images come back unchanged. */
+const unchanged = async (img: EncodedImage) => img;
+
+// A dollar per thousand input tokens and free output: a 2048px image (9 tiles) costs $2.322,
+// at 1024px (4 tiles) $1.032 and at 512px (1 tile) $0.258.
+const MODEL = 'budget-test-model';
+const request = { prompt: '', images: [image('front', 2048), image('back', 2048)] };
+
+/** Leaves `remainingUsd` of the budget, whatever earlier tests spent this session. */
+const budgetLeaving = (remainingUsd: number, onExceeded: 'refuse' | 'downsize') =>
+  setBudget({ limitUsd: getSessionUsage().costUsd + remainingUsd, onExceeded });
+
+beforeAll(() => setModelPrice(MODEL, { inputPerMillion: 1000, outputPerMillion: 0 }));
+
+describe('fitToBudget', () => {
+  afterEach(() => setBudget(null));
+
+  it('sends everything when no budget is set', async () => {
+    expect(await fitToBudget(MODEL, request, downscale)).toEqual({ images: request.images });
+  });
+
+  it('sends everything when the request fits', async () => {
+    budgetLeaving(5, 'downsize');
+    expect(await fitToBudget(MODEL, request, downscale)).toEqual({ images: request.images });
+  });
+
+  it('refuses a request over budget in refuse mode', async () => {
+    budgetLeaving(3, 'refuse');
+    await expect(fitToBudget(MODEL, request, downscale)).rejects.toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('downscales when that is enough', async () => {
+    budgetLeaving(3, 'downsize');
+    const fitted = await fitToBudget(MODEL, request, downscale);
+    expect(fitted.downsized).toBe('images downscaled to 1024px');
+    expect(fitted.images.map((img) => img.base64)).toEqual([png(1024, 1024), png(1024, 1024)]);
+  });
+
+  it('drops images once the smallest size is still too expensive', async () => {
+    budgetLeaving(0.3, 'downsize');
+    const fitted = await fitToBudget(MODEL, request, downscale);
+    expect(fitted.downsized).toBe('1 of 2 images sent, downscaled to 512px');
+    expect(fitted.images).toEqual([{ ...request.images[0], base64: png(512, 512) }]);
+  });
+
+  it('drops images without downscaling where images cannot be re-encoded', async () => {
+    budgetLeaving(2.5, 'downsize');
+    const fitted = await fitToBudget(MODEL, request, unchanged);
+    expect(fitted).toEqual({ images: [request.images[0]], downsized: '1 of 2 images sent' });
+  });
+
+  it('refuses when even one small image does not fit', async () => {
+    budgetLeaving(0.1, 'downsize');
+    const error = await fitToBudget(MODEL, request, downscale).catch((e) => e);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.estimateUsd).toBeCloseTo(0.258);
+  });
+
+  it('does not limit models without a price', async () => {
+    budgetLeaving(0, 'refuse');
+    expect(await fitToBudget('unpriced-model', request, downscale)).toEqual({ images: request.images });
+  });
+});
+
+describe('checkBudget', () => {
+  afterEach(() => setBudget(null));
+
+  it('refuses a request once spending has used up the budget', () => {
+    budgetLeaving(5, 'downsize');
+    expect(() => checkBudget(MODEL, request)).not.toThrow();
+    recordUsage({ requests: 1, costUsd: 4 });
+    expect(() => checkBudget(MODEL, request)).toThrow(BudgetExceededError);
+  });
+});
@@ -12,6 +12,65 @@ export interface ImageAnalysis {
   qualityScore: number;
   description: string;
   howToImprove: string;
+  /** dHash of the pixels, when the audit ran where images can be decoded. */
+  perceptualHash?: string;
+  /** Findings against the brand guide, when the audit ran with one. */
+  brandCompliance?: BrandCompliance;
+  /** Problems located on the image, for drawing over it. */
+  regions?: RegionFinding[];
+  /** Per-criterion scores when the audit profile defines criteria. */
+  criteriaScores?: CriterionScore[];
+  /** The model returned no entry for this asset; the critique fields are empty. */
+  notAnalyzed?: boolean;
+  /** Deterministic measurements taken locally, independent of the model. */
+  metrics?: ImageMetrics;
+  /** What was changed before the asset was sent to the model. */
+  preprocessing?: ImagePreprocessing;
+  /** Page variants the asset was picked from, when the audit compared devices. */
+  devices?: DeviceKind[];
+}
+
+export interface ImagePreprocessing {
+  /** Original MIME type of an asset converted to one the models accept, e.g. `image/svg+xml`. */
+  convertedFrom?: string;
+  /** Pixel size before downscaling to the maximum edge. */
+  originalSize?: { width: number; height: number };
+  /** EXIF tags read from the original before its metadata was stripped. */
+  exif?: Record<string, string>;
+  /** Near-identical assets (other srcset sizes, repeated thumbnails) audited as this one. */
+  duplicateUrls?: string[];
+}
+
+export interface ImageMetrics {
+  fileSizeBytes: number;
+  width?: number;
+  height?: number;
+  /** Width divided by height. */
+  aspectRatio?: number;
+  /** Encoded bits per pixel; low values suggest heavy compression. */
+  bitsPerPixel?: number;
+  /** Variance of the Laplacian at a 512px long edge; higher is sharper. */
+  sharpness?: number;
+  blurry?: boolean;
+  /** Mean luminance, 0-255. */
+  meanLuminance?: number;
+  /** Share of pixels crushed to black (0-1). */
+  shadowClipping?: number;
+  /** Share of pixels blown to white (0-1). */
+  highlightClipping?: number;
+  /** K-means palette with each colour's share of the image. */
+  palette?: { color: string; share: number }[];
+  /** Share of border pixels that are near white (0-1). */
+  backgroundWhiteness?: number;
+  /** Meets the pure-white background rule common to marketplaces. */
+  whiteBackground?: boolean;
+}
+
+export interface CriterionScore {
+  /** Matches `AuditCriterion.id`. */
+  criterion: string;
+  score: number;
+  note: string;
 }
 
 export interface CompetitorInsight {
@@ -30,10 +89,356 @@ export interface SiteSummary {
   overallAesthetic: string;
   visualRoadmap: string[];
   competitors: CompetitorInsight[];
+  /** Values for the audit profile's `extraFields`, keyed by field name. */
+  profileFields?: Record<string, string | number | boolean | string[]>;
 }
 
 export interface AnalysisResult {
   url: string;
   images: ImageAnalysis[];
   summary: SiteSummary;
+  provider?: string;
+  model?: string;
+  promptVersion?: string;
+  /** Problems found in the model output and how they were handled. */
+  validationIssues?: ValidationIssue[];
+  /** Screenshot-based layout and typography review, when the page was captured. */
+  layout?: LayoutAudit;
+  /** Why the optional screenshot capture or its review failed; the rest of the audit stands. */
+  layoutError?: string;
+  /** The brand guide the audit was checked against. */
+  brandGuide?: BrandGuide;
+  /** Per-rule pass counts across all images. */
+  brandComplianceSummary?: BrandComplianceSummary;
+  /** The profile the audit ran with, stored in full so the audit can be reproduced. */
+  profile?: AuditProfile;
+  /** Set for audits of uploaded files; `url` is then an `upload://` placeholder. */
+  upload?: UploadDetails;
+  /** Competitor pages the user supplied, audited with the same pipeline. */
+  benchmarks?: CompetitorBenchmark[];
+  /** Tokens, time and estimated spend of the model requests behind this audit. */
+  usage?: AuditUsage;
+  /** Mobile and desktop image sets compared, when the page was fetched as both. */
+  devices?: DeviceComparison;
+}
+
+export type DeviceKind = 'desktop' | 'mobile';
+
+/** The images one device variant of the page shows, judged for that device. */
+export interface DeviceVariant {
+  device: DeviceKind;
+  /** Audited assets picked from this variant, best candidate first. */
+  imageUrls: string[];
+  /** Mean quality score of those assets. */
+  averageQuality?: number;
+  /** Deterministic checks against the device's viewport, e.g. resolution for its pixel density. */
+  findings: string[];
+}
+
+/** The desktop and mobile assets at the same rank on the page, side by side. */
+export interface CropComparison {
+  /** 1 for the hero image. */
+  rank: number;
+  desktopUrl: string;
+  mobileUrl: string;
+  desktopAspect?: number;
+  mobileAspect?: number;
+  /** Same file, same picture at another size, a different crop, or a different image. */
+  relation: 'same-asset' | 'resized' | 'recropped' | 'different';
+  note: string;
+}
+
+export interface DeviceComparison {
+  variants: DeviceVariant[];
+  crops: CropComparison[];
+  /** The mobile user agent was served HTML referencing different images than the desktop one. */
+  markupDiffers: boolean;
+}
+
+/** Model usage of one audit, summed over its requests (repairs and layout review included). */
+export interface AuditUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Images sent to the model for analysis. */
+  imageCount: number;
+  /** Requests sent to the provider; replies served from the cache are counted apart. */
+  requests: number;
+  cachedRequests: number;
+  /** Time spent waiting on the model, in milliseconds. */
+  latencyMs: number;
+  /** Estimated from the price table; absent when the model has no known price. */
+  costUsd?: number;
+  /** How the request was cut down to stay within the budget, when it was. */
+  downsized?: string;
+}
+
+export interface CompetitorBenchmark {
+  url: string;
+  audit?: AnalysisResult;
+  /** Why the competitor could not be audited; `audit` is then absent. */
+  error?: string;
+}
+
+/** Figures compared side by side in the benchmarking section. */
+export interface BenchmarkScores {
+  url: string;
+  label: string;
+  brandConsistency: number;
+  averageQuality: number;
+  imageCount: number;
+  /** Median longest edge in pixels, from local metrics. */
+  medianLongEdge?: number;
+  /** Share of assets not flagged as blurry (0-1). */
+  sharpShare?: number;
+  /** Share of assets meeting the white-background rule (0-1). */
+  whiteBackgroundShare?: number;
+  palette: string[];
+}
+
+/** A rectangle in fractions (0-1) of the image's width and height, from the top left. */
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RegionCategory = 'lighting' | 'composition' | 'cropping' | 'background' | 'focus' | 'color' | 'retouching' | 'other';
+
+export type RegionSeverity = 'low' | 'medium' | 'high';
+
+/** A located problem on an audited image, e.g. a harsh shadow or a cropped product edge. */
+export interface RegionFinding {
+  box: RegionBox;
+  label: string;
+  category: RegionCategory;
+  severity: RegionSeverity;
+  note: string;
+}
+
+export interface PageScreenshot {
+  /** Stable id the model refers to, e.g. `desktop-fold`. */
+  id: string;
+  viewport: DeviceKind;
+  /** Above the fold, or the full scroll height (capped). */
+  kind: 'fold' | 'full';
+  /** CSS pixel size of the captured area. */
+  width: number;
+  height: number;
+  base64?: string;
+  mimeType: string;
+  /** True when the full page was taller than the capture limit. */
+  truncated?: boolean;
+}
+
+export interface LayoutAnnotation {
+  screenshotId: string;
+  box: RegionBox;
+  label: string;
+  kind: 'issue' | 'strength';
+  note: string;
+}
+
+export interface LayoutAudit {
+  screenshots: PageScreenshot[];
+  typographyNotes: string;
+  layoutAnalysis: string;
+  hierarchyNotes: string;
+  annotations: LayoutAnnotation[];
+  model?: string;
+  usage?: AuditUsage;
+}
+
+export interface BrandExampleImage {
+  name: string;
+  base64: string;
+  mimeType: string;
+}
+
+/** A brand's visual rules, defined in the app or loaded from JSON. */
+export interface BrandGuide {
+  name: string;
+  /** Brand colours as `#RRGGBB`. */
+  palette: string[];
+  /** Permitted backgrounds in words or hex, e.g. "pure white", "#F5F0E8", "lifestyle interior". */
+  backgrounds: string[];
+  /** Required aspect ratios as `W:H`, e.g. "1:1", "4:5". */
+  aspectRatios: string[];
+  lighting: string;
+  /** Typeface names for any text in imagery. */
+  typography: string[];
+  doExamples: BrandExampleImage[];
+  dontExamples: BrandExampleImage[];
+}
+
+export type BrandRule = 'palette' | 'background' | 'aspect-ratio' | 'lighting' | 'typography' | 'examples';
+
+export interface BrandRuleFinding {
+  rule: BrandRule;
+  pass: boolean;
+  note: string;
+  /** Whether the finding was computed from pixels or judged by the model. */
+  source: 'measured' | 'model';
+}
+
+export interface BrandCompliance {
+  /** Share of applicable rules passed, 0-100. */
+  score: number;
+  findings: BrandRuleFinding[];
+}
+
+export interface BrandComplianceSummary {
+  score: number;
+  rules: { rule: BrandRule; passed: number; total: number }[];
+}
+
+/** White-label options for the PDF report. */
+export interface PdfBranding {
+  /** Shown on the cover and in page footers. */
+  companyName?: string;
+  logo?: { base64: string; mimeType: string };
+  /** Cover band and headings, as `#rrggbb`. */
+  primaryColor?: string;
+  /** Rules, table headers and score bars, as `#rrggbb`. */
+  accentColor?: string;
+}
+
+export interface AuditCriterion {
+  id: string;
+  label: string;
+  /** Relative weight in the image's quality score. */
+  weight: number;
+  description: string;
+}
+
+export interface ProfileField {
+  name: string;
+  type: 'string' | 'number' | 'boolean' | 'string[]';
+  description: string;
+}
+
+/** A named audit rubric, stored as JSON under `profiles/`. */
+export interface AuditProfile {
+  id: string;
+  name: string;
+  description?: string;
+  /** Prompt with `{{subject}}`, `{{competitors}}` and `{{roadmapSteps}}` placeholders. */
+  promptTemplate: string;
+  criteria: AuditCriterion[];
+  roadmapSteps: number;
+  competitors: number;
+  temperature: number;
+  /** Additional summary fields the model must fill, returned in `summary.profileFields`. */
+  extraFields: ProfileField[];
+}
+
+export interface UploadDetails {
+  productName?: string;
+  category?: string;
+  fileCount: number;
+}
+
+export interface ValidationIssue {
+  /** JSON path into the model output, e.g. `$.images[0].qualityScore`. */
+  path: string;
+  message: string;
+  severity: 'error' | 'warning' | 'repaired';
+}
+
+export interface RecurringIssue {
+  theme: string;
+  pageCount: number;
+  examples: string[];
+}
+
+export interface SiteRollup {
+  pageCount: number;
+  imageCount: number;
+  averageBrandConsistency: number;
+  /** Max minus min page consistency; a wide spread means the brand drifts between pages. */
+  brandConsistencySpread: number;
+  averageQuality: number;
+  qualityDistribution: { label: string; count: number }[];
+  recurringIssues: RecurringIssue[];
+  sitePalette: { color: string; pageCount: number }[];
+}
+
+export interface SiteAuditReport {
+  startUrl: string;
+  pages: AnalysisResult[];
+  failures: { url: string; error: string }[];
+  rollup: SiteRollup;
+}
+
+/**
+ * Structured progress from the audit pipeline, in the order stages run. Used
+ * for the live progress panel and CLI logs; the final result is authoritative.
+ */
+export type AuditProgressEvent =
+  | { type: 'page-fetched'; url: string; bytes: number }
+  | { type: 'candidates-found'; url: string; count: number }
+  | { type: 'asset-downloaded'; url: string; bytes: number; mimeType: string }
+  | { type: 'asset-rejected'; url: string; reason: string }
+  | { type: 'model-started'; provider: string; model: string; imageCount: number; attempt: number }
+  /** Characters of the model reply received so far in the current attempt. */
+  | { type: 'model-tokens'; characters: number }
+  /** A per-image analysis parsed from the streaming reply, before validation of the whole reply. */
+  | { type: 'image-analyzed'; image: ImageAnalysis }
+  /** Whether a page, image or model reply came from the cache; `url` is set for pages and images. */
+  | { type: 'cache'; kind: CacheKind; hit: boolean; url?: string };
+
+/** What the audit cache stores: fetched pages, encoded images and model replies. */
+export type CacheKind = 'page' | 'image' | 'analysis';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One URL in a batch audit and where it stands. */
+export interface BatchItem {
+  url: string;
+  status: BatchItemStatus;
+  result?: AnalysisResult;
+  error?: string;
+  /** Times the audit was started, including manual retries. */
+  attempts: number;
+}
+
+export type BatchState = 'idle' | 'running' | 'paused' | 'cancelled' | 'done';
+
+export interface AuditHistoryEntry {
+  id: string;
+  /** ISO timestamp of when the audit was stored. */
+  savedAt: string;
+  url: string;
+  provider?: string;
+  model?: string;
+  promptVersion?: string;
+  result: AnalysisResult;
+}
+
+export interface ScoreDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ImageDiff {
+  status: 'matched' | 'added' | 'removed';
+  matchedBy?: 'url' | 'perceptual-hash' | 'content';
+  beforeUrl?: string;
+  afterUrl?: string;
+  quality?: ScoreDelta;
+  colorsAdded: string[];
+  colorsRemoved: string[];
+}
+
+export interface AuditDiff {
+  url: string;
+  before: { url: string; model?: string; savedAt?: string };
+  after: { url: string; model?: string; savedAt?: string };
+  brandConsistency: ScoreDelta;
+  averageQuality: ScoreDelta;
+  images: ImageDiff[];
+  palette: { added: string[]; removed: string[]; kept: string[] };
+  roadmap: { resolved: string[]; persisted: string[]; introduced: string[] };
 }
\ No newline at end of file
@@ -1,8 +1,12 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fetchProxyPlugin, proxyOptionsFromEnv } from './server/fetchProxy.ts';
+import { pageCapturePlugin } from './server/pageCapture.ts';
+
+const proxyOptions = proxyOptionsFromEnv();
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), fetchProxyPlugin(proxyOptions), pageCapturePlugin(proxyOptions)],
   build: {
     outDir: 'dist',
     rollupOptions: {
@@ -11,4 +15,4 @@ export default defineConfig({
       },
     },
   },
-});
\ No newline at end of file
+});